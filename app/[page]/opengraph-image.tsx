@@ -1,11 +1,10 @@
 import OpengraphImage from 'components/opengraph-image';
 import { getPage } from 'lib/shopify';
-
-export const runtime = 'edge';
+import { ignoreNotFound } from 'lib/shopify/errors';
 
 export default async function Image({ params }: { params: { page: string } }) {
-  const page = await getPage(params.page);
-  const title = page.seo?.title || page.title;
+  const page = await ignoreNotFound(getPage(params.page));
+  const title = page?.seo?.title || page?.title;
 
   return await OpengraphImage({ title });
 }
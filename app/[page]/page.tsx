@@ -1,6 +1,9 @@
 import type { Metadata } from 'next';
 import Prose from 'components/prose';
+import { getAlternates } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
 import { getPage } from 'lib/shopify';
+import { ignoreNotFound } from 'lib/shopify/errors';
 import { notFound } from 'next/navigation';
 
 export async function generateMetadata({
@@ -8,13 +11,14 @@ export async function generateMetadata({
 }: {
   params: { page: string };
 }): Promise<Metadata> {
-  const page = await getPage(params.page);
+  const page = await ignoreNotFound(getPage(params.page));
 
   if (!page) return notFound();
 
   return {
     title: page.seo?.title || page.title,
     description: page.seo?.description || page.bodySummary,
+    alternates: getAlternates(`/${page.handle}`, getLocale()),
     openGraph: {
       publishedTime: page.createdAt,
       modifiedTime: page.updatedAt,
@@ -24,21 +28,26 @@ export async function generateMetadata({
 }
 
 export default async function Page({ params }: { params: { page: string } }) {
-  const page = await getPage(params.page);
+  const page = await ignoreNotFound(getPage(params.page));
 
   if (!page) return notFound();
 
+  const locale = getLocale();
+  const t = getTranslations(locale);
+
   return (
     <>
       <h1 className="mb-8 text-5xl font-bold">{page.title}</h1>
       <Prose className="mb-8" html={page.body as string} />
       <img src="/local_data_store/image copy 2.png" alt="QR Code" />
       <p className="text-sm italic">
-        {`This document was last updated on ${new Intl.DateTimeFormat(undefined, {
+        {t('page.lastUpdated', {
+          date: new Intl.DateTimeFormat(locale, {
             year: 'numeric',
             month: 'long',
             day: 'numeric'
-          }).format(new Date(page.updatedAt))}.`}
+          }).format(new Date(page.updatedAt))
+        })}
       </p>
     </>
   );
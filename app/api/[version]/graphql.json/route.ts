@@ -0,0 +1,97 @@
+import { CommerceUserError, getErrorStatus, isCommerceError } from 'lib/shopify/errors';
+import { executeStorefrontOperation } from 'lib/shopify/storefront-api';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// Local stand-in for `https://<store>.myshopify.com/api/<version>/graphql.json`.
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  if (
+    process.env.NODE_ENV === 'production' &&
+    process.env.COMMERCE_LOCAL_STOREFRONT_API !== 'true'
+  ) {
+    return NextResponse.json({ errors: [{ message: 'Not Found' }] }, { status: 404 });
+  }
+
+  const expectedToken = process.env.SHOPIFY_STOREFRONT_ACCESS_TOKEN;
+
+  if (expectedToken && req.headers.get('X-Shopify-Storefront-Access-Token') !== expectedToken) {
+    return NextResponse.json(
+      {
+        errors: [
+          {
+            message: 'Invalid Storefront API access token.',
+            extensions: { code: 'UNAUTHORIZED' }
+          }
+        ]
+      },
+      { status: 401 }
+    );
+  }
+
+  // Fault injection for exercising `shopifyFetch` timeouts and retries against this stub.
+  const delay = Number(process.env.COMMERCE_LOCAL_STOREFRONT_DELAY_MS) || 0;
+  const throttleRate = Number(process.env.COMMERCE_LOCAL_STOREFRONT_THROTTLE_RATE) || 0;
+
+  if (delay) {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  if (Math.random() < throttleRate) {
+    return NextResponse.json(
+      { errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }] },
+      { status: 429, headers: { 'Retry-After': '1' } }
+    );
+  }
+
+  let body: { query?: string; variables?: Record<string, unknown>; operationName?: string };
+
+  try {
+    body = await req.json();
+  } catch (e) {
+    return NextResponse.json({ errors: [{ message: 'Invalid JSON body.' }] }, { status: 400 });
+  }
+
+  if (!body.query) {
+    return NextResponse.json({ errors: [{ message: 'Missing query.' }] }, { status: 400 });
+  }
+
+  const result = await executeStorefrontOperation({
+    query: body.query,
+    variables: body.variables,
+    operationName: body.operationName
+  });
+
+  // Tag resolver failures with the same codes Shopify uses, so `shopifyFetch` can map them back.
+  // User errors that name a Storefront API code of their own, such as
+  // MERCHANDISE_NOT_ENOUGH_STOCK, are returned with it and its details.
+  const commerceErrors = (result.errors || [])
+    .map((error) => error.originalError)
+    .filter(isCommerceError);
+  const errors = result.errors?.flatMap((error) => {
+    const { originalError } = error;
+
+    if (!isCommerceError(originalError)) {
+      return [error.toJSON()];
+    }
+
+    const details =
+      originalError instanceof CommerceUserError
+        ? originalError.errors.filter((detail) => detail.extensions?.code)
+        : [];
+
+    return details.length
+      ? details.map((detail) => ({
+          ...error.toJSON(),
+          message: detail.message,
+          extensions: { ...error.extensions, ...detail.extensions }
+        }))
+      : [{ ...error.toJSON(), extensions: { ...error.extensions, code: originalError.code } }];
+  });
+  const throttled = commerceErrors.find((error) => error.code === 'THROTTLED');
+
+  return NextResponse.json(
+    { ...result, ...(errors && { errors }) },
+    { status: throttled ? getErrorStatus(throttled) : 200 }
+  );
+}
@@ -0,0 +1,18 @@
+import { sendRestockNotifications } from 'lib/restock';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// `POST /api/inventory/notify?secret=...` emails the shoppers waiting for variants that are back
+// in stock. It is the only place restock emails are sent from, whether stock came back through
+// `/api/inventory`, a checkout's reservation running out or Shopify's admin, so it is meant to be
+// called on a schedule, e.g. every few minutes from a cron job.
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const secret = req.nextUrl.searchParams.get('secret');
+
+  if (!secret || secret !== process.env.COMMERCE_INVENTORY_SECRET) {
+    return NextResponse.json({ error: 'Invalid inventory secret.' }, { status: 401 });
+  }
+
+  return NextResponse.json({ notified: await sendRestockNotifications() });
+}
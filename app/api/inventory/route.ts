@@ -0,0 +1,40 @@
+import { TAGS } from 'lib/constants';
+import { getTranslations } from 'lib/i18n/server';
+import { setInventoryLevel } from 'lib/shopify';
+import { getErrorMessage, getErrorStatus } from 'lib/shopify/errors';
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// `POST /api/inventory?secret=...` with `{"merchandiseId": "00101", "location": "warehouse",
+// "quantity": 20}` sets how many of a variant are on hand at a location, e.g. after a delivery.
+// Shoppers waiting for a variant that is back in stock hear from the next
+// `/api/inventory/notify` run.
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const secret = req.nextUrl.searchParams.get('secret');
+
+  if (!secret || secret !== process.env.COMMERCE_INVENTORY_SECRET) {
+    return NextResponse.json({ error: 'Invalid inventory secret.' }, { status: 401 });
+  }
+
+  try {
+    const { merchandiseId, location, quantity } = (await req.json()) as {
+      merchandiseId: string;
+      location: string;
+      quantity: number;
+    };
+
+    await setInventoryLevel(String(merchandiseId), String(location || ''), Number(quantity));
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json(
+      { error: getErrorMessage(e, 'The inventory level could not be set.', getTranslations()) },
+      { status: e instanceof SyntaxError ? 400 : getErrorStatus(e) }
+    );
+  }
+
+  revalidateTag(TAGS.products);
+
+  return NextResponse.json({ updated: true });
+}
@@ -0,0 +1,27 @@
+import { getTranslations } from 'lib/i18n/server';
+import { paymentGateway } from 'lib/payments';
+import { recordPaymentEvent } from 'lib/payments/orders';
+import { getErrorMessage, getErrorStatus } from 'lib/shopify/errors';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// `POST /api/payments/webhook` takes the gateway's notifications of changes to payments, such as
+// refunds made from its dashboard, and records them on their orders.
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  try {
+    const event = await paymentGateway.verifyWebhook(await req.text(), req.headers);
+
+    if (event) {
+      await recordPaymentEvent(event);
+    }
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json(
+      { error: getErrorMessage(e, 'The webhook could not be processed.', getTranslations()) },
+      { status: getErrorStatus(e) }
+    );
+  }
+
+  return NextResponse.json({ received: true });
+}
@@ -0,0 +1,24 @@
+import { getSearchReport } from 'lib/search-analytics';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 1000;
+
+// `GET /api/search/report?secret=...&limit=20` returns the top and zero-result search queries, up
+// to `MAX_LIMIT` of each.
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const secret = req.nextUrl.searchParams.get('secret');
+
+  if (!secret || secret !== process.env.COMMERCE_SEARCH_REPORT_SECRET) {
+    return NextResponse.json({ error: 'Invalid report secret.' }, { status: 401 });
+  }
+
+  const limit = Number(req.nextUrl.searchParams.get('limit'));
+
+  return NextResponse.json(
+    await getSearchReport(
+      Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : undefined
+    )
+  );
+}
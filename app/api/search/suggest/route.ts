@@ -0,0 +1,33 @@
+import { getTranslations } from 'lib/i18n/server';
+import { getSearchSuggestions } from 'lib/shopify';
+import { getErrorMessage, getErrorStatus } from 'lib/shopify/errors';
+import { SearchSuggestions } from 'lib/shopify/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// Anything longer is not being typed into the navbar.
+const MAX_QUERY_LENGTH = 100;
+
+const noSuggestions: SearchSuggestions = { queries: [], products: [], collections: [], pages: [] };
+
+// `GET /api/search/suggest?q=hoo` feeds the navbar's search-as-you-type dropdown.
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const query = (req.nextUrl.searchParams.get('q') || '').trim().slice(0, MAX_QUERY_LENGTH);
+
+  if (!query) {
+    return NextResponse.json(noSuggestions);
+  }
+
+  try {
+    return NextResponse.json(await getSearchSuggestions(query));
+  } catch (e) {
+    console.error(e);
+    const t = getTranslations();
+
+    return NextResponse.json(
+      { ...noSuggestions, error: getErrorMessage(e, t('search.suggestionsUnavailable'), t) },
+      { status: getErrorStatus(e) }
+    );
+  }
+}
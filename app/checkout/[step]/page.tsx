@@ -0,0 +1,186 @@
+import CheckoutSteps from 'components/checkout/steps';
+import {
+  ContactForm,
+  DeliveryOptionForm,
+  PaymentForm,
+  PlaceOrderForm,
+  ShippingAddressForm
+} from 'components/checkout/forms';
+import CheckoutSummary from 'components/checkout/summary';
+import {
+  CHECKOUT_STEPS,
+  CheckoutStep,
+  getNextCheckoutStep,
+  formatAddress,
+  getSelectedDeliveryOption,
+  isCheckoutStep,
+  PAYMENT_METHODS
+} from 'lib/checkout';
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { paymentGateway } from 'lib/payments';
+import { getShippingCountries } from 'lib/shipping';
+import { getCart } from 'lib/shopify';
+import { Cart } from 'lib/shopify/types';
+import { cookies } from 'next/headers';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+
+function ReviewSection({
+  step,
+  title,
+  lines
+}: {
+  step: CheckoutStep;
+  title: string;
+  lines: string[];
+}) {
+  const locale = getLocale();
+  const t = getTranslations(locale);
+
+  return (
+    <div className="flex items-start justify-between gap-4 border-b border-neutral-200 py-3 text-sm dark:border-neutral-700">
+      <div>
+        <p className="mb-1 text-neutral-500 dark:text-neutral-400">{title}</p>
+        {lines.map((line, index) => (
+          <p key={index}>{line}</p>
+        ))}
+      </div>
+      <Link
+        href={localizePath(`/checkout/${step}`, locale)}
+        className="text-blue-600 underline-offset-4 hover:underline"
+      >
+        {t('checkout.change')}
+      </Link>
+    </div>
+  );
+}
+
+function Review({ cart, paymentFailed }: { cart: Cart; paymentFailed?: boolean }) {
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const { checkout } = cart;
+  const deliveryOption = getSelectedDeliveryOption(cart);
+
+  return (
+    <>
+      <ReviewSection
+        step="contact"
+        title={t('checkout.email')}
+        lines={[cart.buyerIdentity.email || '']}
+      />
+      {checkout?.shippingAddress ? (
+        <ReviewSection
+          step="shipping"
+          title={t('checkout.steps.shipping')}
+          lines={formatAddress(checkout.shippingAddress, locale)}
+        />
+      ) : null}
+      {deliveryOption ? (
+        <ReviewSection
+          step="delivery"
+          title={t('checkout.steps.delivery')}
+          lines={[deliveryOption.title, deliveryOption.description].filter(
+            (line): line is string => !!line
+          )}
+        />
+      ) : null}
+      {checkout?.paymentMethod ? (
+        <ReviewSection
+          step="payment"
+          title={t('checkout.paymentMethod')}
+          lines={[t(`checkout.paymentMethods.${checkout.paymentMethod}`)]}
+        />
+      ) : null}
+      {checkout?.billingAddress ? (
+        <ReviewSection
+          step="payment"
+          title={t('checkout.billingAddress')}
+          lines={formatAddress(checkout.billingAddress, locale)}
+        />
+      ) : null}
+      <PlaceOrderForm
+        cardPayment={checkout?.paymentMethod === 'card'}
+        error={paymentFailed ? t('checkout.errors.paymentDeclined') : undefined}
+        testMode={paymentGateway.name === 'mock'}
+      />
+    </>
+  );
+}
+
+export default async function CheckoutStepPage({
+  params,
+  searchParams
+}: {
+  params: { step: string };
+  searchParams?: { [key: string]: string | string[] | undefined };
+}) {
+  if (!isCheckoutStep(params.step)) return notFound();
+
+  const { step } = params;
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const cart = await getCart(cookies().get('cartId')?.value);
+
+  if (!cart?.lines.length) {
+    return (
+      <div className="text-center">
+        <p className="mb-6 text-2xl font-bold">{t('checkout.empty')}</p>
+        <Link href={localizePath('/search', locale)} className="text-blue-600 hover:underline">
+          {t('checkout.continueShopping')}
+        </Link>
+      </div>
+    );
+  }
+
+  // Shopify carts check out on Shopify.
+  if (!cart.checkoutUrl.startsWith('/')) {
+    redirect(cart.checkoutUrl);
+  }
+
+  const furthest = getNextCheckoutStep(cart);
+
+  if (CHECKOUT_STEPS.indexOf(step) > CHECKOUT_STEPS.indexOf(furthest)) {
+    redirect(localizePath(`/checkout/${furthest}`, locale));
+  }
+
+  const countries = step === 'shipping' || step === 'payment' ? await getShippingCountries() : [];
+
+  return (
+    <div className="flex flex-col gap-12 md:flex-row">
+      <div className="w-full md:w-3/5">
+        <h1 className="mb-4 text-3xl font-bold">{t('checkout.title')}</h1>
+        <CheckoutSteps current={step} furthest={furthest} />
+        {step === 'contact' ? <ContactForm email={cart.buyerIdentity.email} /> : null}
+        {step === 'shipping' ? (
+          <ShippingAddressForm
+            address={cart.checkout?.shippingAddress}
+            countries={countries}
+            defaultCountry={cart.buyerIdentity.countryCode}
+          />
+        ) : null}
+        {step === 'delivery' ? (
+          <DeliveryOptionForm
+            options={cart.deliveryOptions}
+            selected={cart.checkout?.deliveryOptionHandle}
+          />
+        ) : null}
+        {step === 'payment' ? (
+          <PaymentForm
+            billingAddress={cart.checkout?.billingAddress}
+            countries={countries}
+            defaultCountry={cart.checkout?.shippingAddress?.countryCode}
+            paymentMethods={PAYMENT_METHODS}
+            selected={cart.checkout?.paymentMethod}
+          />
+        ) : null}
+        {step === 'review' ? (
+          <Review cart={cart} paymentFailed={searchParams?.payment === 'failed'} />
+        ) : null}
+      </div>
+      <div className="w-full md:w-2/5">
+        <CheckoutSummary cart={cart} />
+      </div>
+    </div>
+  );
+}
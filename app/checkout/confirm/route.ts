@@ -0,0 +1,47 @@
+import { TAGS } from 'lib/constants';
+import { localizePath } from 'lib/i18n';
+import { getLocale } from 'lib/i18n/server';
+import { getOrderPath } from 'lib/orders';
+import { paymentGateway } from 'lib/payments';
+import { completeCardCheckout } from 'lib/payments/orders';
+import { Order } from 'lib/shopify/types';
+import { revalidateTag } from 'next/cache';
+import { cookies } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// Where the gateway sends shoppers back to after a card challenge, with `?payment=<id>` (or
+// Stripe's `?payment_intent=<id>`). A passed challenge places the order; anything else goes back
+// to the review to try again.
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const { searchParams } = req.nextUrl;
+  const locale = getLocale();
+  const cartId = cookies().get('cartId')?.value;
+  const paymentId = searchParams.get('payment') || searchParams.get('payment_intent');
+  const payment = paymentId ? await paymentGateway.getPayment(paymentId) : undefined;
+  let order: Order | undefined;
+
+  if (cartId && payment?.reference === cartId && payment.status === 'authorized') {
+    try {
+      order = await completeCardCheckout(cartId, payment);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  if (!order) {
+    return NextResponse.redirect(
+      new URL(localizePath('/checkout/review?payment=failed', locale), req.url),
+      303
+    );
+  }
+
+  cookies().delete('cartId');
+  revalidateTag(TAGS.cart);
+
+  return NextResponse.redirect(
+    new URL(localizePath(await getOrderPath(order.id), locale), req.url),
+    303
+  );
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from 'next';
+import Footer from 'components/layout/footer';
+import { getTranslations } from 'lib/i18n/server';
+
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    title: getTranslations()('checkout.title'),
+    robots: { index: false, follow: false }
+  };
+}
+
+export default function CheckoutLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <>
+      <div className="mx-auto max-w-screen-lg px-4 py-12 text-black dark:text-white">
+        {children}
+      </div>
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { getNextCheckoutStep } from 'lib/checkout';
+import { localizePath } from 'lib/i18n';
+import { getLocale } from 'lib/i18n/server';
+import { getCart } from 'lib/shopify';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+
+// Picks up where the shopper left off.
+export default async function CheckoutPage() {
+  const cart = await getCart(cookies().get('cartId')?.value);
+
+  redirect(localizePath(`/checkout/${cart ? getNextCheckoutStep(cart) : 'contact'}`, getLocale()));
+}
@@ -1,7 +1,5 @@
 import OpengraphImage from 'components/opengraph-image';
 
-export const runtime = 'edge';
-
 export default async function () {
   return await OpengraphImage();
 }
@@ -0,0 +1,154 @@
+import type { Metadata } from 'next';
+import { getMerchandisePath, LineItem } from 'components/cart/line-item';
+import { CostBreakdown } from 'components/checkout/summary';
+import Footer from 'components/layout/footer';
+import { formatAddress } from 'lib/checkout';
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { verifyOrderToken } from 'lib/orders';
+import { getOrder } from 'lib/shopify';
+import { ignoreNotFound } from 'lib/shopify/errors';
+import { Order } from 'lib/shopify/types';
+import { notFound } from 'next/navigation';
+
+type OrderPageProps = {
+  params: { id: string };
+  searchParams?: { [key: string]: string | string[] | undefined };
+};
+
+// Orders open only with the token from the link checkout hands out. Anything else is a 404, so
+// the page doesn't tell which order ids exist.
+async function getAuthorizedOrder({
+  params,
+  searchParams
+}: OrderPageProps): Promise<Order | undefined> {
+  const token = searchParams?.token;
+
+  if (typeof token !== 'string' || !(await verifyOrderToken(params.id, token))) {
+    return undefined;
+  }
+
+  return ignoreNotFound(getOrder(params.id));
+}
+
+export async function generateMetadata(props: OrderPageProps): Promise<Metadata> {
+  const order = await getAuthorizedOrder(props);
+
+  if (!order) return notFound();
+
+  return {
+    title: getTranslations()('order.title', { name: order.name }),
+    robots: { index: false, follow: false }
+  };
+}
+
+function DetailSection({ title, lines }: { title: string; lines: string[] }) {
+  return (
+    <div className="border-b border-neutral-200 py-3 text-sm dark:border-neutral-700">
+      <p className="mb-1 text-neutral-500 dark:text-neutral-400">{title}</p>
+      {lines.map((line, index) => (
+        <p key={index}>{line}</p>
+      ))}
+    </div>
+  );
+}
+
+export default async function OrderPage(props: OrderPageProps) {
+  const order = await getAuthorizedOrder(props);
+
+  if (!order) return notFound();
+
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const formatDate = (date: string) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeStyle: 'short' }).format(
+      new Date(date)
+    );
+
+  return (
+    <>
+      <div className="mx-auto max-w-screen-lg px-4 py-12 text-black dark:text-white">
+        <h1 className="mb-2 text-3xl font-bold">{t('order.title', { name: order.name })}</h1>
+        <p className="mb-1">{t('order.thankYou')}</p>
+        <p className="mb-8 text-sm text-neutral-500 dark:text-neutral-400">
+          {t('order.placedOn', { date: formatDate(order.createdAt) })} ·{' '}
+          {t('order.confirmation', { email: order.email })}
+        </p>
+        <div className="flex flex-col gap-12 md:flex-row">
+          <section aria-label={t('order.items')} className="w-full text-sm md:w-3/5">
+            <ul className="mb-4">
+              {order.lines.map((line) => {
+                // The snapshot taken at checkout, in the shape cart lines are drawn from.
+                const merchandise = {
+                  id: line.variant.id,
+                  title: line.variant.title,
+                  selectedOptions: line.variant.selectedOptions,
+                  product: line.product
+                };
+
+                return (
+                  <li key={line.id} className="border-b border-neutral-300 dark:border-neutral-700">
+                    <LineItem
+                      merchandise={merchandise}
+                      amount={line.cost.totalAmount}
+                      href={localizePath(getMerchandisePath(merchandise), locale)}
+                    >
+                      <p className="text-right text-neutral-500 dark:text-neutral-400">
+                        {t('checkout.quantity', { quantity: line.quantity })}
+                      </p>
+                    </LineItem>
+                  </li>
+                );
+              })}
+            </ul>
+            <CostBreakdown
+              subtotalAmount={order.cost.subtotalAmount}
+              discountAllocations={order.discountAllocations}
+              shippingAmount={order.cost.shippingAmount}
+              totalTaxAmount={order.cost.totalTaxAmount}
+              taxesIncluded={order.taxesIncluded}
+              totalAmount={order.cost.totalAmount}
+            />
+          </section>
+          <div className="w-full md:w-2/5">
+            <DetailSection
+              title={t('order.status')}
+              lines={[t(`order.statuses.${order.status}`)]}
+            />
+            <DetailSection title={t('order.contact')} lines={[order.email]} />
+            <DetailSection
+              title={t('order.shippingAddress')}
+              lines={formatAddress(order.shippingAddress, locale)}
+            />
+            <DetailSection
+              title={t('order.delivery')}
+              lines={[order.deliveryOption.title, order.deliveryOption.description].filter(
+                (line): line is string => !!line
+              )}
+            />
+            <DetailSection
+              title={t('order.payment')}
+              lines={[t(`checkout.paymentMethods.${order.paymentMethod}`)]}
+            />
+            <DetailSection
+              title={t('order.billingAddress')}
+              lines={formatAddress(order.billingAddress, locale)}
+            />
+            <DetailSection
+              title={t('order.history')}
+              lines={order.statusHistory
+                .map(
+                  (change) =>
+                    `${formatDate(change.createdAt)} · ${t(`order.statuses.${change.status}`)}${
+                      change.note ? ` · ${change.note}` : ''
+                    }`
+                )
+                .reverse()}
+            />
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </>
+  );
+}
@@ -1,13 +1,22 @@
 import { Carousel } from 'components/carousel';
 import { ThreeItemGrid } from 'components/grid/three-items';
 import Footer from 'components/layout/footer';
+import { getAlternates } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { Metadata } from 'next';
 
-export const metadata = {
-  description: 'High-performance ecommerce store built with Next.js, Vercel, and Shopify.',
-  openGraph: {
-    type: 'website'
-  }
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = getLocale();
+  const t = getTranslations(locale);
+
+  return {
+    description: t('meta.homeDescription'),
+    alternates: getAlternates('/', locale),
+    openGraph: {
+      type: 'website'
+    }
+  };
+}
 
 export default function HomePage() {
   return (
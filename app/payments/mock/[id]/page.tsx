@@ -0,0 +1,48 @@
+import type { Metadata } from 'next';
+import { answerMockChallenge } from 'components/checkout/actions';
+import Footer from 'components/layout/footer';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { getMockChallenge } from 'lib/payments';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false }
+};
+
+// The mock gateway's stand-in for the page a bank shows for a 3-D Secure challenge.
+export default async function MockChallengePage({ params }: { params: { id: string } }) {
+  const payment = await getMockChallenge(params.id, cookies().get('cartId')?.value);
+
+  if (!payment) return notFound();
+
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const amount = new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: payment.amount.currencyCode
+  }).format(Number(payment.amount.amount));
+
+  return (
+    <>
+      <div className="mx-auto max-w-md px-4 py-12 text-center text-black dark:text-white">
+        <h1 className="mb-4 text-2xl font-bold">{t('payment.challengeTitle')}</h1>
+        <p className="mb-8 text-sm">{t('payment.challengeDescription', { amount })}</p>
+        <form action={answerMockChallenge.bind(null, payment.id, true)}>
+          <button
+            type="submit"
+            className="block w-full rounded-full bg-blue-600 p-3 text-center text-sm font-medium text-white opacity-90 hover:opacity-100"
+          >
+            {t('payment.approve')}
+          </button>
+        </form>
+        <form action={answerMockChallenge.bind(null, payment.id, false)}>
+          <button type="submit" className="mt-4 text-sm text-red-600 hover:underline">
+            {t('payment.fail')}
+          </button>
+        </form>
+      </div>
+      <Footer />
+    </>
+  );
+}
@@ -7,7 +7,10 @@ import { Gallery } from 'components/product/gallery';
 import { ProductProvider } from 'components/product/product-context';
 import { ProductDescription } from 'components/product/product-description';
 import { HIDDEN_PRODUCT_TAG } from 'lib/constants';
-import { getProduct } from 'lib/shopify';
+import { getAlternates, localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { getProduct, getProductRecommendations } from 'lib/shopify';
+import { ignoreNotFound } from 'lib/shopify/errors';
 import { Image } from 'lib/shopify/types';
 import Link from 'next/link';
 import { Suspense } from 'react';
@@ -17,7 +20,7 @@ export async function generateMetadata({
 }: {
   params: { handle: string };
 }): Promise<Metadata> {
-  const product = await getProduct(params.handle);
+  const product = await ignoreNotFound(getProduct(params.handle));
 
   if (!product) return notFound();
 
@@ -27,6 +30,7 @@ export async function generateMetadata({
   return {
     title: product.seo.title || product.title,
     description: product.seo.description || product.description,
+    alternates: getAlternates(`/product/${product.handle}`, getLocale()),
     robots: {
       index: indexable,
       follow: indexable,
@@ -51,7 +55,7 @@ export async function generateMetadata({
 }
 
 export default async function ProductPage({ params }: { params: { handle: string } }) {
-  const product = await getProduct(params.handle);
+  const product = await ignoreNotFound(getProduct(params.handle));
 
   if (!product) return notFound();
 
@@ -103,8 +107,49 @@ export default async function ProductPage({ params }: { params: { handle: string
             </Suspense>
           </div>
         </div>
+        <RelatedProducts id={product.id} />
       </div>
       <Footer />
     </ProductProvider>
   );
 }
+
+async function RelatedProducts({ id }: { id: string }) {
+  const relatedProducts = await getProductRecommendations(id);
+
+  if (!relatedProducts.length) return null;
+
+  const locale = getLocale();
+  const t = getTranslations(locale);
+
+  return (
+    <div className="py-8">
+      <h2 className="mb-4 text-2xl font-bold">{t('product.related')}</h2>
+      <ul className="flex w-full gap-4 overflow-x-auto pt-1">
+        {relatedProducts.map((product) => (
+          <li
+            key={product.handle}
+            className="aspect-square w-full flex-none min-[475px]:w-1/2 sm:w-1/3 md:w-1/4 lg:w-1/5"
+          >
+            <Link
+              className="relative h-full w-full"
+              href={localizePath(`/product/${product.handle}`, locale)}
+            >
+              <GridTileImage
+                alt={product.title}
+                label={{
+                  title: product.title,
+                  amount: product.priceRange.maxVariantPrice.amount,
+                  currencyCode: product.priceRange.maxVariantPrice.currencyCode
+                }}
+                src={product.featuredImage?.url}
+                fill
+                sizes="(min-width: 1024px) 20vw, (min-width: 768px) 25vw, (min-width: 640px) 33vw, (min-width: 475px) 50vw, 100vw"
+              />
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { Metadata } from 'next';
+import Footer from 'components/layout/footer';
+import { confirmNotifyMe } from 'components/product/actions';
+import { getTranslations } from 'lib/i18n/server';
+import { getRestockSignUp } from 'lib/restock';
+import { notFound } from 'next/navigation';
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false }
+};
+
+// Where a restock sign-up's confirmation email links to. Confirming takes a click, so mail
+// scanners that follow the link don't confirm it for the shopper.
+export default async function ConfirmRestockPage({
+  searchParams
+}: {
+  searchParams?: { [key: string]: string | string[] | undefined };
+}) {
+  const subscription = String(searchParams?.subscription || '');
+  const token = String(searchParams?.token || '');
+  const signUp = await getRestockSignUp(subscription, token);
+
+  if (!signUp) return notFound();
+
+  const t = getTranslations();
+
+  return (
+    <>
+      <div className="mx-auto max-w-md px-4 py-12 text-center text-black dark:text-white">
+        <h1 className="mb-4 text-2xl font-bold">{t('restock.confirmTitle')}</h1>
+        {signUp.confirmed ? (
+          <>
+            <p className="mb-8 text-sm">{t('restock.confirmed')}</p>
+            <a href={signUp.url} className="text-sm text-blue-600 hover:underline">
+              {t('restock.viewProduct')}
+            </a>
+          </>
+        ) : (
+          <>
+            <p className="mb-8 text-sm">{t('restock.confirmDescription')}</p>
+            <form action={confirmNotifyMe.bind(null, subscription, token)}>
+              <button
+                type="submit"
+                className="block w-full rounded-full bg-blue-600 p-3 text-center text-sm font-medium text-white opacity-90 hover:opacity-100"
+              >
+                {t('restock.confirm')}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+      <Footer />
+    </>
+  );
+}
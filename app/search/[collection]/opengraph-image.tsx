@@ -1,10 +1,9 @@
 import OpengraphImage from 'components/opengraph-image';
 import { getCollection } from 'lib/shopify';
-
-export const runtime = 'edge';
+import { ignoreNotFound } from 'lib/shopify/errors';
 
 export default async function Image({ params }: { params: { collection: string } }) {
-  const collection = await getCollection(params.collection);
+  const collection = await ignoreNotFound(getCollection(params.collection));
   const title = collection?.seo?.title || collection?.title;
 
   return await OpengraphImage({ title });
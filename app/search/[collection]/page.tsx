@@ -1,24 +1,73 @@
 import { getCollection, getCollectionProducts } from 'lib/shopify';
-import { Metadata } from 'next';
+import { ignoreNotFound } from 'lib/shopify/errors';
+import { Metadata, ResolvingMetadata } from 'next';
 import { notFound } from 'next/navigation';
+import { cache, Suspense } from 'react';
 
 import Grid from 'components/grid';
 import ProductGridItems from 'components/layout/product-grid-items';
-import { defaultSort, sorting } from 'lib/constants';
+import FacetList from 'components/layout/search/filter/facets';
+import Pagination, { getPaginationMetadata } from 'components/layout/search/pagination';
+import { defaultSort, PRODUCTS_PER_PAGE, sorting } from 'lib/constants';
+import { parseFilters } from 'lib/filters';
+import { getAlternates, localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
 
-export async function generateMetadata({
-  params
-}: {
-  params: { collection: string };
-}): Promise<Metadata> {
-  const collection = await getCollection('All');
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+// The metadata and the page both need the listing, so it is fetched once per request. `cache`
+// compares arguments by identity, hence the search params as JSON.
+const getListing = cache((collection: string, params: string) => {
+  const searchParams = JSON.parse(params) as SearchParams;
+  const { sort, after, before } = searchParams as { [key: string]: string };
+  const { sortKey, reverse } = sorting.find((item) => item.slug === sort) || defaultSort;
+
+  return ignoreNotFound(
+    getCollectionProducts({
+      collection,
+      sortKey,
+      reverse,
+      filters: parseFilters(searchParams),
+      first: PRODUCTS_PER_PAGE,
+      after,
+      before
+    })
+  );
+});
 
-  if (!collection) return notFound();
+export async function generateMetadata(
+  {
+    params,
+    searchParams = {}
+  }: {
+    params: { collection: string };
+    searchParams?: SearchParams;
+  },
+  parent: ResolvingMetadata
+): Promise<Metadata> {
+  const [collection, listing] = await Promise.all([
+    ignoreNotFound(getCollection(params.collection)),
+    getListing(params.collection, JSON.stringify(searchParams))
+  ]);
+
+  if (!collection || !listing) return notFound();
+
+  const locale = getLocale();
+  const t = getTranslations(locale);
 
   return {
     title: collection.seo?.title || collection.title,
     description:
-      collection.seo?.description || collection.description || `${collection.title} products`
+      collection.seo?.description ||
+      collection.description ||
+      t('meta.collectionDescription', { collection: collection.title }),
+    alternates: getAlternates(collection.path, locale),
+    ...getPaginationMetadata(
+      localizePath(`/search/${params.collection}`, locale),
+      searchParams,
+      listing.pageInfo,
+      await parent
+    )
   };
 }
 
@@ -27,21 +76,33 @@ export default async function CategoryPage({
   searchParams
 }: {
   params: { collection: string };
-  searchParams?: { [key: string]: string | string[] | undefined };
+  searchParams?: SearchParams;
 }) {
-  const { sort } = searchParams as { [key: string]: string };
-  const { sortKey, reverse } = sorting.find((item) => item.slug === sort) || defaultSort;
-  const products = await getCollectionProducts({ collection: params.collection, sortKey });
+  const listing = await getListing(params.collection, JSON.stringify(searchParams || {}));
+
+  if (!listing) return notFound();
+
+  const { products, pageInfo, facets } = listing;
+  const locale = getLocale();
+  const t = getTranslations(locale);
 
   return (
     <section>
+      <Suspense fallback={null}>
+        <FacetList facets={facets} />
+      </Suspense>
       {products.length === 0 ? (
-        <p className="py-3 text-lg">{`No products found in this collection`}</p>
+        <p className="py-3 text-lg">{t('listing.emptyCollection')}</p>
       ) : (
         <Grid className="grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
           <ProductGridItems products={products} />
         </Grid>
       )}
+      <Pagination
+        pathname={localizePath(`/search/${params.collection}`, locale)}
+        searchParams={searchParams}
+        pageInfo={pageInfo}
+      />
     </section>
   );
 }
@@ -2,8 +2,17 @@ import Footer from 'components/layout/footer';
 import Collections from 'components/layout/search/collections';
 import FilterList from 'components/layout/search/filter';
 import { sorting } from 'lib/constants';
+import { Messages } from 'lib/i18n';
+import { getTranslations } from 'lib/i18n/server';
 
 export default function SearchLayout({ children }: { children: React.ReactNode }) {
+  const t = getTranslations();
+  // Sort options are translated by slug; the default has none.
+  const sortItems = sorting.map((item) => ({
+    ...item,
+    title: t(`sort.${(item.slug || 'relevance') as keyof Messages['sort']}`)
+  }));
+
   return (
     <>
       <div className="mx-auto flex max-w-screen-2xl flex-col gap-8 px-4 pb-4 text-black md:flex-row dark:text-white">
@@ -12,7 +21,7 @@ export default function SearchLayout({ children }: { children: React.ReactNode }
         </div>
         <div className="order-last min-h-screen w-full md:order-none">{children}</div>
         <div className="order-none flex-none md:order-last md:w-[125px]">
-          <FilterList list={sorting} title="Sort by" />
+          <FilterList list={sortItems} title={t('listing.sortBy')} />
         </div>
       </div>
       <Footer />
@@ -1,32 +1,103 @@
 import Grid from 'components/grid';
 import ProductGridItems from 'components/layout/product-grid-items';
-import { defaultSort, sorting } from 'lib/constants';
-import { getProducts } from 'lib/shopify';
-
-export const metadata = {
-  title: 'Search',
-  description: 'Search for products in the store.'
-};
-
-export default async function SearchPage({
-  searchParams
-}: {
-  searchParams?: { [key: string]: string | string[] | undefined };
-}) {
-  const { sort, q: searchValue } = searchParams as { [key: string]: string };
+import FacetList from 'components/layout/search/filter/facets';
+import Pagination, { getPaginationMetadata } from 'components/layout/search/pagination';
+import { defaultSort, PRODUCTS_PER_PAGE, sorting } from 'lib/constants';
+import { parseFilters } from 'lib/filters';
+import { getAlternates, localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { getSearchRedirect } from 'lib/search';
+import { getProducts, getSpellingSuggestion } from 'lib/shopify';
+import { createUrl } from 'lib/utils';
+import { Metadata, ResolvingMetadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { cache, Suspense } from 'react';
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+// The metadata and the page both need the results, so they are fetched once per request. `cache`
+// compares arguments by identity, hence the search params as JSON.
+const getResults = cache((params: string) => {
+  const searchParams = JSON.parse(params) as SearchParams;
+  const { sort, q, after, before } = searchParams as { [key: string]: string };
   const { sortKey, reverse } = sorting.find((item) => item.slug === sort) || defaultSort;
 
-  const products = await getProducts({ sortKey, reverse, query: searchValue });
-  const resultsText = products.length > 1 ? 'results' : 'result';
+  return getProducts({
+    sortKey,
+    reverse,
+    query: q,
+    filters: parseFilters(searchParams),
+    first: PRODUCTS_PER_PAGE,
+    after,
+    before
+  });
+});
+
+export async function generateMetadata(
+  { searchParams = {} }: { searchParams?: SearchParams },
+  parent: ResolvingMetadata
+): Promise<Metadata> {
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const { pageInfo } = await getResults(JSON.stringify(searchParams));
+
+  return {
+    title: t('meta.searchTitle'),
+    description: t('meta.searchDescription'),
+    alternates: getAlternates('/search', locale),
+    ...getPaginationMetadata(localizePath('/search', locale), searchParams, pageInfo, await parent)
+  };
+}
+
+export default async function SearchPage({ searchParams = {} }: { searchParams?: SearchParams }) {
+  const { sort, q: searchValue } = searchParams as { [key: string]: string };
+  const locale = getLocale();
+  const redirectTo = searchValue ? await getSearchRedirect(searchValue) : undefined;
+
+  // Queries the search config redirects go to their page instead.
+  if (redirectTo) {
+    redirect(localizePath(redirectTo, locale));
+  }
+
+  const { products, pageInfo, facets, totalCount } = await getResults(JSON.stringify(searchParams));
+  // Shopify's product search doesn't count its results, so this page's count stands in there.
+  const resultCount = totalCount ?? products.length;
+
+  const suggestion =
+    searchValue && resultCount === 0 ? await getSpellingSuggestion(searchValue) : undefined;
+  const t = getTranslations(locale);
+  // Split around the placeholder, so the query can be set in bold wherever the locale puts it.
+  const [beforeQuery, afterQuery] = (
+    resultCount === 0 ? t('search.noResults') : t('search.results', { count: resultCount })
+  ).split('{query}');
+  const [beforeSuggestion, afterSuggestion] = t('search.didYouMean').split('{suggestion}');
 
   return (
     <>
       {searchValue ? (
         <p className="mb-4">
-          {products.length === 0
-            ? 'There are no products that match '
-            : `Showing ${products.length} ${resultsText} for `}
+          {beforeQuery}
           <span className="font-bold">&quot;{searchValue}&quot;</span>
+          {afterQuery}
+        </p>
+      ) : null}
+      <Suspense fallback={null}>
+        <FacetList facets={facets} />
+      </Suspense>
+      {suggestion ? (
+        <p className="mb-4">
+          {beforeSuggestion}
+          <Link
+            href={createUrl(
+              localizePath('/search', locale),
+              new URLSearchParams({ q: suggestion, ...(sort && { sort }) })
+            )}
+            className="font-bold underline underline-offset-4 hover:text-blue-600"
+          >
+            {suggestion}
+          </Link>
+          {afterSuggestion}
         </p>
       ) : null}
       {products.length > 0 ? (
@@ -34,6 +105,11 @@ export default async function SearchPage({
           <ProductGridItems products={products} />
         </Grid>
       ) : null}
+      <Pagination
+        pathname={localizePath('/search', locale)}
+        searchParams={searchParams}
+        pageInfo={pageInfo}
+      />
     </>
   );
 }
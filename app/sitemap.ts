@@ -1,9 +1,12 @@
+import { LOCALES } from 'lib/constants';
+import { localizePath } from 'lib/i18n';
 import { getCollections, getPages, getProducts } from 'lib/shopify';
+import { Product } from 'lib/shopify/types';
 import { validateEnvironmentVariables } from 'lib/utils';
 import { MetadataRoute } from 'next';
 
 type Route = {
-  url: string;
+  path: string;
   lastModified: string;
 };
 
@@ -13,42 +16,64 @@ const baseUrl = process.env.NEXT_PUBLIC_VERCEL_URL
 
 export const dynamic = 'force-dynamic';
 
+// Product listings are paginated, so walk every page to list the whole catalog.
+async function getAllProducts(): Promise<Product[]> {
+  const products: Product[] = [];
+  let after: string | undefined;
+
+  do {
+    const page = await getProducts({ first: 250, after });
+
+    products.push(...page.products);
+    after = (page.pageInfo.hasNextPage && page.pageInfo.endCursor) || undefined;
+  } while (after);
+
+  return products;
+}
+
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   validateEnvironmentVariables();
 
-  const routesMap = [''].map((route) => ({
-    url: `${baseUrl}${route}`,
+  const routesMap = ['/'].map((route) => ({
+    path: route,
     lastModified: new Date().toISOString()
   }));
 
   const collectionsPromise = getCollections().then((collections) =>
     collections.map((collection) => ({
-      url: `${baseUrl}${collection.path}`,
+      path: collection.path,
       lastModified: collection.updatedAt
     }))
   );
 
-  const productsPromise = getProducts({}).then((products) =>
+  const productsPromise = getAllProducts().then((products) =>
     products.map((product) => ({
-      url: `${baseUrl}/product/${product.handle}`,
+      path: `/product/${product.handle}`,
       lastModified: product.updatedAt
     }))
   );
 
   const pagesPromise = getPages().then((pages) =>
     pages.map((page) => ({
-      url: `${baseUrl}/${page.handle}`,
+      path: `/${page.handle}`,
       lastModified: page.updatedAt
     }))
   );
 
-  let fetchedRoutes: Route[] = [];
+  const fetchedRoutes: Route[] = (
+    await Promise.all([collectionsPromise, productsPromise, pagesPromise])
+  ).flat();
 
-  try {
-    fetchedRoutes = (await Promise.all([collectionsPromise, productsPromise, pagesPromise])).flat();
-  } catch (error) {
-    throw JSON.stringify(error, null, 2);
-  }
+  // Every route is listed once per locale, each entry naming all of its translations.
+  return [...routesMap, ...fetchedRoutes].flatMap(({ path, lastModified }) => {
+    const languages = Object.fromEntries(
+      LOCALES.map((locale) => [locale, `${baseUrl}${localizePath(path, locale)}`])
+    );
 
-  return [...routesMap, ...fetchedRoutes];
+    return LOCALES.map((locale) => ({
+      url: languages[locale]!,
+      lastModified,
+      alternates: { languages }
+    }));
+  });
 }
@@ -1,3 +1,5 @@
+import { localizePath } from 'lib/i18n';
+import { getLocale } from 'lib/i18n/server';
 import { getCollectionProducts } from 'lib/shopify';
 import Link from 'next/link';
 import { GridTileImage } from './grid/tile';
@@ -5,12 +7,13 @@ import { GridTileImage } from './grid/tile';
 export async function Carousel() {
   // Collections that start with `hidden-*` are hidden from the search page.
   // this should be an array of products
-  const products = await getCollectionProducts({ collection: 'hidden-homepage-carousel' });
+  const { products } = await getCollectionProducts({ collection: 'hidden-homepage-carousel' });
 
   if (!products?.length) return null;
 
-  // Purposefully duplicating products to make the carousel loop and not run out of products on wide screens. 
+  // Purposefully duplicating products to make the carousel loop and not run out of products on wide screens.
   const carouselProducts = [...products, ...products, ...products];
+  const locale = getLocale();
 
   return (
     <div className="w-full overflow-x-auto pb-6 pt-1">
@@ -20,7 +23,10 @@ export async function Carousel() {
             key={`${product.handle}${i}`}
             className="relative aspect-square h-[30vh] max-h-[275px] w-2/3 max-w-[475px] flex-none md:w-1/3"
           >
-            <Link href={`/product/${product.handle}`} className="relative h-full w-full">
+            <Link
+              href={localizePath(`/product/${product.handle}`, locale)}
+              className="relative h-full w-full"
+            >
               <GridTileImage
                 alt={product.title}
                 label={{
@@ -1,38 +1,53 @@
 'use server';
 
-import { TAGS } from 'lib/constants';
-import { addToCart, createCart, getCart, removeFromCart, updateCart } from 'lib/shopify';
+import { MAX_LINE_QUANTITY, TAGS } from 'lib/constants';
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { getStockErrorMessage } from 'lib/inventory';
+import {
+  addToCart,
+  createCart,
+  getCart,
+  removeFromCart,
+  updateBuyerIdentity,
+  updateCart,
+  updateDiscountCodes
+} from 'lib/shopify';
+import { getErrorMessage } from 'lib/shopify/errors';
 import { revalidateTag } from 'next/cache';
 import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 
 export async function addItem(prevState: any, selectedVariantId: string | undefined) {
+  const t = getTranslations();
   let cartId = cookies().get('cartId')?.value;
 
   if (!cartId || !selectedVariantId) {
-    return 'Error adding item to cart';
+    return t('cart.errors.addItem');
   }
 
   try {
     await addToCart(cartId, [{ merchandiseId: selectedVariantId, quantity: 1 }]);
     revalidateTag(TAGS.cart);
   } catch (e) {
-    return 'Error adding item to cart';
+    console.error(e);
+    return getStockErrorMessage(e, t('cart.errors.addItem'), t);
   }
 }
 
 export async function removeItem(prevState: any, merchandiseId: string) {
+  const t = getTranslations();
   let cartId = cookies().get('cartId')?.value;
 
   if (!cartId) {
-    return 'Missing cart ID';
+    return t('cart.errors.missingCart');
   }
 
   try {
     const cart = await getCart(cartId);
 
     if (!cart) {
-      return 'Error fetching cart';
+      return t('cart.errors.fetchCart');
     }
 
     const lineItem = cart.lines.find((line) => line.merchandise.id === merchandiseId);
@@ -41,10 +56,11 @@ export async function removeItem(prevState: any, merchandiseId: string) {
       await removeFromCart(cartId, [lineItem.id]);
       revalidateTag(TAGS.cart);
     } else {
-      return 'Item not found in cart';
+      return t('cart.errors.itemNotFound');
     }
   } catch (e) {
-    return 'Error removing item from cart';
+    console.error(e);
+    return getErrorMessage(e, t('cart.errors.removeItem'), t);
   }
 }
 
@@ -55,19 +71,24 @@ export async function updateItemQuantity(
     quantity: number;
   }
 ) {
+  const t = getTranslations();
   let cartId = cookies().get('cartId')?.value;
 
   if (!cartId) {
-    return 'Missing cart ID';
+    return t('cart.errors.missingCart');
   }
 
   const { merchandiseId, quantity } = payload;
 
+  if (!Number.isInteger(quantity) || quantity < 0 || quantity > MAX_LINE_QUANTITY) {
+    return t('cart.errors.updateQuantity');
+  }
+
   try {
     const cart = await getCart(cartId);
 
     if (!cart) {
-      return 'Error fetching cart';
+      return t('cart.errors.fetchCart');
     }
 
     const lineItem = cart.lines.find((line) => line.merchandise.id === merchandiseId);
@@ -92,24 +113,123 @@ export async function updateItemQuantity(
     revalidateTag(TAGS.cart);
   } catch (e) {
     console.error(e);
-    return 'Error updating item quantity';
+    return getStockErrorMessage(e, t('cart.errors.updateQuantity'), t);
+  }
+}
+
+export async function applyDiscountCode(prevState: any, formData: FormData) {
+  const t = getTranslations();
+  let cartId = cookies().get('cartId')?.value;
+
+  if (!cartId) {
+    return t('cart.errors.missingCart');
+  }
+
+  const code = String(formData.get('discountCode') || '')
+    .trim()
+    .toUpperCase();
+
+  if (!code) {
+    return t('cart.errors.discountCode');
+  }
+
+  try {
+    const cart = await getCart(cartId);
+
+    if (!cart) {
+      return t('cart.errors.fetchCart');
+    }
+
+    const codes = cart.discountCodes
+      .map((discountCode) => discountCode.code)
+      .filter((existing) => existing.toUpperCase() !== code);
+    const updated = await updateDiscountCodes(cartId, [...codes, code]);
+    const applied = updated.discountCodes.find(
+      (discountCode) => discountCode.code.toUpperCase() === code
+    );
+
+    // Only keep codes that take something off; one that stops applying later stays listed.
+    if (!applied?.applicable) {
+      await updateDiscountCodes(cartId, codes);
+      return t('cart.errors.discountInvalid', { code });
+    }
+
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return getErrorMessage(e, t('cart.errors.applyDiscount'), t);
+  }
+}
+
+export async function removeDiscountCode(prevState: any, code: string) {
+  const t = getTranslations();
+  let cartId = cookies().get('cartId')?.value;
+
+  if (!cartId) {
+    return t('cart.errors.missingCart');
+  }
+
+  try {
+    const cart = await getCart(cartId);
+
+    if (!cart) {
+      return t('cart.errors.fetchCart');
+    }
+
+    await updateDiscountCodes(
+      cartId,
+      cart.discountCodes
+        .map((discountCode) => discountCode.code)
+        .filter((existing) => existing !== code)
+    );
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return getErrorMessage(e, t('cart.errors.removeDiscount'), t);
+  }
+}
+
+export async function estimateShipping(prevState: any, formData: FormData) {
+  const t = getTranslations();
+  let cartId = cookies().get('cartId')?.value;
+
+  if (!cartId) {
+    return t('cart.errors.missingCart');
+  }
+
+  const postalCode = String(formData.get('postalCode') || '')
+    .trim()
+    .toUpperCase();
+
+  if (!/^[A-Z0-9][A-Z0-9 -]{1,9}$/.test(postalCode)) {
+    return t('cart.errors.postalCode');
+  }
+
+  try {
+    await updateBuyerIdentity(cartId, { postalCode });
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return getErrorMessage(e, t('cart.errors.estimateShipping'), t);
   }
 }
 
 export async function redirectToCheckout() {
+  const t = getTranslations();
   let cartId = cookies().get('cartId')?.value;
 
   if (!cartId) {
-    return 'Missing cart ID';
+    return t('cart.errors.missingCart');
   }
 
   let cart = await getCart(cartId);
 
   if (!cart) {
-    return 'Error fetching cart';
+    return t('cart.errors.fetchCart');
   }
 
-  redirect(cart.checkoutUrl);
+  // The local provider checks out at `/checkout`, which has the locale's prefix like any page.
+  redirect(localizePath(cart.checkoutUrl, getLocale()));
 }
 
 export async function createCartAndSetCookie() {
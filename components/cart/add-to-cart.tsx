@@ -3,18 +3,26 @@
 import { PlusIcon } from '@heroicons/react/24/outline';
 import clsx from 'clsx';
 import { addItem } from 'components/cart/actions';
+import { useTranslations } from 'components/locale-context';
+import { NotifyMe } from 'components/product/notify-me';
 import { useProduct } from 'components/product/product-context';
+import { isLowStock } from 'lib/inventory';
 import { Product, ProductVariant } from 'lib/shopify/types';
 import { useFormState } from 'react-dom';
 import { useCart } from './cart-context';
 
 function SubmitButton({
   availableForSale,
-  selectedVariantId
+  selectedVariantId,
+  quantityAvailable,
+  quantityInCart
 }: {
   availableForSale: boolean;
   selectedVariantId: string | undefined;
+  quantityAvailable: number | undefined;
+  quantityInCart: number;
 }) {
+  const t = useTranslations();
   const buttonClasses =
     'relative flex w-full items-center justify-center rounded-full bg-blue-600 p-4 tracking-wide text-white';
   const disabledClasses = 'cursor-not-allowed opacity-60 hover:opacity-60';
@@ -22,30 +30,37 @@ function SubmitButton({
   if (!availableForSale) {
     return (
       <button disabled className={clsx(buttonClasses, disabledClasses)}>
-        Out Of Stock
+        {t('product.outOfStock')}
+      </button>
+    );
+  }
+
+  if (quantityAvailable !== undefined && quantityInCart >= quantityAvailable) {
+    return (
+      <button disabled className={clsx(buttonClasses, disabledClasses)}>
+        {t('product.allInCart', { count: quantityAvailable })}
       </button>
     );
   }
 
-  console.log(selectedVariantId);
   if (!selectedVariantId) {
     return (
       <button
-        aria-label="Please select an option"
+        aria-label={t('product.selectOption')}
         disabled
         className={clsx(buttonClasses, disabledClasses)}
       >
         <div className="absolute left-0 ml-4">
           <PlusIcon className="h-5" />
         </div>
-        Add To Cart
+        {t('product.addToCart')}
       </button>
     );
   }
 
   return (
     <button
-      aria-label="Add to cart"
+      aria-label={t('product.addToCart')}
       className={clsx(buttonClasses, {
         'hover:opacity-90': true
       })}
@@ -53,14 +68,15 @@ function SubmitButton({
       <div className="absolute left-0 ml-4">
         <PlusIcon className="h-5" />
       </div>
-      Add To Cart
+      {t('product.addToCart')}
     </button>
   );
 }
 
 export function AddToCart({ product }: { product: Product }) {
-  const { variants, availableForSale } = product;
-  const { addCartItem } = useCart();
+  const { variants } = product;
+  const { cart, addCartItem } = useCart();
+  const t = useTranslations();
   const { state } = useProduct();
   const [message, formAction] = useFormState(addItem, null);
 
@@ -71,18 +87,40 @@ export function AddToCart({ product }: { product: Product }) {
   const selectedVariantId = variant?.id || defaultVariantId;
   const actionWithVariant = formAction.bind(null, selectedVariantId);
   const finalVariant = variants.find((variant) => variant.id === selectedVariantId)!;
+  // The cart counts what its checkout holds as available, so it knows best once it has the item.
+  const line = cart?.lines.find((line) => line.merchandise.id === selectedVariantId);
+  const quantityAvailable = line
+    ? line.merchandise.quantityAvailable
+    : finalVariant?.quantityAvailable;
 
   return (
-    <form
-      action={async () => {
-        addCartItem(finalVariant, product);
-        await actionWithVariant();
-      }}
-    >
-      <SubmitButton availableForSale={availableForSale} selectedVariantId={selectedVariantId} />
-      <p aria-live="polite" className="sr-only" role="status">
-        {message}
-      </p>
-    </form>
+    <>
+      <form
+        action={async () => {
+          addCartItem(finalVariant, product);
+          await actionWithVariant();
+        }}
+      >
+        <SubmitButton
+          availableForSale={finalVariant ? finalVariant.availableForSale : product.availableForSale}
+          selectedVariantId={selectedVariantId}
+          quantityAvailable={quantityAvailable}
+          quantityInCart={line?.quantity || 0}
+        />
+        {quantityAvailable !== undefined && isLowStock(quantityAvailable) ? (
+          <p className="mt-3 text-center text-sm text-orange-600 dark:text-orange-400">
+            {t('product.lowStock', { count: quantityAvailable })}
+          </p>
+        ) : null}
+        <p aria-live="polite" className="sr-only" role="status">
+          {message}
+        </p>
+      </form>
+      {/* A sold-out variant can be waited for instead. Keyed by variant, so choosing another one
+          starts a new sign-up. */}
+      {finalVariant && !finalVariant.availableForSale ? (
+        <NotifyMe key={finalVariant.id} productHandle={product.handle} variant={finalVariant} />
+      ) : null}
+    </>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import type { Cart, CartItem, Product, ProductVariant } from 'lib/shopify/types';
+import type { Cart, CartItem, Money, Product, ProductVariant } from 'lib/shopify/types';
 import React, { createContext, use, useContext, useMemo, useOptimistic } from 'react';
 
 type UpdateType = 'plus' | 'minus' | 'delete';
@@ -21,6 +21,25 @@ function calculateItemCost(quantity: number, price: string): string {
   return (Number(price) * quantity).toString();
 }
 
+// A line's taxes and discounts, scaled to a new quantity until the server works them out again.
+function scaleAdjustments(
+  item: CartItem,
+  quantity: number
+): Pick<CartItem, 'taxLines' | 'discountAllocations'> {
+  const scale = (money: Money): Money => ({
+    ...money,
+    amount: ((Number(money.amount) * quantity) / item.quantity).toString()
+  });
+
+  return {
+    taxLines: item.taxLines?.map((taxLine) => ({ ...taxLine, amount: scale(taxLine.amount) })),
+    discountAllocations: item.discountAllocations.map((allocation) => ({
+      ...allocation,
+      discountedAmount: scale(allocation.discountedAmount)
+    }))
+  };
+}
+
 function updateCartItem(item: CartItem, updateType: UpdateType): CartItem | null {
   if (updateType === 'delete') return null;
 
@@ -33,6 +52,7 @@ function updateCartItem(item: CartItem, updateType: UpdateType): CartItem | null
   return {
     ...item,
     quantity: newQuantity,
+    ...scaleAdjustments(item, newQuantity),
     cost: {
       ...item.cost,
       totalAmount: {
@@ -54,6 +74,7 @@ function createOrUpdateCartItem(
   return {
     id: existingItem?.id,
     quantity,
+    ...(existingItem ? scaleAdjustments(existingItem, quantity) : { discountAllocations: [] }),
     cost: {
       totalAmount: {
         amount: totalAmount,
@@ -69,42 +90,77 @@ function createOrUpdateCartItem(
         handle: product.handle,
         title: product.title,
         featuredImage: product.featuredImage
-      }
+      },
+      quantityAvailable: existingItem?.merchandise.quantityAvailable ?? variant.quantityAvailable
     }
   };
 }
 
-function updateCartTotals(lines: CartItem[]): Pick<Cart, 'totalQuantity' | 'cost'> {
+// Tax is estimated from what the server last charged: each line keeps its own taxes and
+// discounts, scaled with its quantity, and a line the server hasn't priced yet is taxed at the
+// cart's average rate.
+function updateCartTotals(
+  lines: CartItem[],
+  fallbackCurrencyCode: string,
+  previousCart: Cart
+): Pick<Cart, 'totalQuantity' | 'cost'> {
   const totalQuantity = lines.reduce((sum, item) => sum + item.quantity, 0);
-  const totalAmount = lines.reduce((sum, item) => sum + Number(item.cost.totalAmount.amount), 0);
-  const currencyCode = lines[0]?.cost.totalAmount.currencyCode ?? 'USD';
+  const subtotalAmount = lines.reduce((sum, item) => sum + Number(item.cost.totalAmount.amount), 0);
+  const currencyCode = lines[0]?.cost.totalAmount.currencyCode ?? fallbackCurrencyCode;
+  const previousSubtotal = Number(previousCart.cost.subtotalAmount.amount);
+  const averageTaxRate = previousSubtotal
+    ? Number(previousCart.cost.totalTaxAmount.amount) / previousSubtotal
+    : 0;
+  const totalTaxAmount = lines.reduce(
+    (sum, item) =>
+      sum +
+      (item.taxLines
+        ? item.taxLines.reduce((lineSum, taxLine) => lineSum + Number(taxLine.amount.amount), 0)
+        : Number(item.cost.totalAmount.amount) * averageTaxRate),
+    0
+  );
+  const discountAmount = lines.reduce(
+    (sum, item) =>
+      sum +
+      item.discountAllocations.reduce(
+        (lineSum, allocation) => lineSum + Number(allocation.discountedAmount.amount),
+        0
+      ),
+    0
+  );
+  const totalAmount =
+    subtotalAmount - discountAmount + (previousCart.taxesIncluded ? 0 : totalTaxAmount);
 
   return {
     totalQuantity,
     cost: {
-      subtotalAmount: { amount: totalAmount.toString(), currencyCode },
+      subtotalAmount: { amount: subtotalAmount.toString(), currencyCode },
       totalAmount: { amount: totalAmount.toString(), currencyCode },
-      totalTaxAmount: { amount: '0', currencyCode }
+      totalTaxAmount: { amount: totalTaxAmount.toString(), currencyCode }
     }
   };
 }
 
-function createEmptyCart(): Cart {
+function createEmptyCart(currencyCode: string): Cart {
   return {
     id: undefined,
     checkoutUrl: '',
     totalQuantity: 0,
     lines: [],
+    buyerIdentity: {},
+    deliveryOptions: [],
+    discountCodes: [],
+    discountAllocations: [],
     cost: {
-      subtotalAmount: { amount: '0', currencyCode: 'USD' },
-      totalAmount: { amount: '0', currencyCode: 'USD' },
-      totalTaxAmount: { amount: '0', currencyCode: 'USD' }
+      subtotalAmount: { amount: '0', currencyCode },
+      totalAmount: { amount: '0', currencyCode },
+      totalTaxAmount: { amount: '0', currencyCode }
     }
   };
 }
 
-function cartReducer(state: Cart | undefined, action: CartAction): Cart {
-  const currentCart = state || createEmptyCart();
+function cartReducer(state: Cart | undefined, action: CartAction, currencyCode: string): Cart {
+  const currentCart = state || createEmptyCart(currencyCode);
 
   switch (action.type) {
     case 'UPDATE_ITEM': {
@@ -122,12 +178,17 @@ function cartReducer(state: Cart | undefined, action: CartAction): Cart {
           totalQuantity: 0,
           cost: {
             ...currentCart.cost,
-            totalAmount: { ...currentCart.cost.totalAmount, amount: '0' }
+            totalAmount: { ...currentCart.cost.totalAmount, amount: '0' },
+            totalTaxAmount: { ...currentCart.cost.totalTaxAmount, amount: '0' }
           }
         };
       }
 
-      return { ...currentCart, ...updateCartTotals(updatedLines), lines: updatedLines };
+      return {
+        ...currentCart,
+        ...updateCartTotals(updatedLines, currencyCode, currentCart),
+        lines: updatedLines
+      };
     }
     case 'ADD_ITEM': {
       const { variant, product } = action.payload;
@@ -138,7 +199,11 @@ function cartReducer(state: Cart | undefined, action: CartAction): Cart {
         ? currentCart.lines.map((item) => (item.merchandise.id === variant.id ? updatedItem : item))
         : [...currentCart.lines, updatedItem];
 
-      return { ...currentCart, ...updateCartTotals(updatedLines), lines: updatedLines };
+      return {
+        ...currentCart,
+        ...updateCartTotals(updatedLines, currencyCode, currentCart),
+        lines: updatedLines
+      };
     }
     default:
       return currentCart;
@@ -147,13 +212,19 @@ function cartReducer(state: Cart | undefined, action: CartAction): Cart {
 
 export function CartProvider({
   children,
-  cartPromise
+  cartPromise,
+  currencyCode = 'USD'
 }: {
   children: React.ReactNode;
   cartPromise: Promise<Cart | undefined>;
+  // The shopper's currency, for a cart that doesn't exist yet.
+  currencyCode?: string;
 }) {
   const initialCart = use(cartPromise);
-  const [optimisticCart, updateOptimisticCart] = useOptimistic(initialCart, cartReducer);
+  const [optimisticCart, updateOptimisticCart] = useOptimistic(
+    initialCart,
+    (state: Cart | undefined, action: CartAction) => cartReducer(state, action, currencyCode)
+  );
 
   const updateCartItem = (merchandiseId: string, updateType: UpdateType) => {
     updateOptimisticCart({ type: 'UPDATE_ITEM', payload: { merchandiseId, updateType } });
@@ -2,6 +2,7 @@
 
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { removeItem } from 'components/cart/actions';
+import { useTranslations } from 'components/locale-context';
 import type { CartItem } from 'lib/shopify/types';
 import { useFormState } from 'react-dom';
 
@@ -13,6 +14,7 @@ export function DeleteItemButton({
   optimisticUpdate: any;
 }) {
   const [message, formAction] = useFormState(removeItem, null);
+  const t = useTranslations();
   const merchandiseId = item.merchandise.id;
   const actionWithVariant = formAction.bind(null, merchandiseId);
 
@@ -25,7 +27,7 @@ export function DeleteItemButton({
     >
       <button
         type="submit"
-        aria-label="Remove cart item"
+        aria-label={t('cart.removeItem')}
         className="flex h-[24px] w-[24px] items-center justify-center rounded-full bg-neutral-500"
       >
         <XMarkIcon className="mx-[1px] h-4 w-4 text-white dark:text-black" />
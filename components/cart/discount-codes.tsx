@@ -0,0 +1,133 @@
+'use client';
+
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { applyDiscountCode, removeDiscountCode } from 'components/cart/actions';
+import LoadingDots from 'components/loading-dots';
+import { useTranslations } from 'components/locale-context';
+import Price from 'components/price';
+import type { Cart } from 'lib/shopify/types';
+import { useEffect, useRef } from 'react';
+import { useFormState, useFormStatus } from 'react-dom';
+import { toast } from 'sonner';
+
+function ApplyButton() {
+  const { pending } = useFormStatus();
+  const t = useTranslations();
+
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-full border border-neutral-200 px-3 py-1 text-xs text-black hover:opacity-80 dark:border-neutral-700 dark:text-white"
+    >
+      {pending ? <LoadingDots className="bg-black dark:bg-white" /> : t('cart.applyDiscount')}
+    </button>
+  );
+}
+
+function RemoveCodeButton({ code }: { code: string }) {
+  const [message, formAction] = useFormState(removeDiscountCode, null);
+  const t = useTranslations();
+  const actionWithCode = formAction.bind(null, code);
+
+  return (
+    <form action={actionWithCode}>
+      <button
+        type="submit"
+        aria-label={t('cart.removeDiscount', { code })}
+        className="flex h-4 w-4 items-center justify-center rounded-full bg-neutral-500"
+      >
+        <XMarkIcon className="h-3 w-3 text-white dark:text-black" />
+      </button>
+      <p aria-live="polite" className="sr-only" role="status">
+        {message}
+      </p>
+    </form>
+  );
+}
+
+// The discounts on the cart, the codes the shopper entered and a field to enter another.
+export function DiscountCodes({ cart }: { cart: Cart }) {
+  const t = useTranslations();
+  const [message, formAction] = useFormState(applyDiscountCode, null);
+
+  return (
+    <div className="mb-3 border-b border-neutral-200 pb-1 dark:border-neutral-700">
+      {cart.discountAllocations.length ? (
+        <ul aria-label={t('cart.discounts')}>
+          {cart.discountAllocations.map((allocation) => (
+            <li
+              key={allocation.code || allocation.title}
+              className="flex items-center justify-between"
+            >
+              <p>
+                {allocation.code ? `${allocation.title} (${allocation.code})` : allocation.title}
+              </p>
+              <Price
+                className="text-right text-base text-black dark:text-white"
+                amount={`-${allocation.discountedAmount.amount}`}
+                currencyCode={allocation.discountedAmount.currencyCode}
+              />
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {cart.discountCodes.length ? (
+        <ul className="mt-1 flex flex-wrap gap-2">
+          {cart.discountCodes.map(({ code, applicable }) => (
+            <li
+              key={code}
+              className="flex items-center gap-1 rounded-full border border-neutral-200 px-2 py-0.5 text-xs dark:border-neutral-700"
+            >
+              {applicable ? code : t('cart.discountNotApplicable', { code })}
+              <RemoveCodeButton code={code} />
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <form action={formAction} className="mt-2 flex items-center gap-2">
+        <input
+          name="discountCode"
+          aria-label={t('cart.discountCode')}
+          placeholder={t('cart.discountCode')}
+          autoComplete="off"
+          className="w-full rounded-lg border bg-white px-3 py-1 text-sm text-black placeholder:text-neutral-500 dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400"
+        />
+        <ApplyButton />
+      </form>
+      <p aria-live="polite" className="text-xs text-red-600" role="status">
+        {message}
+      </p>
+    </div>
+  );
+}
+
+// Applies the code from a `?discount=CODE` link once the cart exists, then drops it from the URL
+// so a reload doesn't apply it again.
+export function useDiscountLink(cartId: string | undefined) {
+  const t = useTranslations();
+  const applied = useRef(false);
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const code = url.searchParams.get('discount');
+
+    if (!cartId || !code || applied.current) {
+      return;
+    }
+
+    applied.current = true;
+    url.searchParams.delete('discount');
+    window.history.replaceState(window.history.state, '', url);
+
+    const formData = new FormData();
+    formData.set('discountCode', code);
+    applyDiscountCode(null, formData).then((error) => {
+      if (error) {
+        toast.error(error);
+      } else {
+        toast.success(t('cart.discountApplied', { code: code.toUpperCase() }));
+      }
+    });
+  }, [cartId, t]);
+}
@@ -3,18 +3,25 @@
 import { MinusIcon, PlusIcon } from '@heroicons/react/24/outline';
 import clsx from 'clsx';
 import { updateItemQuantity } from 'components/cart/actions';
+import { useTranslations } from 'components/locale-context';
+import { MAX_LINE_QUANTITY } from 'lib/constants';
 import type { CartItem } from 'lib/shopify/types';
 import { useFormState } from 'react-dom';
 
-function SubmitButton({ type }: { type: 'plus' | 'minus' }) {
+function SubmitButton({ type, disabled }: { type: 'plus' | 'minus'; disabled: boolean }) {
+  const t = useTranslations();
+
   return (
     <button
       type="submit"
-      aria-label={type === 'plus' ? 'Increase item quantity' : 'Reduce item quantity'}
+      aria-label={type === 'plus' ? t('cart.increaseQuantity') : t('cart.reduceQuantity')}
+      aria-disabled={disabled}
+      disabled={disabled}
       className={clsx(
         'ease flex h-full min-w-[36px] max-w-[36px] flex-none items-center justify-center rounded-full p-2 transition-all duration-200 hover:border-neutral-800 hover:opacity-80',
         {
-          'ml-auto': type === 'minus'
+          'ml-auto': type === 'minus',
+          'cursor-not-allowed opacity-40 hover:opacity-40': disabled
         }
       )}
     >
@@ -42,6 +49,12 @@ export function EditItemQuantityButton({
     quantity: type === 'plus' ? item.quantity + 1 : item.quantity - 1
   };
   const actionWithVariant = formAction.bind(null, payload);
+  // No more can be added than are left, counting what the cart's checkout holds, nor more than a
+  // line can hold.
+  const { quantityAvailable } = item.merchandise;
+  const atLimit =
+    type === 'plus' &&
+    payload.quantity > Math.min(quantityAvailable ?? MAX_LINE_QUANTITY, MAX_LINE_QUANTITY);
 
   return (
     <form
@@ -50,7 +63,7 @@ export function EditItemQuantityButton({
         await actionWithVariant();
       }}
     >
-      <SubmitButton type={type} />
+      <SubmitButton type={type} disabled={atLimit} />
       <p aria-live="polite" className="sr-only" role="status">
         {message}
       </p>
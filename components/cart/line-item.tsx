@@ -0,0 +1,70 @@
+import Price from 'components/price';
+import { DEFAULT_OPTION } from 'lib/constants';
+import { CartItem, Money } from 'lib/shopify/types';
+import { createUrl } from 'lib/utils';
+import Image from 'next/image';
+import Link from 'next/link';
+
+// The product page with the line's options selected, before any locale prefix.
+export function getMerchandisePath(merchandise: CartItem['merchandise']): string {
+  const searchParams = new URLSearchParams();
+
+  merchandise.selectedOptions.forEach(({ name, value }) => {
+    if (value !== DEFAULT_OPTION) {
+      searchParams.set(name.toLowerCase(), value);
+    }
+  });
+
+  return createUrl(`/product/${merchandise.product.handle}`, searchParams);
+}
+
+// A line's picture, title and price, laid out as in the cart. `actions` sits on the corner of the
+// picture and `children` under the price.
+export function LineItem({
+  merchandise,
+  amount,
+  href,
+  onClick,
+  actions,
+  children
+}: {
+  merchandise: CartItem['merchandise'];
+  amount: Money;
+  href: string;
+  onClick?: () => void;
+  actions?: React.ReactNode;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="relative flex w-full flex-row justify-between px-1 py-4">
+      {actions ? <div className="absolute z-40 -ml-1 -mt-2">{actions}</div> : null}
+      <div className="flex flex-row">
+        <div className="relative h-16 w-16 overflow-hidden rounded-md border border-neutral-300 bg-neutral-300 dark:border-neutral-700 dark:bg-neutral-900 dark:hover:bg-neutral-800">
+          <Image
+            className="h-full w-full object-cover"
+            width={64}
+            height={64}
+            alt={merchandise.product.featuredImage.altText || merchandise.product.title}
+            src={merchandise.product.featuredImage.url}
+          />
+        </div>
+        <Link href={href} onClick={onClick} className="z-30 ml-2 flex flex-row space-x-4">
+          <div className="flex flex-1 flex-col text-base">
+            <span className="leading-tight">{merchandise.product.title}</span>
+            {merchandise.title !== DEFAULT_OPTION ? (
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">{merchandise.title}</p>
+            ) : null}
+          </div>
+        </Link>
+      </div>
+      <div className="flex h-16 flex-col justify-between">
+        <Price
+          className="flex justify-end space-y-2 text-right text-sm"
+          amount={amount.amount}
+          currencyCode={amount.currencyCode}
+        />
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { estimateShipping } from 'components/cart/actions';
+import LoadingDots from 'components/loading-dots';
+import { useTranslations } from 'components/locale-context';
+import Price from 'components/price';
+import type { Cart } from 'lib/shopify/types';
+import { useFormState, useFormStatus } from 'react-dom';
+
+function EstimateButton() {
+  const { pending } = useFormStatus();
+  const t = useTranslations();
+
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-full border border-neutral-200 px-3 py-1 text-xs text-black hover:opacity-80 dark:border-neutral-700 dark:text-white"
+    >
+      {pending ? <LoadingDots className="bg-black dark:bg-white" /> : t('cart.estimateShipping')}
+    </button>
+  );
+}
+
+// The cheapest way to have the cart delivered, with a postal code field to refine the estimate.
+export function ShippingEstimate({ cart }: { cart: Cart }) {
+  const t = useTranslations();
+  const [message, formAction] = useFormState(estimateShipping, null);
+  const delivery = cart.deliveryOptions.find(
+    (option) => option.deliveryMethodType === 'SHIPPING' || option.deliveryMethodType === 'LOCAL'
+  );
+  const pickup = cart.deliveryOptions.find((option) => option.deliveryMethodType === 'PICK_UP');
+
+  return (
+    <div className="mb-3 border-b border-neutral-200 pb-1 pt-1 dark:border-neutral-700">
+      <div className="flex items-center justify-between">
+        <p>{t('cart.shipping')}</p>
+        {!delivery ? (
+          <p className="text-right">{t('cart.shippingAtCheckout')}</p>
+        ) : Number(delivery.estimatedCost.amount) === 0 ? (
+          <p className="text-right text-base text-black dark:text-white">
+            {t('cart.shippingFree')}
+          </p>
+        ) : (
+          <Price
+            className="text-right text-base text-black dark:text-white"
+            amount={delivery.estimatedCost.amount}
+            currencyCode={delivery.estimatedCost.currencyCode}
+          />
+        )}
+      </div>
+      {delivery ? (
+        <p className="text-xs">
+          {[delivery.title, delivery.description].filter(Boolean).join(' · ')}
+        </p>
+      ) : null}
+      {pickup ? (
+        <p className="text-xs">{t('cart.pickupAvailable', { location: pickup.title })}</p>
+      ) : null}
+      <form action={formAction} className="mt-2 flex items-center gap-2">
+        <input
+          name="postalCode"
+          aria-label={t('cart.postalCode')}
+          placeholder={t('cart.postalCode')}
+          defaultValue={cart.buyerIdentity.postalCode}
+          autoComplete="postal-code"
+          className="w-full rounded-lg border bg-white px-3 py-1 text-sm text-black placeholder:text-neutral-500 dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400"
+        />
+        <EstimateButton />
+      </form>
+      <p aria-live="polite" className="text-xs text-red-600" role="status">
+        {message}
+      </p>
+    </div>
+  );
+}
+
+// How far the cart is from free shipping. Follows the optimistic subtotal, so the bar moves as
+// soon as quantities change.
+export function FreeShippingProgress({ cart }: { cart: Cart }) {
+  const t = useTranslations();
+
+  if (!cart.freeShippingThreshold) {
+    return null;
+  }
+
+  const threshold = Number(cart.freeShippingThreshold.amount);
+  const subtotal = Number(cart.cost.subtotalAmount.amount);
+  const remaining = threshold - subtotal;
+  const [before, after] = t('cart.freeShippingRemaining').split('{amount}');
+
+  return (
+    <div className="mb-3 text-sm">
+      {remaining > 0 ? (
+        <div>
+          {before}
+          <Price
+            className="inline font-medium text-black dark:text-white"
+            currencyCodeClassName="hidden"
+            amount={remaining.toFixed(2)}
+            currencyCode={cart.freeShippingThreshold.currencyCode}
+          />
+          {after}
+        </div>
+      ) : (
+        <p>{t('cart.freeShippingReached')}</p>
+      )}
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={threshold}
+        aria-valuenow={Math.min(subtotal, threshold)}
+        className="mt-2 h-2 w-full overflow-hidden rounded-full bg-neutral-200 dark:bg-neutral-800"
+      >
+        <div
+          className="h-full rounded-full bg-blue-600 transition-all"
+          style={{ width: `${Math.min(100, (subtotal / threshold) * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+'use server';
+
+import { getCheckoutTotals, getNextCheckoutStep, PAYMENT_METHODS } from 'lib/checkout';
+import { TAGS } from 'lib/constants';
+import { localizePath, Translator } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { getStockErrorMessage } from 'lib/inventory';
+import { getOrderPath } from 'lib/orders';
+import { getMockChallenge, paymentGateway } from 'lib/payments';
+import { completeMockChallenge } from 'lib/payments/mock';
+import { completeCardCheckout } from 'lib/payments/orders';
+import { Payment, PaymentCard } from 'lib/payments/types';
+import { getShippingCountries } from 'lib/shipping';
+import {
+  completeCheckout,
+  getCart,
+  reserveInventory,
+  updateBuyerIdentity,
+  updateCheckout
+} from 'lib/shopify';
+import { getErrorMessage, getUsedUpDiscountCode } from 'lib/shopify/errors';
+import { Cart, MailingAddress, Order, PaymentMethod } from 'lib/shopify/types';
+import { getSiteUrl } from 'lib/utils';
+import { revalidateTag } from 'next/cache';
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+
+// Messages for the fields that failed validation, by field name. `form` is for errors that
+// aren't about one field.
+export type CheckoutErrors = Record<string, string>;
+
+const readField = (formData: FormData, name: string) => String(formData.get(name) || '').trim();
+
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+// Reads the address fields named `<prefix>.<field>`.
+async function parseAddress(
+  formData: FormData,
+  prefix: string,
+  t: Translator
+): Promise<{ address?: MailingAddress; errors: CheckoutErrors }> {
+  const field = (name: string) => readField(formData, `${prefix}.${name}`);
+  const address: MailingAddress = {
+    firstName: field('firstName'),
+    lastName: field('lastName'),
+    address1: field('address1'),
+    address2: field('address2') || undefined,
+    city: field('city'),
+    provinceCode: field('provinceCode').toUpperCase() || undefined,
+    countryCode: field('countryCode').toUpperCase(),
+    zip: field('zip').toUpperCase(),
+    phone: field('phone') || undefined
+  };
+  const errors: CheckoutErrors = {};
+
+  for (const name of ['firstName', 'lastName', 'address1', 'city'] as const) {
+    if (!address[name]) {
+      errors[`${prefix}.${name}`] = t('checkout.errors.required');
+    }
+  }
+
+  if (!(await getShippingCountries()).includes(address.countryCode)) {
+    errors[`${prefix}.countryCode`] = t('checkout.errors.country');
+  }
+
+  if (!/^[A-Z0-9][A-Z0-9 -]{1,9}$/.test(address.zip)) {
+    errors[`${prefix}.zip`] = t('checkout.errors.zip');
+  }
+
+  if (address.provinceCode && !/^[A-Z0-9]{1,3}$/.test(address.provinceCode)) {
+    errors[`${prefix}.provinceCode`] = t('checkout.errors.province');
+  }
+
+  if (address.phone && !/^\+?[\d\s().-]{6,20}$/.test(address.phone)) {
+    errors[`${prefix}.phone`] = t('checkout.errors.phone');
+  }
+
+  return Object.keys(errors).length ? { errors } : { address, errors };
+}
+
+// Reads the card fields. They go to the gateway as they are and are never stored; whether the
+// number is a real card's is for the gateway to say.
+function parseCard(
+  formData: FormData,
+  t: Translator
+): { card?: PaymentCard; errors: CheckoutErrors } {
+  const [month = NaN, year = NaN] = readField(formData, 'card.expiry')
+    .split('/')
+    .map((part) => Number(part.trim()));
+  const card: PaymentCard = {
+    number: readField(formData, 'card.number').replace(/[\s-]/g, ''),
+    expiryMonth: month,
+    expiryYear: year < 100 ? 2000 + year : year,
+    cvc: readField(formData, 'card.cvc'),
+    name: readField(formData, 'card.name') || undefined
+  };
+  const errors: CheckoutErrors = {};
+
+  if (!/^\d{12,19}$/.test(card.number)) {
+    errors['card.number'] = t('checkout.errors.cardNumber');
+  }
+
+  if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(year)) {
+    errors['card.expiry'] = t('checkout.errors.cardExpiry');
+  }
+
+  if (!/^\d{3,4}$/.test(card.cvc)) {
+    errors['card.cvc'] = t('checkout.errors.cardCvc');
+  }
+
+  return Object.keys(errors).length ? { errors } : { card, errors };
+}
+
+// Where the gateway sends the shopper back to after a challenge. It has to be a full URL.
+function getPaymentReturnUrl(): string {
+  return `${getSiteUrl()}${localizePath('/checkout/confirm', getLocale())}`;
+}
+
+async function getCheckoutCart(): Promise<Cart | undefined> {
+  return getCart(cookies().get('cartId')?.value);
+}
+
+// Holds the cart's items for the rest of checkout, then sends the shopper on to the first step
+// they haven't filled in, which is the review once they have filled in every step. Items that ran
+// out in the meantime keep the shopper where they are.
+async function continueCheckout(cart: Cart, t: Translator): Promise<CheckoutErrors> {
+  try {
+    await reserveInventory(cart.id!);
+  } catch (e) {
+    console.error(e);
+    return { form: getStockErrorMessage(e, t('checkout.errors.saveStep'), t) };
+  }
+
+  redirect(localizePath(`/checkout/${getNextCheckoutStep(cart)}`, getLocale()));
+}
+
+export async function saveContact(
+  prevState: any,
+  formData: FormData
+): Promise<CheckoutErrors | undefined> {
+  const t = getTranslations();
+  const email = readField(formData, 'email').toLowerCase();
+  let cart = await getCheckoutCart();
+
+  if (!cart?.id) {
+    return { form: t('cart.errors.missingCart') };
+  }
+
+  if (!isEmail(email)) {
+    return { email: t('checkout.errors.email') };
+  }
+
+  try {
+    cart = await updateBuyerIdentity(cart.id, { email });
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return { form: getErrorMessage(e, t('checkout.errors.saveStep'), t) };
+  }
+
+  return continueCheckout(cart, t);
+}
+
+export async function saveShippingAddress(
+  prevState: any,
+  formData: FormData
+): Promise<CheckoutErrors | undefined> {
+  const t = getTranslations();
+  let cart = await getCheckoutCart();
+
+  if (!cart?.id) {
+    return { form: t('cart.errors.missingCart') };
+  }
+
+  const { address, errors } = await parseAddress(formData, 'shipping', t);
+
+  if (!address) {
+    return errors;
+  }
+
+  try {
+    // Taxes and delivery options go by the buyer identity, so it follows the address. An empty
+    // province clears the one an earlier address set.
+    await updateBuyerIdentity(cart.id, {
+      countryCode: address.countryCode,
+      provinceCode: address.provinceCode || '',
+      postalCode: address.zip
+    });
+    cart = await updateCheckout(cart.id, { shippingAddress: address });
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return { form: getErrorMessage(e, t('checkout.errors.saveStep'), t) };
+  }
+
+  return continueCheckout(cart, t);
+}
+
+export async function saveDeliveryOption(
+  prevState: any,
+  formData: FormData
+): Promise<CheckoutErrors | undefined> {
+  const t = getTranslations();
+  const handle = readField(formData, 'deliveryOption');
+  let cart = await getCheckoutCart();
+
+  if (!cart?.id) {
+    return { form: t('cart.errors.missingCart') };
+  }
+
+  if (!cart.deliveryOptions.some((option) => option.handle === handle)) {
+    return { deliveryOption: t('checkout.errors.deliveryOption') };
+  }
+
+  try {
+    cart = await updateCheckout(cart.id, { deliveryOptionHandle: handle });
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return { form: getErrorMessage(e, t('checkout.errors.saveStep'), t) };
+  }
+
+  return continueCheckout(cart, t);
+}
+
+export async function savePayment(
+  prevState: any,
+  formData: FormData
+): Promise<CheckoutErrors | undefined> {
+  const t = getTranslations();
+  const paymentMethod = readField(formData, 'paymentMethod') as PaymentMethod;
+  let cart = await getCheckoutCart();
+
+  if (!cart?.id) {
+    return { form: t('cart.errors.missingCart') };
+  }
+
+  if (!PAYMENT_METHODS.includes(paymentMethod)) {
+    return { paymentMethod: t('checkout.errors.paymentMethod') };
+  }
+
+  let billingAddress: MailingAddress | undefined;
+
+  if (!formData.get('billingSameAsShipping')) {
+    const { address, errors } = await parseAddress(formData, 'billing', t);
+
+    if (!address) {
+      return errors;
+    }
+
+    billingAddress = address;
+  }
+
+  try {
+    cart = await updateCheckout(cart.id, { billingAddress, paymentMethod });
+    revalidateTag(TAGS.cart);
+  } catch (e) {
+    console.error(e);
+    return { form: getErrorMessage(e, t('checkout.errors.saveStep'), t) };
+  }
+
+  return continueCheckout(cart, t);
+}
+
+// Cards are authorized before the order is placed, so a declined card leaves the cart as it was
+// for the shopper to try another. A card that has to be challenged first is placed once the
+// shopper comes back to `/checkout/confirm`.
+export async function placeOrder(
+  prevState: any,
+  formData: FormData
+): Promise<CheckoutErrors | undefined> {
+  const t = getTranslations();
+  const cart = await getCheckoutCart();
+  let order: Order | undefined;
+  let payment: Payment | undefined;
+
+  if (!cart?.id) {
+    return { form: t('cart.errors.missingCart') };
+  }
+
+  try {
+    if (cart.checkout?.paymentMethod === 'card') {
+      const { card, errors } = parseCard(formData, t);
+
+      if (!card) {
+        return errors;
+      }
+
+      payment = await paymentGateway.authorize({
+        amount: getCheckoutTotals(cart).totalAmount,
+        card,
+        reference: cart.id,
+        returnUrl: getPaymentReturnUrl()
+      });
+
+      if (payment.status === 'authorized') {
+        order = await completeCardCheckout(cart.id, payment);
+      }
+    } else {
+      order = await completeCheckout(cart.id);
+    }
+  } catch (e) {
+    console.error(e);
+    const code = getUsedUpDiscountCode(e);
+
+    return {
+      form: code
+        ? t('checkout.errors.discountUsedUp', { code })
+        : getStockErrorMessage(e, t('checkout.errors.placeOrder'), t)
+    };
+  }
+
+  if (payment?.status === 'requiresAction' && payment.actionUrl) {
+    redirect(localizePath(payment.actionUrl, getLocale()));
+  }
+
+  if (!order) {
+    return { form: t('checkout.errors.paymentDeclined') };
+  }
+
+  // The cart is gone, so the next page view starts a new one.
+  cookies().delete('cartId');
+  revalidateTag(TAGS.cart);
+  redirect(localizePath(await getOrderPath(order.id), getLocale()));
+}
+
+// Answers the mock gateway's stand-in for a 3-D Secure challenge, for the shopper whose cart the
+// payment is for.
+export async function answerMockChallenge(paymentId: string, passed: boolean): Promise<void> {
+  if (!(await getMockChallenge(paymentId, cookies().get('cartId')?.value))) {
+    notFound();
+  }
+
+  redirect(await completeMockChallenge(paymentId, passed));
+}
@@ -0,0 +1,410 @@
+'use client';
+
+import clsx from 'clsx';
+import {
+  CheckoutErrors,
+  placeOrder,
+  saveContact,
+  saveDeliveryOption,
+  savePayment,
+  saveShippingAddress
+} from 'components/checkout/actions';
+import LoadingDots from 'components/loading-dots';
+import { useLocale, useTranslations } from 'components/locale-context';
+import Price from 'components/price';
+import type { CartDeliveryOption, MailingAddress, PaymentMethod } from 'lib/shopify/types';
+import { useMemo, useState } from 'react';
+import { useFormState, useFormStatus } from 'react-dom';
+
+const inputClassName =
+  'w-full rounded-lg border bg-white px-4 py-2 text-sm text-black placeholder:text-neutral-500 dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400';
+
+function SubmitButton({ label }: { label: string }) {
+  const { pending } = useFormStatus();
+
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="mt-6 block w-full rounded-full bg-blue-600 p-3 text-center text-sm font-medium text-white opacity-90 hover:opacity-100"
+    >
+      {pending ? <LoadingDots className="bg-white" /> : label}
+    </button>
+  );
+}
+
+function FieldError({ errors, name }: { errors: CheckoutErrors | undefined; name: string }) {
+  return errors?.[name] ? (
+    <p id={`${name}-error`} className="mt-1 text-xs text-red-600">
+      {errors[name]}
+    </p>
+  ) : null;
+}
+
+function FormError({ errors }: { errors: CheckoutErrors | undefined }) {
+  return (
+    <p aria-live="polite" className="mt-2 text-sm text-red-600" role="status">
+      {errors?.form}
+    </p>
+  );
+}
+
+function Field({
+  errors,
+  label,
+  name,
+  className,
+  ...props
+}: {
+  errors: CheckoutErrors | undefined;
+  label: string;
+  name: string;
+} & React.ComponentProps<'input'>) {
+  return (
+    <label className={clsx('block text-sm', className)}>
+      <span className="mb-1 block text-neutral-500 dark:text-neutral-400">{label}</span>
+      <input
+        name={name}
+        aria-invalid={!!errors?.[name]}
+        aria-describedby={errors?.[name] ? `${name}-error` : undefined}
+        className={inputClassName}
+        {...props}
+      />
+      <FieldError errors={errors} name={name} />
+    </label>
+  );
+}
+
+// The fields of an address, named `<prefix>.<field>` for `parseAddress`.
+function AddressFields({
+  address,
+  countries,
+  defaultCountry,
+  errors,
+  prefix
+}: {
+  address?: MailingAddress;
+  countries: string[];
+  defaultCountry?: string;
+  errors: CheckoutErrors | undefined;
+  prefix: string;
+}) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const countryOptions = useMemo(() => {
+    const names = new Intl.DisplayNames(locale, { type: 'region' });
+
+    return countries
+      .map((code) => ({ code, name: names.of(code) || code }))
+      .sort((a, b) => a.name.localeCompare(b.name, locale));
+  }, [countries, locale]);
+  const section = prefix === 'billing' ? 'billing' : 'shipping';
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <Field
+        errors={errors}
+        label={t('checkout.firstName')}
+        name={`${prefix}.firstName`}
+        defaultValue={address?.firstName}
+        autoComplete={`${section} given-name`}
+      />
+      <Field
+        errors={errors}
+        label={t('checkout.lastName')}
+        name={`${prefix}.lastName`}
+        defaultValue={address?.lastName}
+        autoComplete={`${section} family-name`}
+      />
+      <Field
+        errors={errors}
+        className="col-span-2"
+        label={t('checkout.address1')}
+        name={`${prefix}.address1`}
+        defaultValue={address?.address1}
+        autoComplete={`${section} address-line1`}
+      />
+      <Field
+        errors={errors}
+        className="col-span-2"
+        label={t('checkout.address2')}
+        name={`${prefix}.address2`}
+        defaultValue={address?.address2}
+        autoComplete={`${section} address-line2`}
+      />
+      <Field
+        errors={errors}
+        label={t('checkout.city')}
+        name={`${prefix}.city`}
+        defaultValue={address?.city}
+        autoComplete={`${section} address-level2`}
+      />
+      <Field
+        errors={errors}
+        label={t('checkout.province')}
+        name={`${prefix}.provinceCode`}
+        defaultValue={address?.provinceCode}
+        autoComplete={`${section} address-level1`}
+      />
+      <label className="block text-sm">
+        <span className="mb-1 block text-neutral-500 dark:text-neutral-400">
+          {t('checkout.country')}
+        </span>
+        <select
+          name={`${prefix}.countryCode`}
+          defaultValue={address?.countryCode || defaultCountry}
+          autoComplete={`${section} country`}
+          className={inputClassName}
+        >
+          {countryOptions.map(({ code, name }) => (
+            <option key={code} value={code}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <FieldError errors={errors} name={`${prefix}.countryCode`} />
+      </label>
+      <Field
+        errors={errors}
+        label={t('checkout.zip')}
+        name={`${prefix}.zip`}
+        defaultValue={address?.zip}
+        autoComplete={`${section} postal-code`}
+      />
+      <Field
+        errors={errors}
+        className="col-span-2"
+        label={t('checkout.phone')}
+        name={`${prefix}.phone`}
+        type="tel"
+        defaultValue={address?.phone}
+        autoComplete={`${section} tel`}
+      />
+    </div>
+  );
+}
+
+export function ContactForm({ email }: { email?: string }) {
+  const t = useTranslations();
+  const [errors, formAction] = useFormState(saveContact, undefined);
+
+  return (
+    <form action={formAction} noValidate>
+      <Field
+        errors={errors}
+        label={t('checkout.email')}
+        name="email"
+        type="email"
+        defaultValue={email}
+        autoComplete="email"
+      />
+      <SubmitButton label={t('checkout.continue')} />
+      <FormError errors={errors} />
+    </form>
+  );
+}
+
+export function ShippingAddressForm({
+  address,
+  countries,
+  defaultCountry
+}: {
+  address?: MailingAddress;
+  countries: string[];
+  defaultCountry?: string;
+}) {
+  const t = useTranslations();
+  const [errors, formAction] = useFormState(saveShippingAddress, undefined);
+
+  return (
+    <form action={formAction} noValidate>
+      <AddressFields
+        address={address}
+        countries={countries}
+        defaultCountry={defaultCountry}
+        errors={errors}
+        prefix="shipping"
+      />
+      <SubmitButton label={t('checkout.continue')} />
+      <FormError errors={errors} />
+    </form>
+  );
+}
+
+export function DeliveryOptionForm({
+  options,
+  selected
+}: {
+  options: CartDeliveryOption[];
+  selected?: string;
+}) {
+  const t = useTranslations();
+  const [errors, formAction] = useFormState(saveDeliveryOption, undefined);
+
+  if (!options.length) {
+    return <p className="text-sm">{t('checkout.noDeliveryOptions')}</p>;
+  }
+
+  return (
+    <form action={formAction}>
+      <fieldset>
+        <legend className="sr-only">{t('checkout.steps.delivery')}</legend>
+        {options.map((option, index) => (
+          <label
+            key={option.handle}
+            className="flex cursor-pointer items-center gap-3 border-b border-neutral-200 py-3 text-sm dark:border-neutral-700"
+          >
+            <input
+              type="radio"
+              name="deliveryOption"
+              value={option.handle}
+              defaultChecked={selected ? option.handle === selected : index === 0}
+            />
+            <span className="flex-1">
+              <span className="block">{option.title}</span>
+              {option.description ? (
+                <span className="block text-xs text-neutral-500 dark:text-neutral-400">
+                  {option.description}
+                </span>
+              ) : null}
+            </span>
+            <Price
+              amount={option.estimatedCost.amount}
+              currencyCode={option.estimatedCost.currencyCode}
+            />
+          </label>
+        ))}
+      </fieldset>
+      <FieldError errors={errors} name="deliveryOption" />
+      <SubmitButton label={t('checkout.continue')} />
+      <FormError errors={errors} />
+    </form>
+  );
+}
+
+export function PaymentForm({
+  billingAddress,
+  countries,
+  defaultCountry,
+  paymentMethods,
+  selected
+}: {
+  billingAddress?: MailingAddress;
+  countries: string[];
+  defaultCountry?: string;
+  paymentMethods: PaymentMethod[];
+  selected?: PaymentMethod;
+}) {
+  const t = useTranslations();
+  const [errors, formAction] = useFormState(savePayment, undefined);
+  const [sameAsShipping, setSameAsShipping] = useState(!billingAddress);
+
+  return (
+    <form action={formAction} noValidate>
+      <fieldset>
+        <legend className="mb-2 text-sm font-medium">{t('checkout.paymentMethod')}</legend>
+        {paymentMethods.map((method, index) => (
+          <label
+            key={method}
+            className="flex cursor-pointer items-center gap-3 border-b border-neutral-200 py-3 text-sm dark:border-neutral-700"
+          >
+            <input
+              type="radio"
+              name="paymentMethod"
+              value={method}
+              defaultChecked={selected ? method === selected : index === 0}
+            />
+            {t(`checkout.paymentMethods.${method}`)}
+          </label>
+        ))}
+        <FieldError errors={errors} name="paymentMethod" />
+      </fieldset>
+      <label className="mt-6 flex items-center gap-3 text-sm">
+        <input
+          type="checkbox"
+          name="billingSameAsShipping"
+          checked={sameAsShipping}
+          onChange={(event) => setSameAsShipping(event.target.checked)}
+        />
+        {t('checkout.billingSameAsShipping')}
+      </label>
+      {!sameAsShipping ? (
+        <fieldset className="mt-4">
+          <legend className="mb-2 text-sm font-medium">{t('checkout.billingAddress')}</legend>
+          <AddressFields
+            address={billingAddress}
+            countries={countries}
+            defaultCountry={defaultCountry}
+            errors={errors}
+            prefix="billing"
+          />
+        </fieldset>
+      ) : null}
+      <SubmitButton label={t('checkout.continue')} />
+      <FormError errors={errors} />
+    </form>
+  );
+}
+
+// `error` is shown until the form is sent, e.g. for a payment that failed after the shopper left
+// the page to confirm it.
+export function PlaceOrderForm({
+  cardPayment,
+  error,
+  testMode
+}: {
+  cardPayment?: boolean;
+  error?: string;
+  testMode?: boolean;
+}) {
+  const t = useTranslations();
+  const [errors, formAction] = useFormState(placeOrder, error ? { form: error } : undefined);
+
+  return (
+    <form action={formAction} noValidate>
+      {cardPayment ? (
+        <fieldset className="mt-6">
+          <legend className="mb-2 text-sm font-medium">{t('checkout.card.title')}</legend>
+          {testMode ? (
+            <p className="mb-4 text-xs text-neutral-500 dark:text-neutral-400">
+              {t('checkout.card.testMode')}
+            </p>
+          ) : null}
+          <div className="grid grid-cols-2 gap-4">
+            <Field
+              errors={errors}
+              className="col-span-2"
+              label={t('checkout.card.number')}
+              name="card.number"
+              inputMode="numeric"
+              autoComplete="cc-number"
+            />
+            <Field
+              errors={errors}
+              label={t('checkout.card.expiry')}
+              name="card.expiry"
+              placeholder="MM/YY"
+              autoComplete="cc-exp"
+            />
+            <Field
+              errors={errors}
+              label={t('checkout.card.cvc')}
+              name="card.cvc"
+              inputMode="numeric"
+              autoComplete="cc-csc"
+            />
+            <Field
+              errors={errors}
+              className="col-span-2"
+              label={t('checkout.card.name')}
+              name="card.name"
+              autoComplete="cc-name"
+            />
+          </div>
+        </fieldset>
+      ) : null}
+      <SubmitButton label={t('checkout.placeOrder')} />
+      <FormError errors={errors} />
+    </form>
+  );
+}
@@ -0,0 +1,44 @@
+import { CHECKOUT_STEPS, CheckoutStep } from 'lib/checkout';
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import Link from 'next/link';
+
+// Where the shopper is in checkout. Steps up to the furthest one they can open are links, so they
+// can go back and change what they entered.
+export default function CheckoutSteps({
+  current,
+  furthest
+}: {
+  current: CheckoutStep;
+  furthest: CheckoutStep;
+}) {
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const furthestIndex = CHECKOUT_STEPS.indexOf(furthest);
+
+  return (
+    <nav aria-label={t('checkout.progress')} className="mb-8">
+      <ol className="flex flex-wrap gap-x-2 text-sm text-neutral-500 dark:text-neutral-400">
+        {CHECKOUT_STEPS.map((step, index) => (
+          <li key={step} className="flex items-center gap-2">
+            {index > 0 ? <span aria-hidden="true">›</span> : null}
+            {step === current ? (
+              <span aria-current="step" className="font-medium text-black dark:text-white">
+                {t(`checkout.steps.${step}`)}
+              </span>
+            ) : index <= furthestIndex ? (
+              <Link
+                href={localizePath(`/checkout/${step}`, locale)}
+                className="underline-offset-4 hover:underline"
+              >
+                {t(`checkout.steps.${step}`)}
+              </Link>
+            ) : (
+              <span>{t(`checkout.steps.${step}`)}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
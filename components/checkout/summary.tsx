@@ -0,0 +1,120 @@
+import { getMerchandisePath, LineItem } from 'components/cart/line-item';
+import Price from 'components/price';
+import { getCheckoutTotals, getSelectedDeliveryOption } from 'lib/checkout';
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { Cart, CartDiscountAllocation, Money } from 'lib/shopify/types';
+
+function SummaryRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-3 flex items-center justify-between border-b border-neutral-200 pb-1 dark:border-neutral-700">
+      <p>{label}</p>
+      {children}
+    </div>
+  );
+}
+
+// Subtotal, discounts, shipping, taxes and total, for a cart at checkout or a placed order.
+// Shipping shows as pending until it is known.
+export function CostBreakdown({
+  subtotalAmount,
+  discountAllocations,
+  shippingAmount,
+  totalTaxAmount,
+  taxesIncluded,
+  totalAmount
+}: {
+  subtotalAmount: Money;
+  discountAllocations: CartDiscountAllocation[];
+  shippingAmount?: Money;
+  totalTaxAmount: Money;
+  taxesIncluded?: boolean;
+  totalAmount: Money;
+}) {
+  const t = getTranslations();
+
+  return (
+    <div className="text-neutral-500 dark:text-neutral-400">
+      <SummaryRow label={t('checkout.subtotal')}>
+        <Price
+          className="text-right text-black dark:text-white"
+          amount={subtotalAmount.amount}
+          currencyCode={subtotalAmount.currencyCode}
+        />
+      </SummaryRow>
+      {discountAllocations.map((allocation) => (
+        <SummaryRow
+          key={allocation.code || allocation.title}
+          label={allocation.code ? `${allocation.title} (${allocation.code})` : allocation.title}
+        >
+          <Price
+            className="text-right text-black dark:text-white"
+            amount={`-${allocation.discountedAmount.amount}`}
+            currencyCode={allocation.discountedAmount.currencyCode}
+          />
+        </SummaryRow>
+      ))}
+      <SummaryRow label={t('cart.shipping')}>
+        {shippingAmount ? (
+          <Price
+            className="text-right text-black dark:text-white"
+            amount={shippingAmount.amount}
+            currencyCode={shippingAmount.currencyCode}
+          />
+        ) : (
+          <p className="text-right">{t('checkout.shippingPending')}</p>
+        )}
+      </SummaryRow>
+      <SummaryRow label={taxesIncluded ? t('cart.taxesIncluded') : t('cart.taxes')}>
+        <Price
+          className="text-right text-black dark:text-white"
+          amount={totalTaxAmount.amount}
+          currencyCode={totalTaxAmount.currencyCode}
+        />
+      </SummaryRow>
+      <SummaryRow label={t('cart.total')}>
+        <Price
+          className="text-right text-base text-black dark:text-white"
+          amount={totalAmount.amount}
+          currencyCode={totalAmount.currencyCode}
+        />
+      </SummaryRow>
+    </div>
+  );
+}
+
+// The cart as it will be ordered, with shipping once a delivery option is chosen.
+export default function CheckoutSummary({ cart }: { cart: Cart }) {
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const deliveryOption = getSelectedDeliveryOption(cart);
+  const { shippingAmount, totalAmount } = getCheckoutTotals(cart);
+
+  return (
+    <section aria-label={t('checkout.summary')} className="text-sm">
+      <ul className="mb-4">
+        {cart.lines.map((item) => (
+          <li key={item.id} className="border-b border-neutral-300 dark:border-neutral-700">
+            <LineItem
+              merchandise={item.merchandise}
+              amount={item.cost.totalAmount}
+              href={localizePath(getMerchandisePath(item.merchandise), locale)}
+            >
+              <p className="text-right text-neutral-500 dark:text-neutral-400">
+                {t('checkout.quantity', { quantity: item.quantity })}
+              </p>
+            </LineItem>
+          </li>
+        ))}
+      </ul>
+      <CostBreakdown
+        subtotalAmount={cart.cost.subtotalAmount}
+        discountAllocations={cart.discountAllocations}
+        shippingAmount={deliveryOption ? shippingAmount : undefined}
+        totalTaxAmount={cart.cost.totalTaxAmount}
+        taxesIncluded={cart.taxesIncluded}
+        totalAmount={totalAmount}
+      />
+    </section>
+  );
+}
@@ -1,4 +1,6 @@
 import { GridTileImage } from 'components/grid/tile';
+import { localizePath } from 'lib/i18n';
+import { getLocale } from 'lib/i18n/server';
 import { getCollectionProducts } from 'lib/shopify';
 import type { Product } from 'lib/shopify/types';
 import Link from 'next/link';
@@ -18,7 +20,7 @@ function ThreeItemGridItem({
     >
       <Link
         className="relative block aspect-square h-full w-full"
-        href={`/product/${item.handle}`}
+        href={localizePath(`/product/${item.handle}`, getLocale())}
         prefetch={true}
       >
         <GridTileImage
@@ -43,7 +45,7 @@ function ThreeItemGridItem({
 
 export async function ThreeItemGrid() {
   // Collections that start with `hidden-*` are hidden from the search page.
-  const homepageItems = await getCollectionProducts({
+  const { products: homepageItems } = await getCollectionProducts({
     collection: 'hidden-homepage-featured-items'
   });
 
@@ -0,0 +1,41 @@
+'use server';
+
+import { PRODUCTS_PER_PAGE } from 'lib/constants';
+import { CURRENCY_COOKIE, getCurrencies } from 'lib/currency';
+import { getTranslations } from 'lib/i18n/server';
+import { getSearchRedirect } from 'lib/search';
+import { logSearch } from 'lib/search-analytics';
+import { getProducts } from 'lib/shopify';
+import { cookies } from 'next/headers';
+
+// Setting the cookie re-renders the page, so every price on it switches to the new currency.
+export async function setCurrency(code: string) {
+  const currencies = await getCurrencies();
+
+  if (!currencies.some((currency) => currency.code === code)) {
+    return getTranslations()('navbar.unsupportedCurrency');
+  }
+
+  cookies().set(CURRENCY_COOKIE, code, { maxAge: 60 * 60 * 24 * 365, path: '/' });
+}
+
+// Counts a search the shopper submitted, with how many products it finds or the page the search
+// config redirects it to. It is counted here rather than where the results render, so refreshes
+// and prefetches of the results page aren't counted as searches. Losing a count is better than
+// failing the search, so errors are only logged.
+export async function logSubmittedSearch(query: string) {
+  try {
+    const redirectTo = await getSearchRedirect(query);
+
+    if (redirectTo) {
+      await logSearch(query, 0, redirectTo);
+      return;
+    }
+
+    const { products, totalCount } = await getProducts({ query, first: PRODUCTS_PER_PAGE });
+
+    await logSearch(query, totalCount ?? products.length);
+  } catch (e) {
+    console.error(e);
+  }
+}
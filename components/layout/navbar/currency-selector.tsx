@@ -0,0 +1,43 @@
+'use client';
+
+import { useTranslations } from 'components/locale-context';
+import { useTransition } from 'react';
+import { toast } from 'sonner';
+import { setCurrency } from './actions';
+
+export default function CurrencySelector({
+  currencies,
+  selected
+}: {
+  currencies: string[];
+  selected: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const t = useTranslations();
+
+  return (
+    <select
+      aria-label={t('navbar.currency')}
+      value={selected}
+      disabled={isPending}
+      onChange={(e) => {
+        const code = e.target.value;
+
+        startTransition(async () => {
+          const error = await setCurrency(code);
+
+          if (error) {
+            toast.error(error);
+          }
+        });
+      }}
+      className="mr-2 h-11 rounded-md border border-neutral-200 bg-white px-2 text-sm text-black disabled:opacity-60 dark:border-neutral-700 dark:bg-transparent dark:text-white"
+    >
+      {currencies.map((code) => (
+        <option key={code} value={code}>
+          {code}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,16 +1,27 @@
 import CartModal from 'components/cart/modal';
 import LogoSquare from 'components/logo-square';
+import { getCurrencies, getSelectedCurrency } from 'lib/currency';
+import { localizePath } from 'lib/i18n';
+import { getLocale } from 'lib/i18n/server';
 import { getMenu } from 'lib/shopify';
 import { Menu } from 'lib/shopify/types';
 import Link from 'next/link';
 import { Suspense } from 'react';
+import CurrencySelector from './currency-selector';
+import LocaleSwitcher from './locale-switcher';
 import MobileMenu from './mobile-menu';
 import Search, { SearchSkeleton } from './search';
 
 const { SITE_NAME } = process.env;
 
 export async function Navbar() {
-  const menu = await getMenu('next-js-frontend-header-menu');
+  const [headerMenu, currencies, currency] = await Promise.all([
+    getMenu('next-js-frontend-header-menu'),
+    getCurrencies(),
+    getSelectedCurrency()
+  ]);
+  const locale = getLocale();
+  const menu = headerMenu.map((item) => ({ ...item, path: localizePath(item.path, locale) }));
 
   return (
     <nav className="relative flex items-center justify-between p-4 lg:px-6">
@@ -53,6 +64,16 @@ export async function Navbar() {
           </Suspense>
         </div>
         <div className="flex justify-end md:w-1/3">
+          <Suspense fallback={null}>
+            <LocaleSwitcher />
+          </Suspense>
+          {/* Until a shopper picks one, prices are in the store's currency, listed first. */}
+          {currencies.length > 1 ? (
+            <CurrencySelector
+              currencies={currencies.map((currency) => currency.code)}
+              selected={currency?.code ?? currencies[0]!.code}
+            />
+          ) : null}
           <CartModal />
         </div>
       </div>
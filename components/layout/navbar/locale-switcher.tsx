@@ -0,0 +1,38 @@
+'use client';
+
+import { useLocale, useTranslations } from 'components/locale-context';
+import { LOCALES } from 'lib/constants';
+import { createTranslator, isLocale, localizePath, parseLocalePath } from 'lib/i18n';
+import { createUrl } from 'lib/utils';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+// Switches to the same page in another locale, keeping the query string.
+export default function LocaleSwitcher() {
+  const locale = useLocale();
+  const t = useTranslations();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  return (
+    <select
+      aria-label={t('navbar.language')}
+      value={locale}
+      onChange={(e) => {
+        const next = e.target.value;
+
+        if (isLocale(next)) {
+          const { path } = parseLocalePath(pathname);
+          router.push(createUrl(localizePath(path, next), new URLSearchParams(searchParams)));
+        }
+      }}
+      className="mr-2 h-11 rounded-md border border-neutral-200 bg-white px-2 text-sm text-black dark:border-neutral-700 dark:bg-transparent dark:text-white"
+    >
+      {LOCALES.map((code) => (
+        <option key={code} value={code}>
+          {createTranslator(code)('localeName')}
+        </option>
+      ))}
+    </select>
+  );
+}
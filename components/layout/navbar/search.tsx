@@ -1,52 +1,314 @@
 'use client';
 
 import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import clsx from 'clsx';
+import { useLocalizePath, useTranslations } from 'components/locale-context';
+import Price from 'components/price';
+import { PAGINATION_PARAMS } from 'lib/constants';
+import type { SearchSuggestions } from 'lib/shopify/types';
 import { createUrl } from 'lib/utils';
-import { useRouter, useSearchParams } from 'next/navigation';
+import Image from 'next/image';
+import { ReadonlyURLSearchParams, useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useId, useState } from 'react';
+import { logSubmittedSearch } from './actions';
 
-export default function Search() {
+// Long enough to skip the keystrokes in the middle of a word, short enough to feel instant.
+const SUGGEST_DELAY = 200;
+
+type Option = {
+  id: string;
+  href: string;
+  kind: 'query' | 'product' | 'collection' | 'page';
+  label: string;
+  product?: SearchSuggestions['products'][number];
+};
+
+function getSearchUrl(searchPath: string, searchParams: ReadonlyURLSearchParams, query: string) {
+  const newParams = new URLSearchParams(searchParams.toString());
+
+  if (query) {
+    newParams.set('q', query);
+  } else {
+    newParams.delete('q');
+  }
+
+  PAGINATION_PARAMS.forEach((param) => newParams.delete(param));
+
+  return createUrl(searchPath, newParams);
+}
+
+// Fetches suggestions once typing pauses. A newer query aborts the request for the one before,
+// so a slow response can never overwrite a fresher one.
+function useSearchSuggestions(query: string) {
+  const [suggestions, setSuggestions] = useState<SearchSuggestions>();
+  // Under the locale's prefix, so suggestions come back in the shopper's language.
+  const suggestPath = useLocalizePath()('/api/search/suggest');
+
+  useEffect(() => {
+    const value = query.trim();
+
+    if (!value) {
+      setSuggestions(undefined);
+      return;
+    }
+
+    const controller = new AbortController();
+    const url = createUrl(suggestPath, new URLSearchParams({ q: value }));
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(url, { signal: controller.signal });
+
+        if (res.ok) {
+          setSuggestions(await res.json());
+        }
+      } catch (e) {
+        if (!controller.signal.aborted) {
+          console.error(e);
+        }
+      }
+    }, SUGGEST_DELAY);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, suggestPath]);
+
+  return suggestions;
+}
+
+function toOptions(
+  suggestions: SearchSuggestions | undefined,
+  searchParams: ReadonlyURLSearchParams,
+  localizePath: (path: string) => string
+): Option[] {
+  if (!suggestions) {
+    return [];
+  }
+
+  return [
+    ...suggestions.queries.map((query) => ({
+      id: `query-${query}`,
+      href: getSearchUrl(localizePath('/search'), searchParams, query),
+      kind: 'query' as const,
+      label: query
+    })),
+    ...suggestions.products.map((product) => ({
+      id: `product-${product.handle}`,
+      href: localizePath(`/product/${product.handle}`),
+      kind: 'product' as const,
+      label: product.title,
+      product
+    })),
+    ...suggestions.collections.map((collection) => ({
+      id: `collection-${collection.handle}`,
+      href: localizePath(collection.path),
+      kind: 'collection' as const,
+      label: collection.title
+    })),
+    ...suggestions.pages.map((page) => ({
+      id: `page-${page.handle}`,
+      href: localizePath(`/${page.handle}`),
+      kind: 'page' as const,
+      label: page.title
+    }))
+  ];
+}
+
+// An ARIA 1.2 combobox: focus stays in the input while the arrow keys move through the list,
+// Enter opens the highlighted suggestion (or searches for the text) and Escape closes the list.
+// The mobile variant lists suggestions inline, since the menu it sits in is already full screen.
+export default function Search({ variant = 'desktop' }: { variant?: 'desktop' | 'mobile' }) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const t = useTranslations();
+  const localizePath = useLocalizePath();
+  const currentQuery = searchParams?.get('q') || '';
+  const [value, setValue] = useState(currentQuery);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listboxId = useId();
+  const suggestions = useSearchSuggestions(value);
+  const options = toOptions(suggestions, searchParams, localizePath);
+  const kindLabels: Partial<Record<Option['kind'], string>> = {
+    collection: t('search.collection'),
+    page: t('search.page')
+  };
+  const isExpanded = isOpen && value.trim() !== '' && options.length > 0;
+  const activeOption = isExpanded ? options[activeIndex] : undefined;
+
+  useEffect(() => {
+    setValue(currentQuery);
+  }, [currentQuery]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestions]);
+
+  function close() {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  }
+
+  function select(option: Option) {
+    close();
+
+    if (option.kind === 'query') {
+      logSubmittedSearch(option.label);
+    }
+
+    router.push(option.href);
+  }
 
   function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
+    close();
 
-    const val = e.target as HTMLFormElement;
-    const search = val.search as HTMLInputElement;
-    const newParams = new URLSearchParams(searchParams.toString());
-
-    if (search.value) {
-      newParams.set('q', search.value);
-    } else {
-      newParams.delete('q');
+    if (value.trim()) {
+      logSubmittedSearch(value);
     }
 
-    router.push(createUrl('/search', newParams));
+    router.push(getSearchUrl(localizePath('/search'), searchParams, value));
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (isExpanded ? (index + 1) % options.length : 0));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (isExpanded && index > 0 ? index - 1 : options.length - 1));
+        break;
+      case 'Enter':
+        if (activeOption) {
+          e.preventDefault();
+          select(activeOption);
+        }
+        break;
+      case 'Escape':
+        if (isExpanded) {
+          e.preventDefault();
+          close();
+        } else {
+          setValue('');
+        }
+        break;
+    }
   }
 
   return (
     <form onSubmit={onSubmit} className="w-max-[550px] relative w-full lg:w-80 xl:w-full">
-      <input
-        key={searchParams?.get('q')}
-        type="text"
-        name="search"
-        placeholder="Search for products..."
-        autoComplete="off"
-        defaultValue={searchParams?.get('q') || ''}
-        className="text-md w-full rounded-lg border bg-white px-4 py-2 text-black placeholder:text-neutral-500 md:text-sm dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400"
-      />
-      <div className="absolute right-0 top-0 mr-3 flex h-full items-center">
-        <MagnifyingGlassIcon className="h-4" />
+      <div className="relative">
+        <input
+          type="text"
+          name="search"
+          role="combobox"
+          aria-label={t('search.label')}
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls={listboxId}
+          aria-activedescendant={activeOption ? `${listboxId}-${activeIndex}` : undefined}
+          placeholder={t('search.placeholder')}
+          autoComplete="off"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={close}
+          onKeyDown={onKeyDown}
+          className="text-md w-full rounded-lg border bg-white px-4 py-2 text-black placeholder:text-neutral-500 md:text-sm dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400"
+        />
+        <div className="absolute right-0 top-0 mr-3 flex h-full items-center">
+          <MagnifyingGlassIcon className="h-4" />
+        </div>
+      </div>
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label={t('search.suggestions')}
+        hidden={!isExpanded}
+        className={clsx('w-full overflow-y-auto bg-white dark:bg-black', {
+          'absolute z-50 mt-1 max-h-[70vh] rounded-lg border border-neutral-200 py-2 shadow-lg dark:border-neutral-800':
+            variant === 'desktop',
+          'mt-2 max-h-[60vh]': variant === 'mobile'
+        })}
+      >
+        {options.map((option, index) => (
+          <li
+            key={option.id}
+            id={`${listboxId}-${index}`}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input, or its blur would close the list before the click lands.
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => select(option)}
+            className={clsx(
+              'flex cursor-pointer items-center gap-3 px-4 text-black dark:text-white',
+              {
+                'bg-neutral-100 dark:bg-neutral-900': index === activeIndex,
+                'py-2 text-sm': variant === 'desktop',
+                'py-3 text-base': variant === 'mobile'
+              }
+            )}
+          >
+            {option.product ? (
+              <>
+                <div className="relative h-10 w-10 flex-none overflow-hidden rounded-md border border-neutral-200 bg-white dark:border-neutral-800 dark:bg-black">
+                  {option.product.featuredImage?.url ? (
+                    <Image
+                      className="h-full w-full object-contain"
+                      width={40}
+                      height={40}
+                      alt={option.product.featuredImage.altText || option.label}
+                      src={option.product.featuredImage.url}
+                    />
+                  ) : null}
+                </div>
+                <span className="grow truncate">{option.label}</span>
+                <Price
+                  className="flex-none text-neutral-500 dark:text-neutral-400"
+                  amount={option.product.priceRange.minVariantPrice.amount}
+                  currencyCode={option.product.priceRange.minVariantPrice.currencyCode}
+                  currencyCodeClassName="hidden"
+                />
+              </>
+            ) : (
+              <>
+                {option.kind === 'query' ? (
+                  <MagnifyingGlassIcon className="h-4 flex-none text-neutral-500" />
+                ) : null}
+                <span className="grow truncate">{option.label}</span>
+                {kindLabels[option.kind] ? (
+                  <span className="flex-none text-xs text-neutral-500 dark:text-neutral-400">
+                    {kindLabels[option.kind]}
+                  </span>
+                ) : null}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="sr-only" aria-live="polite">
+        {isExpanded ? t('search.suggestionCount', { count: options.length }) : ''}
       </div>
     </form>
   );
 }
 
 export function SearchSkeleton() {
+  const t = useTranslations();
+
   return (
     <form className="w-max-[550px] relative w-full lg:w-80 xl:w-full">
       <input
-        placeholder="Search for products..."
+        placeholder={t('search.placeholder')}
         className="w-full rounded-lg border bg-white px-4 py-2 text-sm text-black placeholder:text-neutral-500 dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400"
       />
       <div className="absolute right-0 top-0 mr-3 flex h-full items-center">
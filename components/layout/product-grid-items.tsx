@@ -1,16 +1,20 @@
 import Grid from 'components/grid';
 import { GridTileImage } from 'components/grid/tile';
+import { localizePath } from 'lib/i18n';
+import { getLocale } from 'lib/i18n/server';
 import { Product } from 'lib/shopify/types';
 import Link from 'next/link';
 
 export default function ProductGridItems({ products }: { products: Product[] }) {
+  const locale = getLocale();
+
   return (
     <>
       {products.map((product) => (
         <Grid.Item key={product.handle} className="animate-fadeIn">
           <Link
             className="relative inline-block h-full w-full"
-            href={`/product/${product.handle}`}
+            href={localizePath(`/product/${product.handle}`, locale)}
             prefetch={true}
           >
             <GridTileImage
@@ -1,12 +1,18 @@
 import clsx from 'clsx';
 import { Suspense } from 'react';
 
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
 import { getCollections } from 'lib/shopify';
 import FilterList from './filter';
 
 async function CollectionList() {
   const collections = await getCollections();
-  return <FilterList list={collections} title="Collections" />;
+  const locale = getLocale();
+  const t = getTranslations(locale);
+  const list = collections.map(({ title, path }) => ({ title, path: localizePath(path, locale) }));
+
+  return <FilterList list={list} title={t('listing.collections')} />;
 }
 
 const skeleton = 'mb-3 h-4 w-5/6 animate-pulse rounded';
@@ -0,0 +1,190 @@
+'use client';
+
+import { ChevronDownIcon } from '@heroicons/react/24/outline';
+import clsx from 'clsx';
+import { useTranslations } from 'components/locale-context';
+import { PAGINATION_PARAMS } from 'lib/constants';
+import { getFilterParam, isFilterParam, PRICE_PARAM } from 'lib/filters';
+import type { Facet, FacetValue } from 'lib/shopify/types';
+import { createUrl } from 'lib/utils';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+// Filters change what the cursors point into, so every change starts over at the first page.
+function useFilterUrl() {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  return (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    PAGINATION_PARAMS.forEach((param) => params.delete(param));
+    update(params);
+
+    return createUrl(pathname, params);
+  };
+}
+
+function FacetValueItem({ value }: { value: FacetValue }) {
+  const searchParams = useSearchParams();
+  const filterUrl = useFilterUrl();
+  const param = getFilterParam(value.input);
+
+  if (!param) return null;
+
+  const [key, paramValue] = param;
+  const active = searchParams.getAll(key).includes(paramValue);
+  const href = filterUrl((params) => {
+    if (active) {
+      const others = params.getAll(key).filter((item) => item !== paramValue);
+      params.delete(key);
+      others.forEach((item) => params.append(key, item));
+    } else {
+      params.append(key, paramValue);
+    }
+  });
+  const disabled = !active && value.count === 0;
+  const content = (
+    <>
+      <span
+        className={clsx('h-3 w-3 flex-none rounded-sm border', {
+          'border-blue-600 bg-blue-600': active,
+          'border-neutral-400 dark:border-neutral-600': !active
+        })}
+      />
+      <span className="grow">{value.label}</span>
+      <span className="text-neutral-500 dark:text-neutral-400">{value.count}</span>
+    </>
+  );
+
+  return (
+    <li className="mt-2 flex text-sm text-black dark:text-white">
+      {disabled ? (
+        <span className="flex w-full cursor-not-allowed items-center gap-2 text-neutral-400 dark:text-neutral-600">
+          {content}
+        </span>
+      ) : (
+        <Link
+          href={href}
+          prefetch={false}
+          aria-current={active ? 'true' : undefined}
+          className={clsx(
+            'flex w-full items-center gap-2 hover:underline hover:underline-offset-4',
+            { 'underline underline-offset-4': active }
+          )}
+        >
+          {content}
+        </Link>
+      )}
+    </li>
+  );
+}
+
+function PriceRange({ value }: { value: FacetValue }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const filterUrl = useFilterUrl();
+  const t = useTranslations();
+  const [min = '', max = ''] = (searchParams.get(PRICE_PARAM) || '').split('-');
+
+  function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+
+    const form = e.target as HTMLFormElement;
+    const from = (form.min as HTMLInputElement).value;
+    const to = (form.max as HTMLInputElement).value;
+
+    router.push(
+      filterUrl((params) => {
+        if (from || to) {
+          params.set(PRICE_PARAM, `${from}-${to}`);
+        } else {
+          params.delete(PRICE_PARAM);
+        }
+      })
+    );
+  }
+
+  const inputClassName =
+    'w-20 rounded border border-black/30 bg-transparent px-2 py-1 text-sm dark:border-white/30';
+
+  return (
+    <form key={`${min}-${max}`} onSubmit={onSubmit} className="mt-2 flex items-center gap-2">
+      <input
+        type="number"
+        name="min"
+        min={0}
+        step="any"
+        aria-label={t('listing.minPrice')}
+        placeholder={String(value.input.price?.min ?? '')}
+        defaultValue={min}
+        className={inputClassName}
+      />
+      <span>-</span>
+      <input
+        type="number"
+        name="max"
+        min={0}
+        step="any"
+        aria-label={t('listing.maxPrice')}
+        placeholder={String(value.input.price?.max ?? '')}
+        defaultValue={max}
+        className={inputClassName}
+      />
+      <button type="submit" className="text-sm hover:underline hover:underline-offset-4">
+        {t('listing.apply')}
+      </button>
+    </form>
+  );
+}
+
+function FacetGroup({ facet }: { facet: Facet }) {
+  return (
+    <details className="group relative">
+      <summary className="flex cursor-pointer list-none items-center gap-2 rounded border border-black/30 px-4 py-2 text-sm dark:border-white/30">
+        {facet.label}
+        <ChevronDownIcon className="h-4 transition-transform group-open:rotate-180" />
+      </summary>
+      <div className="absolute z-40 mt-1 min-w-[200px] rounded-b-md bg-white p-4 shadow-md dark:bg-black">
+        {facet.type === 'PRICE_RANGE' ? (
+          facet.values[0] ? (
+            <PriceRange value={facet.values[0]} />
+          ) : null
+        ) : (
+          <ul>
+            {facet.values.map((value) => (
+              <FacetValueItem key={value.id} value={value} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default function FacetList({ facets }: { facets: Facet[] }) {
+  const searchParams = useSearchParams();
+  const filterUrl = useFilterUrl();
+  const hasFilters = [...searchParams.keys()].some(isFilterParam);
+  const t = useTranslations();
+
+  if (!facets.length) return null;
+
+  return (
+    <nav aria-label={t('listing.filters')} className="mb-4 flex flex-wrap items-center gap-2">
+      {facets.map((facet) => (
+        <FacetGroup key={facet.id} facet={facet} />
+      ))}
+      {hasFilters ? (
+        <Link
+          href={filterUrl((params) =>
+            [...params.keys()].filter(isFilterParam).forEach((key) => params.delete(key))
+          )}
+          className="text-sm underline underline-offset-4 hover:text-blue-600"
+        >
+          {t('listing.clearFilters')}
+        </Link>
+      ) : null}
+    </nav>
+  );
+}
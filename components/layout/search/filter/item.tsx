@@ -1,7 +1,7 @@
 'use client';
 
 import clsx from 'clsx';
-import type { SortFilterItem } from 'lib/constants';
+import { PAGINATION_PARAMS, type SortFilterItem } from 'lib/constants';
 import { createUrl } from 'lib/utils';
 import Link from 'next/link';
 import { usePathname, useSearchParams } from 'next/navigation';
@@ -15,6 +15,7 @@ function PathFilterItem({ item }: { item: PathFilterItem }) {
   const DynamicTag = active ? 'p' : Link;
 
   newParams.delete('q');
+  PAGINATION_PARAMS.forEach((param) => newParams.delete(param));
 
   return (
     <li className="mt-2 flex text-black dark:text-white" key={item.title}>
@@ -37,14 +38,18 @@ function SortFilterItem({ item }: { item: SortFilterItem }) {
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const active = searchParams.get('sort') === item.slug;
-  const q = searchParams.get('q');
-  const href = createUrl(
-    pathname,
-    new URLSearchParams({
-      ...(q && { q }),
-      ...(item.slug && item.slug.length && { sort: item.slug })
-    })
-  );
+  // Keeps the query and filters, but cursors belong to the old order.
+  const newParams = new URLSearchParams(searchParams.toString());
+
+  PAGINATION_PARAMS.forEach((param) => newParams.delete(param));
+
+  if (item.slug && item.slug.length) {
+    newParams.set('sort', item.slug);
+  } else {
+    newParams.delete('sort');
+  }
+
+  const href = createUrl(pathname, newParams);
   const DynamicTag = active ? 'p' : Link;
 
   return (
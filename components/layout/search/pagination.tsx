@@ -0,0 +1,119 @@
+import { ArrowLeftIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
+import { PAGINATION_PARAMS } from 'lib/constants';
+import { getTranslations } from 'lib/i18n/server';
+import { PageInfo } from 'lib/shopify/types';
+import { createUrl } from 'lib/utils';
+import { Metadata, ResolvedMetadata } from 'next';
+import Link from 'next/link';
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+export function getPageNumber(searchParams?: SearchParams) {
+  const page = Number(searchParams?.page);
+
+  return Number.isInteger(page) && page > 1 ? page : 1;
+}
+
+// `page` only numbers the pages for shoppers; the cursors decide what is actually shown. Going
+// back to the first page drops them so it always shares the URL of the unpaginated listing.
+function getPaginationLinks(pathname: string, searchParams: SearchParams, pageInfo: PageInfo) {
+  const page = getPageNumber(searchParams);
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (typeof value === 'string' && !PAGINATION_PARAMS.includes(key)) {
+      params.set(key, value);
+    }
+  }
+
+  const linkTo = (cursor: 'after' | 'before', value: string | null, pageNumber: number) => {
+    const pageParams = new URLSearchParams(params);
+
+    if (pageNumber > 1 && value) {
+      pageParams.set('page', String(pageNumber));
+      pageParams.set(cursor, value);
+    }
+
+    return createUrl(pathname, pageParams);
+  };
+
+  return {
+    previous: pageInfo.hasPreviousPage
+      ? linkTo('before', pageInfo.startCursor, page - 1)
+      : undefined,
+    next: pageInfo.hasNextPage ? linkTo('after', pageInfo.endCursor, page + 1) : undefined
+  };
+}
+
+// The listing's `rel="prev"` and `rel="next"` links, for `generateMetadata` to put in the head so
+// crawlers can follow the sequence. Metadata has no field of its own for them, but `icons.other`
+// renders a `<link>` with whatever `rel` it is given. Icons set here replace the parent's, such as
+// the favicon, so those are kept from `parent`.
+export function getPaginationMetadata(
+  pathname: string,
+  searchParams: SearchParams = {},
+  pageInfo: PageInfo,
+  parent: ResolvedMetadata
+): Metadata {
+  const { previous, next } = getPaginationLinks(pathname, searchParams, pageInfo);
+  const links = [
+    ...(previous ? [{ rel: 'prev', url: previous }] : []),
+    ...(next ? [{ rel: 'next', url: next }] : [])
+  ];
+
+  if (!links.length) {
+    return {};
+  }
+
+  return {
+    icons: { ...parent.icons, other: [...(parent.icons?.other || []), ...links] }
+  };
+}
+
+const linkClassName =
+  'flex items-center gap-2 rounded-full border border-neutral-200 px-4 py-2 hover:border-blue-600 dark:border-neutral-800';
+
+export default function Pagination({
+  pathname,
+  searchParams = {},
+  pageInfo
+}: {
+  pathname: string;
+  searchParams?: SearchParams;
+  pageInfo: PageInfo;
+}) {
+  const { previous, next } = getPaginationLinks(pathname, searchParams, pageInfo);
+
+  if (!previous && !next) {
+    return null;
+  }
+
+  const t = getTranslations();
+
+  return (
+    <nav
+      aria-label={t('listing.pagination')}
+      className="mt-8 flex items-center justify-between text-sm text-black dark:text-white"
+    >
+      {previous ? (
+        <Link href={previous} className={linkClassName}>
+          <ArrowLeftIcon className="h-4" />
+          {t('listing.previous')}
+        </Link>
+      ) : (
+        <span />
+      )}
+      <p className="text-neutral-500 dark:text-neutral-400">
+        {t('listing.page', { page: getPageNumber(searchParams) })}
+      </p>
+      {next ? (
+        <Link href={next} className={linkClassName}>
+          {t('listing.next')}
+          <ArrowRightIcon className="h-4" />
+        </Link>
+      ) : (
+        <span />
+      )}
+    </nav>
+  );
+}
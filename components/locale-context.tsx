@@ -0,0 +1,34 @@
+'use client';
+
+import { DEFAULT_LOCALE, Locale } from 'lib/constants';
+import { createTranslator, localizePath, Translator } from 'lib/i18n';
+import React, { createContext, useContext, useMemo } from 'react';
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export function LocaleProvider({
+  children,
+  locale
+}: {
+  children: React.ReactNode;
+  locale: Locale;
+}) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): Locale {
+  return useContext(LocaleContext);
+}
+
+export function useTranslations(): Translator {
+  const locale = useLocale();
+
+  return useMemo(() => createTranslator(locale), [locale]);
+}
+
+// Prefixes internal paths for the current locale.
+export function useLocalizePath(): (path: string) => string {
+  const locale = useLocale();
+
+  return (path) => localizePath(path, locale);
+}
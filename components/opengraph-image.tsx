@@ -1,5 +1,7 @@
 // for image preview
+import { readFile } from 'fs/promises';
 import { ImageResponse } from 'next/og';
+import path from 'path';
 import LogoIcon from './icons/logo';
 
 export type Props = {
@@ -29,9 +31,8 @@ export default async function OpengraphImage(props?: Props): Promise<ImageRespon
       fonts: [
         {
           name: 'Inter',
-          data: await fetch(new URL('../fonts/Inter-Bold.ttf', import.meta.url)).then((res) =>
-            res.arrayBuffer()
-          ),
+          // Rendered on the Node.js runtime, since the local provider reads its data from disk.
+          data: await readFile(path.join(process.cwd(), 'fonts/Inter-Bold.ttf')),
           style: 'normal',
           weight: 700
         }
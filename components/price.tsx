@@ -1,4 +1,7 @@
+'use client';
+
 import clsx from 'clsx';
+import { useLocale } from 'components/locale-context';
 
 const Price = ({
   amount,
@@ -10,15 +13,20 @@ const Price = ({
   className?: string;
   currencyCode: string;
   currencyCodeClassName?: string;
-} & React.ComponentProps<'p'>) => (
-  <p suppressHydrationWarning={true} className={className}>
-    {`${new Intl.NumberFormat(undefined, {
-      style: 'currency',
-      currency: currencyCode,
-      currencyDisplay: 'narrowSymbol'
-    }).format(parseFloat(amount))}`}
-    <span className={clsx('ml-1 inline', currencyCodeClassName)}>{`${currencyCode}`}</span>
-  </p>
-);
+} & React.ComponentProps<'p'>) => {
+  // The page's locale rather than the browser's, so the server and the browser format alike.
+  const locale = useLocale();
+
+  return (
+    <p className={className}>
+      {`${new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: currencyCode,
+        currencyDisplay: 'narrowSymbol'
+      }).format(parseFloat(amount))}`}
+      <span className={clsx('ml-1 inline', currencyCodeClassName)}>{`${currencyCode}`}</span>
+    </p>
+  );
+};
 
 export default Price;
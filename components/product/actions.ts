@@ -0,0 +1,86 @@
+'use server';
+
+import { localizePath } from 'lib/i18n';
+import { getLocale, getTranslations } from 'lib/i18n/server';
+import { confirmRestockSignUp, subscribeToRestock } from 'lib/restock';
+import { getProduct } from 'lib/shopify';
+import { getErrorMessage } from 'lib/shopify/errors';
+import { getSiteUrl } from 'lib/utils';
+import { notFound, redirect } from 'next/navigation';
+
+export type NotifyMeState = { error?: string; subscribed?: string } | null;
+
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+// The variant's product page, for the email to link back to. Mail is read away from the site, so
+// it has to be a full URL.
+function getVariantUrl(handle: string, selectedOptions: { name: string; value: string }[]) {
+  const params = new URLSearchParams(
+    selectedOptions.map((option) => [option.name.toLowerCase(), option.value])
+  );
+
+  return `${getSiteUrl()}${localizePath(`/product/${handle}?${params}`, getLocale())}`;
+}
+
+export async function notifyWhenAvailable(
+  prevState: NotifyMeState,
+  formData: FormData
+): Promise<NotifyMeState> {
+  const t = getTranslations();
+  const email = String(formData.get('email') || '')
+    .trim()
+    .toLowerCase();
+  const handle = String(formData.get('productHandle') || '');
+  const merchandiseId = String(formData.get('merchandiseId') || '');
+
+  if (!isEmail(email)) {
+    return { error: t('product.errors.email') };
+  }
+
+  try {
+    const product = await getProduct(handle);
+    const variant = product?.variants.find((variant) => variant.id === merchandiseId);
+
+    if (!product || !variant) {
+      return { error: t('product.errors.notifyMe') };
+    }
+
+    // There is nothing to wait for, e.g. when it came back since the page was loaded.
+    if (variant.availableForSale) {
+      return { error: t('product.errors.inStock') };
+    }
+
+    const signUp = await subscribeToRestock({
+      product,
+      variant,
+      email,
+      locale: getLocale(),
+      url: getVariantUrl(handle, variant.selectedOptions)
+    });
+
+    if (signUp === 'limited') {
+      return { error: t('product.errors.notifyMeLimit') };
+    }
+
+    return {
+      subscribed:
+        signUp === 'confirm'
+          ? t('product.notifyMe.confirm', { email })
+          : t('product.notifyMe.subscribed', { email })
+    };
+  } catch (e) {
+    console.error(e);
+    return { error: getErrorMessage(e, t('product.errors.notifyMe'), t) };
+  }
+}
+
+// Confirms a restock sign-up from the page its email links to, then shows that page again.
+export async function confirmNotifyMe(subscription: string, token: string): Promise<void> {
+  if (!(await confirmRestockSignUp(subscription, token))) {
+    notFound();
+  }
+
+  redirect(
+    localizePath(`/restock/confirm?${new URLSearchParams({ subscription, token })}`, getLocale())
+  );
+}
@@ -2,12 +2,14 @@
 
 import { ArrowLeftIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
 import { GridTileImage } from 'components/grid/tile';
+import { useTranslations } from 'components/locale-context';
 import { useProduct, useUpdateURL } from 'components/product/product-context';
 import Image from 'next/image';
 
 export function Gallery({ images }: { images: { src: string; altText: string }[] }) {
   const { state, updateImage } = useProduct();
   const updateURL = useUpdateURL();
+  const t = useTranslations();
   const imageIndex = state.image ? parseInt(state.image) : 0;
 
   const nextImageIndex = imageIndex + 1 < images.length ? imageIndex + 1 : 0;
@@ -38,7 +40,7 @@ export function Gallery({ images }: { images: { src: string; altText: string }[]
                   const newState = updateImage(previousImageIndex.toString());
                   updateURL(newState);
                 }}
-                aria-label="Previous product image"
+                aria-label={t('product.previousImage')}
                 className={buttonClassName}
               >
                 <ArrowLeftIcon className="h-5" />
@@ -49,7 +51,7 @@ export function Gallery({ images }: { images: { src: string; altText: string }[]
                   const newState = updateImage(nextImageIndex.toString());
                   updateURL(newState);
                 }}
-                aria-label="Next product image"
+                aria-label={t('product.nextImage')}
                 className={buttonClassName}
               >
                 <ArrowRightIcon className="h-5" />
@@ -71,7 +73,7 @@ export function Gallery({ images }: { images: { src: string; altText: string }[]
                     const newState = updateImage(index.toString());
                     updateURL(newState);
                   }}
-                  aria-label="Select product image"
+                  aria-label={t('product.selectImage')}
                   className="h-full w-full"
                 >
                   <GridTileImage
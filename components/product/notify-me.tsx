@@ -0,0 +1,65 @@
+'use client';
+
+import LoadingDots from 'components/loading-dots';
+import { useTranslations } from 'components/locale-context';
+import { ProductVariant } from 'lib/shopify/types';
+import { useFormState, useFormStatus } from 'react-dom';
+import { notifyWhenAvailable } from './actions';
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  const t = useTranslations();
+
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="flex-none rounded-full border border-neutral-200 px-4 py-2 text-sm text-black hover:opacity-80 dark:border-neutral-700 dark:text-white"
+    >
+      {pending ? <LoadingDots className="bg-black dark:bg-white" /> : t('product.notifyMe.submit')}
+    </button>
+  );
+}
+
+// Lets shoppers sign up for an email when a sold-out variant can be bought again.
+export function NotifyMe({
+  productHandle,
+  variant
+}: {
+  productHandle: string;
+  variant: ProductVariant;
+}) {
+  const t = useTranslations();
+  const [state, formAction] = useFormState(notifyWhenAvailable, null);
+
+  if (state?.subscribed) {
+    return (
+      <p aria-live="polite" className="mt-4 text-sm" role="status">
+        {state.subscribed}
+      </p>
+    );
+  }
+
+  return (
+    <form action={formAction} className="mt-4">
+      <p className="mb-2 text-sm">{t('product.notifyMe.description')}</p>
+      <input type="hidden" name="productHandle" value={productHandle} />
+      <input type="hidden" name="merchandiseId" value={variant.id} />
+      <div className="flex items-center gap-2">
+        <input
+          type="email"
+          name="email"
+          required
+          aria-label={t('product.notifyMe.email')}
+          placeholder={t('product.notifyMe.email')}
+          autoComplete="email"
+          className="w-full rounded-lg border bg-white px-4 py-2 text-sm text-black placeholder:text-neutral-500 dark:border-neutral-800 dark:bg-transparent dark:text-white dark:placeholder:text-neutral-400"
+        />
+        <SubmitButton />
+      </div>
+      <p aria-live="polite" className="mt-1 text-xs text-red-600" role="status">
+        {state?.error}
+      </p>
+    </form>
+  );
+}
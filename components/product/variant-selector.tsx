@@ -1,7 +1,9 @@
 'use client';
 
 import clsx from 'clsx';
+import { useTranslations } from 'components/locale-context';
 import { useProduct, useUpdateURL } from 'components/product/product-context';
+import { isLowStock } from 'lib/inventory';
 import { ProductOption, ProductVariant } from 'lib/shopify/types';
 
 type Combination = {
@@ -19,6 +21,7 @@ export function VariantSelector({
 }) {
   const { state, updateOption } = useProduct();
   const updateURL = useUpdateURL();
+  const t = useTranslations();
   const hasNoOptionsOrJustOneOption =
     !options.length || (options.length === 1 && options[0]?.values.length === 1);
 
@@ -57,10 +60,20 @@ export function VariantSelector({
                 ([key, value]) => combination[key] === value && combination.availableForSale
               )
             );
+            // Sold-out values can still be chosen, so the shopper can ask to hear when they are back.
+            const exists = combinations.find((combination) =>
+              filtered.every(([key, value]) => combination[key] === value)
+            );
 
             // The option is active if it's in the selected options.
             const isActive = state[optionNameLowerCase] === value;
 
+            // Once every option is chosen the value leads to one variant, which may be running low.
+            const quantityAvailable =
+              filtered.length === options.length
+                ? variants.find((variant) => variant.id === exists?.id)?.quantityAvailable
+                : undefined;
+
             return (
               <button
                 formAction={() => {
@@ -68,21 +81,27 @@ export function VariantSelector({
                   updateURL(newState);
                 }}
                 key={value}
-                aria-disabled={!isAvailableForSale}
-                disabled={!isAvailableForSale}
+                aria-disabled={!exists}
+                disabled={!exists}
                 title={`${option.name} ${value}${!isAvailableForSale ? ' (Out of Stock)' : ''}`}
                 className={clsx(
                   'flex min-w-[48px] items-center justify-center rounded-full border bg-neutral-100 px-2 py-1 text-sm dark:border-neutral-800 dark:bg-neutral-900',
                   {
                     'cursor-default ring-2 ring-blue-600': isActive,
                     'ring-1 ring-transparent transition duration-300 ease-in-out hover:ring-blue-600':
-                      !isActive && isAvailableForSale,
-                    'relative z-10 cursor-not-allowed overflow-hidden bg-neutral-100 text-neutral-500 ring-1 ring-neutral-300 before:absolute before:inset-x-0 before:-z-10 before:h-px before:-rotate-45 before:bg-neutral-300 before:transition-transform dark:bg-neutral-900 dark:text-neutral-400 dark:ring-neutral-700 before:dark:bg-neutral-700':
-                      !isAvailableForSale
+                      !isActive && exists,
+                    'relative z-10 overflow-hidden bg-neutral-100 text-neutral-500 before:absolute before:inset-x-0 before:-z-10 before:h-px before:-rotate-45 before:bg-neutral-300 before:transition-transform dark:bg-neutral-900 dark:text-neutral-400 before:dark:bg-neutral-700':
+                      !isAvailableForSale,
+                    'cursor-not-allowed ring-1 ring-neutral-300 dark:ring-neutral-700': !exists
                   }
                 )}
               >
                 {value}
+                {quantityAvailable !== undefined && isLowStock(quantityAvailable) ? (
+                  <span className="ml-1 text-xs text-orange-600 dark:text-orange-400">
+                    {t('product.lowStock', { count: quantityAvailable })}
+                  </span>
+                ) : null}
               </button>
             );
           })}
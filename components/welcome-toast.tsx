@@ -1,14 +1,19 @@
 'use client';
 
+import { useTranslations } from 'components/locale-context';
 import { useEffect } from 'react';
 import { toast } from 'sonner';
 
 export function WelcomeToast() {
+  const t = useTranslations();
+
   useEffect(() => {
     // ignore if screen height is too small
     if (window.innerHeight < 650) return;
     if (!document.cookie.includes('welcome-toast=2')) {
-      toast('🛍️ Welcome to Next.js Commerce!', {
+      const [beforeLink, afterLink] = t('welcome.description').split('{link}');
+
+      toast(t('welcome.title'), {
         id: 'welcome-toast',
         duration: Infinity,
         onDismiss: () => {
@@ -16,20 +21,20 @@ export function WelcomeToast() {
         },
         description: (
           <>
-            This is a high-performance, SSR storefront powered by Shopify, Next.js, and Vercel.{' '}
+            {beforeLink}
             <a
               href="https://vercel.com/templates/next.js/nextjs-commerce"
               className="text-blue-600 hover:underline"
               target="_blank"
             >
-              Deploy your own
+              {t('welcome.deploy')}
             </a>
-            .
+            {afterLink}
           </>
         )
       });
     }
-  }, []);
+  }, [t]);
 
   return null;
 }
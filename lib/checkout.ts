@@ -0,0 +1,65 @@
+import { Locale } from 'lib/constants';
+import { Cart, CartDeliveryOption, MailingAddress, Money, PaymentMethod } from 'lib/shopify/types';
+import { fromCents, toCents } from 'lib/utils';
+
+// The pages of `/checkout`, in the order the shopper goes through them.
+export const CHECKOUT_STEPS = ['contact', 'shipping', 'delivery', 'payment', 'review'] as const;
+
+export type CheckoutStep = (typeof CHECKOUT_STEPS)[number];
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['card', 'bankTransfer'];
+
+export const isCheckoutStep = (value: unknown): value is CheckoutStep =>
+  CHECKOUT_STEPS.includes(value as CheckoutStep);
+
+export const getSelectedDeliveryOption = (cart: Cart): CartDeliveryOption | undefined =>
+  cart.deliveryOptions.find((option) => option.handle === cart.checkout?.deliveryOptionHandle);
+
+// The first step the shopper still has to fill in, or `review` once they all are. Later steps
+// can't be opened before it, so every step can rely on the ones before it.
+export function getNextCheckoutStep(cart: Cart): CheckoutStep {
+  if (!cart.buyerIdentity.email) {
+    return 'contact';
+  }
+
+  if (!cart.checkout?.shippingAddress) {
+    return 'shipping';
+  }
+
+  if (!getSelectedDeliveryOption(cart)) {
+    return 'delivery';
+  }
+
+  if (!cart.checkout.paymentMethod) {
+    return 'payment';
+  }
+
+  return 'review';
+}
+
+// What the shopper pays: the cart's total, which has its discounts and taxes settled, plus the
+// delivery option they chose.
+export function getCheckoutTotals(cart: Cart): { shippingAmount: Money; totalAmount: Money } {
+  const { currencyCode } = cart.cost.totalAmount;
+  const shipping = toCents(getSelectedDeliveryOption(cart)?.estimatedCost.amount || '0');
+
+  return {
+    shippingAmount: { amount: fromCents(shipping), currencyCode },
+    totalAmount: {
+      amount: fromCents(toCents(cart.cost.totalAmount.amount) + shipping),
+      currencyCode
+    }
+  };
+}
+
+// An address as lines to print, with the country named in `locale`.
+export function formatAddress(address: MailingAddress, locale: Locale): string[] {
+  return [
+    `${address.firstName} ${address.lastName}`,
+    address.address1,
+    address.address2,
+    [address.city, address.provinceCode, address.zip].filter(Boolean).join(' '),
+    new Intl.DisplayNames(locale, { type: 'region' }).of(address.countryCode),
+    address.phone
+  ].filter((line): line is string => !!line);
+}
@@ -1,7 +1,7 @@
 export type SortFilterItem = {
   title: string;
   slug: string | null;
-  sortKey: 'RELEVANCE' | 'BEST_SELLING' | 'CREATED_AT' | 'PRICE';
+  sortKey: 'RELEVANCE' | 'BEST_SELLING' | 'CREATED_AT' | 'PRICE' | 'TITLE' | 'RATING';
   reverse: boolean;
 };
 
@@ -17,15 +17,30 @@ export const sorting: SortFilterItem[] = [
   { title: 'Trending', slug: 'trending-desc', sortKey: 'BEST_SELLING', reverse: false }, // asc
   { title: 'Latest arrivals', slug: 'latest-desc', sortKey: 'CREATED_AT', reverse: true },
   { title: 'Price: Low to high', slug: 'price-asc', sortKey: 'PRICE', reverse: false }, // asc
-  { title: 'Price: High to low', slug: 'price-desc', sortKey: 'PRICE', reverse: true }
+  { title: 'Price: High to low', slug: 'price-desc', sortKey: 'PRICE', reverse: true },
+  { title: 'Name: A to Z', slug: 'name-asc', sortKey: 'TITLE', reverse: false },
+  { title: 'Top rated', slug: 'rating-desc', sortKey: 'RATING', reverse: true }
 ];
 
+export const PRODUCTS_PER_PAGE = 24;
+// The most units of one variant a cart line can hold.
+export const MAX_LINE_QUANTITY = 99;
+// Per kind of suggestion (queries, products, collections, pages) in the navbar dropdown.
+export const SEARCH_SUGGESTIONS_LIMIT = 4;
+// Cursors only make sense for the listing they came from, so these reset whenever it changes.
+export const PAGINATION_PARAMS = ['page', 'after', 'before'];
+
 export const TAGS = {
   collections: 'collections',
   products: 'products',
   cart: 'cart'
 };
 
+// Every locale but the default is served under its own path prefix, e.g. `/fr/product/...`.
+export const LOCALES = ['en', 'fr'] as const;
+export const DEFAULT_LOCALE: Locale = 'en';
+export type Locale = (typeof LOCALES)[number];
+
 export const HIDDEN_PRODUCT_TAG = 'nextjs-frontend-hidden';
 export const DEFAULT_OPTION = 'Default Title';
 export const SHOPIFY_GRAPHQL_API_ENDPOINT = '/api/2023-01/graphql.json';
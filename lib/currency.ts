@@ -0,0 +1,88 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { readFile, stat } from 'fs/promises';
+import { Money } from 'lib/shopify/types';
+import { cookies } from 'next/headers';
+import path from 'path';
+
+export const CURRENCY_COOKIE = 'currency';
+
+// A currency shoppers can pick. `rate` is how much one unit of the reference currency is worth in
+// this one (any currency can be the reference, as long as all rates use the same one), and
+// `country` is the market Shopify prices it in, as `@inContext` takes a country rather than a
+// currency.
+export type Currency = {
+  code: string;
+  rate: number;
+  country: string;
+};
+
+type CurrenciesFile = { currencies: Currency[] };
+
+const currenciesPath = path.resolve(
+  process.cwd(),
+  process.env.COMMERCE_CURRENCIES_FILE || 'currencies.json'
+);
+
+let cached: { mtime: number; currencies: Currency[] } | undefined;
+
+// Re-read whenever the file changes, so new rates apply without a restart. Without a file every
+// price stays in the currency the catalog or store uses.
+export async function getCurrencies(): Promise<Currency[]> {
+  let mtime: number;
+
+  try {
+    mtime = (await stat(currenciesPath)).mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+
+    throw e;
+  }
+
+  if (cached?.mtime !== mtime) {
+    const file = JSON.parse(await readFile(currenciesPath, 'utf8')) as CurrenciesFile;
+    cached = { mtime, currencies: file.currencies };
+  }
+
+  return cached.currencies;
+}
+
+const requestCurrency = new AsyncLocalStorage<string>();
+
+// Prices everything read inside `callback` in `code`, whatever the shopper's cookie says. The
+// Storefront API stand-in uses this for the `@inContext` of the operation it serves.
+export function withCurrency<T>(code: string, callback: () => T): T {
+  return requestCurrency.run(code, callback);
+}
+
+// The currency prices should be shown in, or undefined to leave them as they are.
+export async function getSelectedCurrency(): Promise<Currency | undefined> {
+  const code = requestCurrency.getStore() ?? cookies().get(CURRENCY_COOKIE)?.value;
+
+  return code ? (await getCurrencies()).find((currency) => currency.code === code) : undefined;
+}
+
+// JPY has no minor unit and BHD has three, so amounts are rounded the way the currency is.
+const getFractionDigits = (currencyCode: string) =>
+  new Intl.NumberFormat('en', { style: 'currency', currency: currencyCode }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+
+export function convertMoney(money: Money, from: Currency, to: Currency): Money {
+  if (from.code === to.code) {
+    return money;
+  }
+
+  const amount = (Number(money.amount) / from.rate) * to.rate;
+
+  return { amount: amount.toFixed(getFractionDigits(to.code)), currencyCode: to.code };
+}
+
+// Converts an amount kept outside the catalog, such as a shipping rate, to the shopper's currency.
+// It is left as it is when either currency isn't listed.
+export async function toSelectedCurrency(money: Money): Promise<Money> {
+  const [currencies, target] = await Promise.all([getCurrencies(), getSelectedCurrency()]);
+  const source = currencies.find((currency) => currency.code === money.currencyCode);
+
+  return source && target ? convertMoney(money, source, target) : money;
+}
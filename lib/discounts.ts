@@ -0,0 +1,270 @@
+import { readFile, stat } from 'fs/promises';
+import { toSelectedCurrency } from 'lib/currency';
+import { CartDiscountAllocation, CartDiscountCode, Money } from 'lib/shopify/types';
+import { fromCents, toCents } from 'lib/utils';
+import path from 'path';
+
+// A promotion. Discounts with a `code` apply once a shopper enters it; the others apply to every
+// cart they fit. Amounts are in the file's `currencyCode`.
+export type Discount = {
+  code?: string;
+  title: string;
+  // `percentage` takes `percentage` percent off the eligible lines and `fixedAmount` takes
+  // `amount` off them in total. `buyXGetY` takes `percentage` percent (all of it by default) off
+  // `getQuantity` eligible items for every `buyQuantity` bought, the cheapest items first.
+  type: 'percentage' | 'fixedAmount' | 'buyXGetY';
+  percentage?: number;
+  amount?: string;
+  buyQuantity?: number;
+  getQuantity?: number;
+  // Handles of the collections whose products are eligible; every product is when omitted.
+  collections?: string[];
+  // What the eligible lines have to come to before the discount applies.
+  minimumSubtotal?: string;
+  // How many orders can use a code.
+  usageLimit?: number;
+  startsAt?: string;
+  endsAt?: string;
+};
+
+export type DiscountSettings = {
+  currencyCode: string;
+  discounts: Discount[];
+};
+
+export type DiscountableLine = {
+  quantity: number;
+  amount: Money;
+  // Handles of the collections the line's product is in.
+  collections: string[];
+};
+
+export type DiscountResult = {
+  // The discounts on each line, in the order the lines were given.
+  lines: CartDiscountAllocation[][];
+  discountCodes: CartDiscountCode[];
+};
+
+const settingsPath = path.resolve(
+  process.cwd(),
+  process.env.COMMERCE_DISCOUNTS_FILE || 'discounts.json'
+);
+
+const emptySettings: DiscountSettings = { currencyCode: 'USD', discounts: [] };
+
+let cached: { mtime: number; settings: DiscountSettings } | undefined;
+
+// Re-read whenever the file changes, so promotions start and stop without a restart. Without a
+// file no code is valid.
+export async function getDiscountSettings(): Promise<DiscountSettings> {
+  let mtime: number;
+
+  try {
+    mtime = (await stat(settingsPath)).mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptySettings;
+    }
+
+    throw e;
+  }
+
+  if (cached?.mtime !== mtime) {
+    const file = JSON.parse(await readFile(settingsPath, 'utf8')) as Partial<DiscountSettings>;
+    cached = { mtime, settings: { ...emptySettings, ...file } };
+  }
+
+  return cached.settings;
+}
+
+// Codes are matched whatever their case, and kept in upper case.
+export const normalizeDiscountCode = (code: string) => code.trim().toUpperCase();
+
+const isActive = (discount: Discount, now: number, usage: Map<string, number>) =>
+  (!discount.startsAt || Date.parse(discount.startsAt) <= now) &&
+  (!discount.endsAt || now < Date.parse(discount.endsAt)) &&
+  (!discount.code ||
+    discount.usageLimit === undefined ||
+    (usage.get(normalizeDiscountCode(discount.code)) || 0) < discount.usageLimit);
+
+// Whether any of `codes` has a usage limit, so orders only need counting for carts with one.
+export async function hasUsageLimit(codes: string[]): Promise<boolean> {
+  const { discounts } = await getDiscountSettings();
+  const normalized = codes.map(normalizeDiscountCode);
+
+  return discounts.some(
+    (discount) =>
+      discount.code &&
+      discount.usageLimit !== undefined &&
+      normalized.includes(normalizeDiscountCode(discount.code))
+  );
+}
+
+// The codes among `codes` that as many orders have used as their `usageLimit` allows.
+export async function getUsedUpDiscountCodes(
+  codes: string[],
+  usage: Map<string, number>
+): Promise<string[]> {
+  const { discounts } = await getDiscountSettings();
+
+  return codes
+    .map(normalizeDiscountCode)
+    .filter((code) =>
+      discounts.some(
+        (discount) =>
+          discount.code &&
+          normalizeDiscountCode(discount.code) === code &&
+          discount.usageLimit !== undefined &&
+          (usage.get(code) || 0) >= discount.usageLimit
+      )
+    );
+}
+
+// How many cents `discount` takes off each line, given what is left of each line's amount.
+async function getDiscountedCents(
+  discount: Discount,
+  remaining: number[],
+  lines: DiscountableLine[],
+  convert: (amount: string) => Promise<number>
+): Promise<number[]> {
+  const percentage = discount.percentage ?? (discount.type === 'buyXGetY' ? 100 : 0);
+
+  if (discount.type === 'percentage') {
+    return remaining.map((cents) => Math.round((cents * percentage) / 100));
+  }
+
+  if (discount.type === 'fixedAmount') {
+    const total = remaining.reduce((sum, cents) => sum + cents, 0);
+    const amount = Math.min(discount.amount ? await convert(discount.amount) : 0, total);
+    let allocated = 0;
+
+    // Split in proportion to the lines' amounts; the last line takes what rounding leaves over.
+    return remaining.map((cents, index) => {
+      const share =
+        index === remaining.length - 1 ? amount - allocated : Math.round((amount * cents) / total);
+      allocated += share;
+      return share;
+    });
+  }
+
+  const buyQuantity = discount.buyQuantity || 1;
+  const getQuantity = discount.getQuantity || 1;
+  const units = lines
+    .flatMap((line, index) =>
+      Array.from({ length: line.quantity }, () => ({
+        index,
+        cents: remaining[index]! / line.quantity
+      }))
+    )
+    .sort((a, b) => b.cents - a.cents);
+  const discountedUnits = Math.floor(units.length / (buyQuantity + getQuantity)) * getQuantity;
+  const discounted = remaining.map(() => 0);
+
+  for (const unit of units.slice(units.length - discountedUnits)) {
+    discounted[unit.index]! += (unit.cents * percentage) / 100;
+  }
+
+  return discounted.map(Math.round);
+}
+
+// Applies the automatic discounts and then the entered codes, in that order. Each discount is
+// worked out on what the previous ones left of a line, so stacked discounts never take a line
+// below zero. `usage` counts the orders that used each code.
+export async function applyDiscounts(
+  lines: DiscountableLine[],
+  codes: string[],
+  currencyCode: string,
+  usage: Map<string, number>
+): Promise<DiscountResult> {
+  const settings = await getDiscountSettings();
+  const now = Date.now();
+  const convert = async (amount: string) =>
+    toCents((await toSelectedCurrency({ amount, currencyCode: settings.currencyCode })).amount);
+  const remaining = lines.map((line) => toCents(line.amount.amount));
+  const allocations: CartDiscountAllocation[][] = lines.map(() => []);
+  const applied = new Set<string>();
+  const discounts = [
+    ...settings.discounts.filter((discount) => !discount.code),
+    ...codes.flatMap((code) =>
+      settings.discounts.filter(
+        (discount) => discount.code && normalizeDiscountCode(discount.code) === code
+      )
+    )
+  ];
+
+  for (const discount of discounts) {
+    if (!isActive(discount, now, usage)) {
+      continue;
+    }
+
+    const eligible = lines.flatMap((line, index) =>
+      !discount.collections ||
+      line.collections.some((handle) => discount.collections!.includes(handle))
+        ? [index]
+        : []
+    );
+    const eligibleRemaining = eligible.map((index) => remaining[index]!);
+    const eligibleSubtotal = eligibleRemaining.reduce((sum, cents) => sum + cents, 0);
+
+    if (
+      !eligibleSubtotal ||
+      (discount.minimumSubtotal && eligibleSubtotal < (await convert(discount.minimumSubtotal)))
+    ) {
+      continue;
+    }
+
+    const cents = await getDiscountedCents(
+      discount,
+      eligibleRemaining,
+      eligible.map((index) => lines[index]!),
+      convert
+    );
+
+    eligible.forEach((index, position) => {
+      const discounted = Math.min(cents[position]!, remaining[index]!);
+
+      if (discounted > 0) {
+        remaining[index]! -= discounted;
+        allocations[index]!.push({
+          title: discount.title,
+          ...(discount.code && { code: normalizeDiscountCode(discount.code) }),
+          discountedAmount: { amount: fromCents(discounted), currencyCode }
+        });
+
+        if (discount.code) {
+          applied.add(normalizeDiscountCode(discount.code));
+        }
+      }
+    });
+  }
+
+  return {
+    lines: allocations,
+    discountCodes: codes.map((code) => ({ code, applicable: applied.has(code) }))
+  };
+}
+
+// Each discount's total over `allocations`, in the order the discounts first appear.
+export function sumDiscountAllocations(
+  allocations: CartDiscountAllocation[]
+): CartDiscountAllocation[] {
+  const totals = new Map<string, CartDiscountAllocation>();
+
+  for (const allocation of allocations) {
+    const key = allocation.code || allocation.title;
+    const total = totals.get(key);
+
+    totals.set(key, {
+      ...allocation,
+      discountedAmount: {
+        ...allocation.discountedAmount,
+        amount: fromCents(
+          toCents(allocation.discountedAmount.amount) +
+            (total ? toCents(total.discountedAmount.amount) : 0)
+        )
+      }
+    });
+  }
+
+  return [...totals.values()];
+}
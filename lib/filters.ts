@@ -0,0 +1,93 @@
+import { ProductFilter } from 'lib/shopify/types';
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+const FILTER_PREFIX = 'filter.';
+export const PRICE_PARAM = 'price';
+
+// Filters live in the URL as `filter.<name>=<value>`, repeated for several values, plus
+// `price=<min>-<max>` with either end optional, e.g. `?filter.size=Medium&price=10-30`. Any
+// name other than `available`, `vendor` and `tag` is a variant option.
+export function getFilterParam(filter: ProductFilter): [string, string] | undefined {
+  if (filter.available !== undefined) {
+    return [`${FILTER_PREFIX}available`, String(filter.available)];
+  }
+
+  if (filter.price) {
+    return [PRICE_PARAM, `${filter.price.min ?? ''}-${filter.price.max ?? ''}`];
+  }
+
+  if (filter.productVendor !== undefined) {
+    return [`${FILTER_PREFIX}vendor`, filter.productVendor];
+  }
+
+  if (filter.tag !== undefined) {
+    return [`${FILTER_PREFIX}tag`, filter.tag];
+  }
+
+  if (filter.variantOption) {
+    return [
+      `${FILTER_PREFIX}${filter.variantOption.name.toLowerCase()}`,
+      filter.variantOption.value
+    ];
+  }
+
+  return undefined;
+}
+
+function parsePrice(value: string): ProductFilter | undefined {
+  const [min, max] = value.split('-').map((bound) => (bound.trim() ? Number(bound) : undefined));
+
+  if (min === undefined && max === undefined) {
+    return undefined;
+  }
+
+  if (Number.isNaN(min) || Number.isNaN(max)) {
+    return undefined;
+  }
+
+  return { price: { min, max } };
+}
+
+function parseFilter(key: string, value: string): ProductFilter | undefined {
+  if (key === PRICE_PARAM) {
+    return parsePrice(value);
+  }
+
+  if (!key.startsWith(FILTER_PREFIX) || !value) {
+    return undefined;
+  }
+
+  const name = key.slice(FILTER_PREFIX.length);
+
+  switch (name) {
+    case 'available':
+      return { available: value === 'true' };
+    case 'vendor':
+      return { productVendor: value };
+    case 'tag':
+      return { tag: value };
+    default:
+      return name ? { variantOption: { name, value } } : undefined;
+  }
+}
+
+export function isFilterParam(key: string) {
+  return key === PRICE_PARAM || key.startsWith(FILTER_PREFIX);
+}
+
+export function parseFilters(searchParams: SearchParams | URLSearchParams = {}): ProductFilter[] {
+  const entries =
+    searchParams instanceof URLSearchParams
+      ? [...searchParams.entries()]
+      : Object.entries(searchParams).flatMap(([key, value]) =>
+          (Array.isArray(value) ? value : value === undefined ? [] : [value]).map(
+            (item) => [key, item] as const
+          )
+        );
+
+  return entries.flatMap(([key, value]) => {
+    const filter = parseFilter(key, value);
+    return filter ? [filter] : [];
+  });
+}
@@ -0,0 +1,80 @@
+import { DEFAULT_LOCALE, Locale, LOCALES } from 'lib/constants';
+import en from './messages/en.json';
+import fr from './messages/fr.json';
+
+// Set by the middleware from the URL prefix, so server code can tell which locale it renders.
+export const LOCALE_HEADER = 'x-commerce-locale';
+
+export type Messages = typeof en;
+
+// A message that depends on a number, picked with the locale's plural rules.
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// Dotted paths to every message, e.g. `'cart.empty'`.
+type MessageKey<T = Messages, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? `${Prefix}${K}`
+    : MessageKey<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type Translator = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+// Every catalog must have every message, which the type checker enforces here.
+const catalogs: Record<Locale, Messages> = { en, fr };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// Placeholders without a value are left in place, so a caller can split the message around one
+// to put an element there: `t('search.didYouMean').split('{suggestion}')`.
+export function createTranslator(locale: Locale): Translator {
+  const pluralRules = new Intl.PluralRules(locale);
+
+  return (key, values = {}) => {
+    const message = key
+      .split('.')
+      .reduce<unknown>((node, part) => (node as Record<string, unknown>)[part], catalogs[locale]);
+    const template =
+      typeof message === 'string'
+        ? message
+        : typeof values.count === 'number'
+          ? ((message as PluralMessage)[pluralRules.select(values.count)] ??
+            (message as PluralMessage).other)
+          : (message as PluralMessage).other;
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in values ? String(values[name]) : placeholder
+    );
+  };
+}
+
+// Internal paths get the locale's prefix; the default locale, external URLs and anchors don't
+// have one.
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE || !path.startsWith('/') || path.startsWith('//')) {
+    return path;
+  }
+
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+// The locale a path is in and the path without its prefix.
+export function parseLocalePath(path: string): { locale: Locale; path: string } {
+  const [, prefix] = path.split('/');
+
+  if (prefix !== DEFAULT_LOCALE && isLocale(prefix)) {
+    return { locale: prefix, path: path.slice(prefix.length + 1) || '/' };
+  }
+
+  return { locale: DEFAULT_LOCALE, path };
+}
+
+// `hreflang` alternates for a page, for `generateMetadata`. `x-default` is the unprefixed URL.
+export function getAlternates(path: string, locale: Locale) {
+  return {
+    canonical: localizePath(path, locale),
+    languages: {
+      ...Object.fromEntries(LOCALES.map((other) => [other, localizePath(path, other)])),
+      'x-default': path
+    }
+  };
+}
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { DEFAULT_LOCALE, Locale } from 'lib/constants';
+import { createTranslator, isLocale, LOCALE_HEADER, Translator } from 'lib/i18n';
+import { headers } from 'next/headers';
+
+const requestLocale = new AsyncLocalStorage<Locale>();
+
+// Renders everything read inside `callback` in `locale`, whatever the URL says. The Storefront API
+// stand-in uses this for the `@inContext` of the operation it serves.
+export function withLocale<T>(locale: Locale, callback: () => T): T {
+  return requestLocale.run(locale, callback);
+}
+
+export function getLocale(): Locale {
+  const locale = requestLocale.getStore() ?? headers().get(LOCALE_HEADER);
+
+  return isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+export function getTranslations(locale: Locale = getLocale()): Translator {
+  return createTranslator(locale);
+}
@@ -0,0 +1,22 @@
+import { Translator } from 'lib/i18n';
+import { getErrorMessage, getStockShortage } from 'lib/shopify/errors';
+
+// Variants with this many or fewer left say so on their product page.
+export const LOW_STOCK_THRESHOLD = 5;
+
+export const isLowStock = (quantityAvailable: number) =>
+  quantityAvailable > 0 && quantityAvailable <= LOW_STOCK_THRESHOLD;
+
+// What to tell a shopper whose cart or checkout couldn't go ahead: how many are left when it ran
+// short of stock, else the usual message for `error`.
+export function getStockErrorMessage(error: unknown, fallback: string, t: Translator): string {
+  const shortage = getStockShortage(error);
+
+  if (!shortage) {
+    return getErrorMessage(error, fallback, t);
+  }
+
+  return shortage.quantityAvailable > 0
+    ? t('cart.errors.notEnoughStock', { count: shortage.quantityAvailable, title: shortage.title })
+    : t('cart.errors.soldOut', { title: shortage.title });
+}
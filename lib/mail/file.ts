@@ -0,0 +1,25 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { toMime } from './mime';
+import { MailMessage, MailTransport } from './types';
+
+// Keeps mail instead of sending it, for development: every message is an `.eml` file any mail
+// client opens, in `COMMERCE_MAIL_DIR` or else the store's `mail` directory.
+const mailDir = path.resolve(
+  process.cwd(),
+  process.env.COMMERCE_MAIL_DIR || path.join(process.env.COMMERCE_STORE_DIR || '.commerce', 'mail')
+);
+
+async function send(message: Required<MailMessage>): Promise<void> {
+  // Named by time, so a directory listing reads oldest first.
+  const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+
+  await mkdir(mailDir, { recursive: true });
+  await writeFile(path.join(mailDir, name), toMime(message));
+}
+
+export const fileTransport: MailTransport = {
+  name: 'file',
+  send
+};
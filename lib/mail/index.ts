@@ -0,0 +1,16 @@
+import { fileTransport } from './file';
+import { smtpTransport } from './smtp';
+import { MailMessage } from './types';
+
+// `COMMERCE_MAIL_TRANSPORT=smtp` sends mail to an SMTP server, anything else keeps it in files.
+export const mailTransport =
+  process.env.COMMERCE_MAIL_TRANSPORT === 'smtp' ? smtpTransport : fileTransport;
+
+const defaultFrom = `${process.env.SITE_NAME || 'Store'} <noreply@localhost>`;
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await mailTransport.send({
+    ...message,
+    from: message.from || process.env.COMMERCE_MAIL_FROM || defaultFrom
+  });
+}
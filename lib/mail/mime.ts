@@ -0,0 +1,38 @@
+import { randomUUID } from 'crypto';
+import { MailMessage } from './types';
+
+// Headers may only hold ASCII, so anything else is sent as an RFC 2047 encoded word.
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+// The bare address in `Name <address>`, or the whole value when it is just an address.
+export const getAddress = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+// Encodes a mailbox's display name, leaving its address readable.
+const encodeMailbox = (mailbox: string) => {
+  const name = mailbox.match(/^(.*?)\s*<[^>]+>$/)?.[1];
+
+  return name ? `${encodeHeader(name)} <${getAddress(mailbox)}>` : mailbox;
+};
+
+// The message as RFC 5322 text, with CRLF line endings. The body is base64, so it goes through
+// any server whatever its characters.
+export function toMime({ from, to, subject, text }: Required<MailMessage>): string {
+  const domain = getAddress(from).split('@')[1] || 'localhost';
+  const body = Buffer.from(text.replace(/\r?\n/g, '\r\n'))
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${encodeMailbox(from)}`,
+    `To: ${encodeMailbox(to)}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
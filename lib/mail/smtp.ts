@@ -0,0 +1,85 @@
+import { connect, Socket } from 'net';
+import { getAddress, toMime } from './mime';
+import { MailMessage, MailTransport } from './types';
+
+// Hands mail to an SMTP server at `SMTP_HOST:SMTP_PORT`. It speaks plain SMTP without TLS or
+// authentication, which is what local capture servers such as Mailpit or MailHog
+// (`localhost:1025`) expect.
+const host = process.env.SMTP_HOST || 'localhost';
+const port = Number(process.env.SMTP_PORT) || 1025;
+
+// How long the server may take to answer, in milliseconds.
+const TIMEOUT = 10000;
+
+// Reads the server's replies one at a time. A reply can span several lines, `250-...` up to the
+// final `250 ...`.
+function createReader(socket: Socket) {
+  let buffer = '';
+  let waiting: (() => void) | undefined;
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    waiting?.();
+  });
+
+  return (expected: number) =>
+    new Promise<void>((resolve, reject) => {
+      const check = () => {
+        const match = buffer.match(/^(?:\d{3}-[^\n]*\n)*(\d{3})(?: [^\n]*)?\r?\n/);
+
+        if (!match) {
+          return;
+        }
+
+        waiting = undefined;
+        buffer = buffer.slice(match[0].length);
+
+        if (Number(match[1]) === expected) {
+          resolve();
+        } else {
+          reject(new Error(`SMTP server answered: ${match[0].trim()}`));
+        }
+      };
+
+      waiting = check;
+      check();
+    });
+}
+
+async function send(message: Required<MailMessage>): Promise<void> {
+  const socket = connect(port, host);
+  const failed = new Promise<never>((_, reject) => {
+    socket.setTimeout(TIMEOUT, () => reject(new Error('SMTP server timed out.')));
+    socket.on('error', reject);
+  });
+  const read = createReader(socket);
+  const command = (line: string, expected: number) => {
+    socket.write(`${line}\r\n`);
+    return read(expected);
+  };
+  // Lines starting with a dot get another, so none of them ends the message early.
+  const data = toMime(message).replace(/^\./gm, '..');
+
+  try {
+    await Promise.race([
+      (async () => {
+        await read(220);
+        await command('EHLO localhost', 250);
+        await command(`MAIL FROM:<${getAddress(message.from)}>`, 250);
+        await command(`RCPT TO:<${getAddress(message.to)}>`, 250);
+        await command('DATA', 354);
+        await command(`${data}\r\n.`, 250);
+        await command('QUIT', 221);
+      })(),
+      failed
+    ]);
+  } finally {
+    socket.destroy();
+  }
+}
+
+export const smtpTransport: MailTransport = {
+  name: 'smtp',
+  send
+};
@@ -0,0 +1,14 @@
+// A plain-text email. `from` is filled in from `COMMERCE_MAIL_FROM` when left out.
+export type MailMessage = {
+  from?: string;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Where outgoing mail goes. Calls throw when the message couldn't be handed over, so the caller
+// can keep it to try again.
+export type MailTransport = {
+  name: string;
+  send(message: Required<MailMessage>): Promise<void>;
+};
@@ -0,0 +1,43 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { readRecord, withRecordLock, writeRecord } from 'lib/store';
+
+const SECRETS = 'secrets';
+
+// The key order links are signed with. Without `COMMERCE_ORDER_SECRET` one is generated on first
+// use and kept in the store, so links keep working across restarts.
+async function getOrderSecret(): Promise<string> {
+  if (process.env.COMMERCE_ORDER_SECRET) {
+    return process.env.COMMERCE_ORDER_SECRET;
+  }
+
+  return withRecordLock(SECRETS, 'orders', async () => {
+    const stored = await readRecord<{ secret: string }>(SECRETS, 'orders');
+
+    if (stored) {
+      return stored.secret;
+    }
+
+    return (await writeRecord(SECRETS, 'orders', { secret: randomBytes(32).toString('hex') }))
+      .secret;
+  });
+}
+
+const sign = (secret: string, orderId: string) =>
+  createHmac('sha256', secret).update(orderId).digest('base64url');
+
+// The token that opens the order's page. Anyone with the link can see the order, as with a
+// Shopify order status link, so it only goes to the shopper.
+export async function getOrderToken(orderId: string): Promise<string> {
+  return sign(await getOrderSecret(), orderId);
+}
+
+export async function verifyOrderToken(orderId: string, token: string): Promise<boolean> {
+  const expected = Buffer.from(await getOrderToken(orderId));
+  const actual = Buffer.from(token);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export async function getOrderPath(orderId: string): Promise<string> {
+  return `/orders/${orderId}?token=${await getOrderToken(orderId)}`;
+}
@@ -0,0 +1,79 @@
+import { OrderPayment } from 'lib/shopify/types';
+import { toCents } from 'lib/utils';
+import { mockGateway } from './mock';
+import { stripeGateway } from './stripe';
+import { Payment, PaymentGateway } from './types';
+
+// Stands in for the gateway when none is configured, so card payments fail with a reason instead
+// of going through the mock.
+const fail = (): never => {
+  throw new Error(
+    'No payment gateway is configured. Set COMMERCE_PAYMENT_GATEWAY to `stripe`, or to `mock` ' +
+      'to take test cards.'
+  );
+};
+
+const unconfiguredGateway: PaymentGateway = {
+  name: 'unconfigured',
+  authorize: async () => fail(),
+  getPayment: async () => fail(),
+  capture: async () => fail(),
+  refund: async () => fail(),
+  void: async () => fail(),
+  verifyWebhook: async () => fail()
+};
+
+// `COMMERCE_PAYMENT_GATEWAY=stripe` charges cards through the Stripe API and `mock` through the
+// mock processor. Without it, the mock is only used outside production, so a deployment that
+// forgot to set it can't take orders paid with test cards.
+function selectGateway(): PaymentGateway {
+  switch (process.env.COMMERCE_PAYMENT_GATEWAY) {
+    case 'stripe':
+      return stripeGateway;
+    case 'mock':
+      return mockGateway;
+    case undefined:
+    case '':
+      return process.env.NODE_ENV === 'production' ? unconfiguredGateway : mockGateway;
+    default:
+      return unconfiguredGateway;
+  }
+}
+
+export const paymentGateway: PaymentGateway = selectGateway();
+
+// The payment waiting for the challenge at `/payments/mock/<id>`, when the mock is the gateway in
+// use and the payment is for `cartId`, so nobody else can see or answer it.
+export async function getMockChallenge(
+  id: string,
+  cartId: string | undefined
+): Promise<Payment | undefined> {
+  if (paymentGateway !== mockGateway || !cartId) {
+    return undefined;
+  }
+
+  const payment = await mockGateway.getPayment(id);
+
+  return payment?.status === 'requiresAction' && payment.reference === cartId ? payment : undefined;
+}
+
+// What the successful transactions on an order's payment come to, in cents.
+export function getPaymentTotals(payment: OrderPayment): {
+  authorized: boolean;
+  captured: number;
+  refunded: number;
+  voided: boolean;
+} {
+  const successful = payment.transactions.filter((transaction) => transaction.status === 'success');
+  const sum = (kind: string) =>
+    successful
+      .filter((transaction) => transaction.kind === kind)
+      .reduce((total, transaction) => total + toCents(transaction.amount.amount), 0);
+
+  return {
+    authorized: successful.some((transaction) => transaction.kind === 'authorization'),
+    captured: sum('capture'),
+    refunded: sum('refund'),
+    voided: successful.some((transaction) => transaction.kind === 'void')
+  };
+}
@@ -0,0 +1,217 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { CommerceNotFoundError, CommerceUserError } from 'lib/shopify/errors';
+import { Money } from 'lib/shopify/types';
+import { readRecord, withRecordLock, writeRecord } from 'lib/store';
+import { isObject } from 'lib/type-guards';
+import { fromCents, toCents } from 'lib/utils';
+import { AuthorizeInput, Payment, PaymentCard, PaymentEvent, PaymentGateway } from './types';
+
+// A stand-in processor for development. Payments live in the store and cards behave like Stripe's
+// test cards: these numbers are declined with the code given, or `challenge`d as 3-D Secure would
+// before they are authorized, and any other valid number is authorized straight away.
+export const MOCK_TEST_CARDS: Record<string, string> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000000000000127': 'incorrect_cvc',
+  '4000000000003220': 'challenge'
+};
+
+const PAYMENTS = 'payments';
+
+type StoredPayment = Payment & { returnUrl: string };
+
+// The Luhn checksum every card number ends with.
+function isValidCardNumber(number: string): boolean {
+  if (!/^\d{12,19}$/.test(number)) {
+    return false;
+  }
+
+  const sum = [...number].reverse().reduce((total, digit, index) => {
+    const value = Number(digit) * (index % 2 ? 2 : 1);
+    return total + (value > 9 ? value - 9 : value);
+  }, 0);
+
+  return sum % 10 === 0;
+}
+
+const isExpired = (card: PaymentCard, now = new Date()) =>
+  card.expiryYear < now.getFullYear() ||
+  (card.expiryYear === now.getFullYear() && card.expiryMonth < now.getMonth() + 1);
+
+function getDeclineCode(card: PaymentCard): string | undefined {
+  if (!isValidCardNumber(card.number)) {
+    return 'incorrect_number';
+  }
+
+  if (isExpired(card)) {
+    return 'expired_card';
+  }
+
+  const outcome = MOCK_TEST_CARDS[card.number];
+
+  return outcome === 'challenge' ? undefined : outcome;
+}
+
+const toPayment = ({ returnUrl, ...payment }: StoredPayment): Payment => payment;
+
+async function updatePayment(
+  id: string,
+  operation: string,
+  update: (payment: StoredPayment) => StoredPayment
+): Promise<StoredPayment> {
+  return withRecordLock(PAYMENTS, id, async () => {
+    const payment = await readRecord<StoredPayment>(PAYMENTS, id);
+
+    if (!payment) {
+      throw new CommerceNotFoundError(`Payment '${id}' not found.`, {
+        operation,
+        meta: { paymentId: id }
+      });
+    }
+
+    return writeRecord(PAYMENTS, id, update(payment));
+  });
+}
+
+function assertStatus(payment: Payment, statuses: Payment['status'][], operation: string) {
+  if (!statuses.includes(payment.status)) {
+    throw new CommerceUserError(`A ${payment.status} payment can't be changed this way.`, {
+      operation,
+      meta: { paymentId: payment.id, status: payment.status }
+    });
+  }
+}
+
+// Caps `amount` at `limit`, both in the payment's currency; no amount means all of `limit`.
+const getCents = (limit: number, amount?: Money) =>
+  Math.min(amount ? toCents(amount.amount) : limit, limit);
+
+async function authorize({ amount, card, reference, returnUrl }: AuthorizeInput): Promise<Payment> {
+  const id = `pay_${randomUUID().replace(/-/g, '')}`;
+  const declineCode = getDeclineCode(card);
+  const challenged = !declineCode && MOCK_TEST_CARDS[card.number] === 'challenge';
+  const zero = { amount: fromCents(0), currencyCode: amount.currencyCode };
+  const payment = await writeRecord<StoredPayment>(PAYMENTS, id, {
+    id,
+    status: declineCode ? 'declined' : challenged ? 'requiresAction' : 'authorized',
+    amount,
+    capturedAmount: zero,
+    refundedAmount: zero,
+    reference,
+    ...(declineCode && { declineCode }),
+    ...(challenged && { actionUrl: `/payments/mock/${id}` }),
+    returnUrl
+  });
+
+  return toPayment(payment);
+}
+
+async function getPayment(id: string): Promise<Payment | undefined> {
+  const payment = await readRecord<StoredPayment>(PAYMENTS, id);
+
+  return payment && toPayment(payment);
+}
+
+async function capture(id: string, amount?: Money): Promise<Payment> {
+  const payment = await updatePayment(id, 'capture', (payment) => {
+    assertStatus(payment, ['authorized'], 'capture');
+
+    return {
+      ...payment,
+      status: 'captured',
+      capturedAmount: {
+        ...payment.amount,
+        amount: fromCents(getCents(toCents(payment.amount.amount), amount))
+      }
+    };
+  });
+
+  return toPayment(payment);
+}
+
+async function refund(id: string, amount?: Money): Promise<Payment> {
+  const payment = await updatePayment(id, 'refund', (payment) => {
+    assertStatus(payment, ['captured', 'partiallyRefunded'], 'refund');
+
+    const captured = toCents(payment.capturedAmount.amount);
+    const refunded =
+      toCents(payment.refundedAmount.amount) +
+      getCents(captured - toCents(payment.refundedAmount.amount), amount);
+
+    return {
+      ...payment,
+      status: refunded >= captured ? 'refunded' : 'partiallyRefunded',
+      refundedAmount: { ...payment.refundedAmount, amount: fromCents(refunded) }
+    };
+  });
+
+  return toPayment(payment);
+}
+
+async function voidPayment(id: string): Promise<Payment> {
+  const payment = await updatePayment(id, 'void', (payment) => {
+    assertStatus(payment, ['authorized', 'requiresAction'], 'void');
+
+    return { ...payment, status: 'voided' };
+  });
+
+  return toPayment(payment);
+}
+
+// Settles a challenge the way the shopper answered it on the mock's challenge page, and returns
+// where to send them next.
+export async function completeMockChallenge(id: string, passed: boolean): Promise<string> {
+  const payment = await updatePayment(id, 'completeChallenge', (payment) => {
+    assertStatus(payment, ['requiresAction'], 'completeChallenge');
+
+    const { actionUrl, ...rest } = payment;
+
+    return passed
+      ? { ...rest, status: 'authorized' }
+      : { ...rest, status: 'declined', declineCode: 'authentication_failed' };
+  });
+
+  return `${payment.returnUrl}${payment.returnUrl.includes('?') ? '&' : '?'}payment=${id}`;
+}
+
+// Mock webhooks are `{"type": "captured", "paymentId": "pay_..."}`, signed with a hex HMAC-SHA256
+// of the body in `X-Mock-Signature`. The payment itself is read from the store.
+async function verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent | undefined> {
+  const secret = process.env.COMMERCE_PAYMENT_WEBHOOK_SECRET;
+  const expected = Buffer.from(
+    secret ? createHmac('sha256', secret).update(body).digest('hex') : ''
+  );
+  const actual = Buffer.from(headers.get('x-mock-signature') || '');
+
+  if (!secret || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new CommerceUserError('Invalid webhook signature.', { operation: 'verifyWebhook' });
+  }
+
+  let event: { type: PaymentEvent['type']; paymentId: string };
+
+  try {
+    event = JSON.parse(body);
+  } catch (e) {
+    throw new CommerceUserError('Invalid webhook body.', { operation: 'verifyWebhook', cause: e });
+  }
+
+  if (!isObject(event) || typeof event.paymentId !== 'string') {
+    throw new CommerceUserError('Invalid webhook body.', { operation: 'verifyWebhook' });
+  }
+
+  const { type, paymentId } = event;
+  const payment = await getPayment(paymentId);
+
+  return payment && { type, payment };
+}
+
+export const mockGateway: PaymentGateway = {
+  name: 'mock',
+  authorize,
+  getPayment,
+  capture,
+  refund,
+  void: voidPayment,
+  verifyWebhook
+};
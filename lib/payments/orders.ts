@@ -0,0 +1,97 @@
+import { getPaymentTotals, paymentGateway } from 'lib/payments';
+import { addPaymentTransaction, completeCheckout, getOrder } from 'lib/shopify';
+import { Money, Order, PaymentTransaction } from 'lib/shopify/types';
+import { fromCents, toCents } from 'lib/utils';
+import { Payment, PaymentEvent } from './types';
+
+const toTransaction = (
+  kind: PaymentTransaction['kind'],
+  amount: Money,
+  status: PaymentTransaction['status'] = 'success',
+  errorCode?: string
+): PaymentTransaction => ({
+  kind,
+  status,
+  amount,
+  ...(errorCode && { errorCode }),
+  createdAt: new Date().toISOString()
+});
+
+// Takes the payment the order was placed with. A capture that fails leaves the order authorized,
+// with the failure on record, to be captured again later.
+export async function capturePayment(order: Order): Promise<Order> {
+  if (!order.payment) {
+    return order;
+  }
+
+  try {
+    const payment = await paymentGateway.capture(order.payment.id);
+
+    return addPaymentTransaction(order.id, toTransaction('capture', payment.capturedAmount));
+  } catch (e) {
+    console.error(e);
+
+    return addPaymentTransaction(
+      order.id,
+      toTransaction('capture', order.payment.amount, 'failure', 'capture_failed')
+    );
+  }
+}
+
+// Places the order for a cart once its card payment is authorized, then takes the payment. An
+// authorization the order can't be placed with, e.g. because the cart changed in another tab, is
+// voided so the shopper isn't left with money held for nothing.
+export async function completeCardCheckout(cartId: string, payment: Payment): Promise<Order> {
+  let order: Order;
+
+  try {
+    order = await completeCheckout(cartId, {
+      gateway: paymentGateway.name,
+      id: payment.id,
+      amount: payment.amount,
+      transactions: [toTransaction('authorization', payment.amount)]
+    });
+  } catch (e) {
+    await paymentGateway.void(payment.id).catch((error) => console.error(error));
+    throw e;
+  }
+
+  return capturePayment(order);
+}
+
+// Brings an order up to date with a change its gateway reported, e.g. a refund made from the
+// gateway's dashboard. Events can arrive more than once, and for changes checkout made itself, so
+// only what the order doesn't know about yet is recorded. Authorizations and declines are settled
+// before an order exists, so they have nothing to update.
+export async function recordPaymentEvent({
+  type,
+  payment
+}: PaymentEvent): Promise<Order | undefined> {
+  const order = payment.reference ? await getOrder(payment.reference) : undefined;
+
+  if (!order?.payment || order.payment.id !== payment.id) {
+    return undefined;
+  }
+
+  const totals = getPaymentTotals(order.payment);
+  const toMoney = (cents: number): Money => ({
+    amount: fromCents(cents),
+    currencyCode: payment.amount.currencyCode
+  });
+  const captured = toCents(payment.capturedAmount.amount) - totals.captured;
+  const refunded = toCents(payment.refundedAmount.amount) - totals.refunded;
+
+  if (type === 'captured' && captured > 0) {
+    return addPaymentTransaction(order.id, toTransaction('capture', toMoney(captured)));
+  }
+
+  if (type === 'refunded' && refunded > 0) {
+    return addPaymentTransaction(order.id, toTransaction('refund', toMoney(refunded)));
+  }
+
+  if (type === 'voided' && !totals.voided && !totals.captured) {
+    return addPaymentTransaction(order.id, toTransaction('void', order.payment.amount));
+  }
+
+  return order;
+}
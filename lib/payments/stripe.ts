@@ -0,0 +1,294 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CommerceNetworkError, CommerceUserError } from 'lib/shopify/errors';
+import { Money } from 'lib/shopify/types';
+import { isObject } from 'lib/type-guards';
+import { AuthorizeInput, Payment, PaymentEvent, PaymentGateway, PaymentStatus } from './types';
+
+// Charges through Stripe's PaymentIntents API. `STRIPE_API_BASE` points it at anything that speaks
+// that API instead, such as stripe-mock (`http://localhost:12111`) during development.
+const apiBase = (process.env.STRIPE_API_BASE || 'https://api.stripe.com').replace(/\/$/, '');
+
+// How old a webhook's signature may be before it is treated as a replay, in seconds.
+const WEBHOOK_TOLERANCE = 300;
+
+// Currencies Stripe counts in whole units rather than hundredths.
+const ZERO_DECIMAL_CURRENCIES = ['BIF', 'CLP', 'JPY', 'KRW', 'PYG', 'VND', 'XAF', 'XOF'];
+
+const toMinorUnits = ({ amount, currencyCode }: Money) =>
+  Math.round(Number(amount) * (ZERO_DECIMAL_CURRENCIES.includes(currencyCode) ? 1 : 100));
+
+const fromMinorUnits = (units: number, currencyCode: string): Money => ({
+  amount: (units / (ZERO_DECIMAL_CURRENCIES.includes(currencyCode) ? 1 : 100)).toFixed(2),
+  currencyCode
+});
+
+type StripeCharge = {
+  object: 'charge';
+  payment_intent: string;
+  amount_refunded: number;
+};
+
+type StripePaymentIntent = {
+  object: 'payment_intent';
+  id: string;
+  status:
+    | 'requires_payment_method'
+    | 'requires_confirmation'
+    | 'requires_action'
+    | 'processing'
+    | 'requires_capture'
+    | 'succeeded'
+    | 'canceled';
+  amount: number;
+  amount_received: number;
+  currency: string;
+  metadata: { reference?: string };
+  last_payment_error?: { code?: string; decline_code?: string } | null;
+  next_action?: { redirect_to_url?: { url: string } } | null;
+  latest_charge?: StripeCharge | string | null;
+};
+
+type StripeError = {
+  error: { type: string; message: string; code?: string; payment_intent?: StripePaymentIntent };
+};
+
+function getStatus(intent: StripePaymentIntent, refunded: number): PaymentStatus {
+  switch (intent.status) {
+    case 'requires_action':
+      return 'requiresAction';
+    case 'requires_capture':
+      return 'authorized';
+    case 'succeeded':
+      return !refunded
+        ? 'captured'
+        : refunded >= intent.amount_received
+          ? 'refunded'
+          : 'partiallyRefunded';
+    case 'canceled':
+      return 'voided';
+    default:
+      return 'declined';
+  }
+}
+
+function toPayment(intent: StripePaymentIntent): Payment {
+  const currencyCode = intent.currency.toUpperCase();
+  const refunded =
+    typeof intent.latest_charge === 'object' ? intent.latest_charge?.amount_refunded || 0 : 0;
+  const status = getStatus(intent, refunded);
+  const error = intent.last_payment_error;
+
+  return {
+    id: intent.id,
+    status,
+    amount: fromMinorUnits(intent.amount, currencyCode),
+    capturedAmount: fromMinorUnits(intent.amount_received, currencyCode),
+    refundedAmount: fromMinorUnits(refunded, currencyCode),
+    reference: intent.metadata.reference || '',
+    ...(status === 'declined' && {
+      declineCode: error?.decline_code || error?.code || 'card_declined'
+    }),
+    ...(intent.next_action?.redirect_to_url && {
+      actionUrl: intent.next_action.redirect_to_url.url
+    })
+  };
+}
+
+async function stripeFetch<T>(
+  operation: string,
+  path: string,
+  params?: Record<string, string | number | undefined>
+): Promise<T> {
+  const body = params
+    ? new URLSearchParams(
+        Object.entries(params).flatMap(([key, value]) =>
+          value === undefined ? [] : [[key, String(value)]]
+        )
+      )
+    : undefined;
+  let res: Response;
+
+  try {
+    res = await fetch(`${apiBase}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        Authorization: `Bearer ${process.env.STRIPE_SECRET_KEY || ''}`,
+        ...(body && { 'Content-Type': 'application/x-www-form-urlencoded' })
+      },
+      body,
+      cache: 'no-store'
+    });
+  } catch (e) {
+    throw new CommerceNetworkError('Stripe could not be reached.', { operation, cause: e });
+  }
+
+  let json: unknown;
+
+  try {
+    json = await res.json();
+  } catch (e) {
+    // Proxies and outages can answer with an HTML page, or nothing at all.
+    throw new CommerceNetworkError(`Stripe answered ${res.status} without JSON.`, {
+      operation,
+      meta: { status: res.status },
+      cause: e
+    });
+  }
+
+  if (res.ok) {
+    return json as T;
+  }
+
+  if (!isObject(json) || !isObject(json.error)) {
+    throw new CommerceNetworkError(`Stripe answered ${res.status} without an error.`, {
+      operation,
+      meta: { status: res.status }
+    });
+  }
+
+  const { error } = json as StripeError;
+
+  // A declined card is an error to Stripe, but the payment it made is the answer to us.
+  if (error.type === 'card_error' && error.payment_intent) {
+    return error.payment_intent as T;
+  }
+
+  const options = { status: res.status, operation, meta: { type: error.type, code: error.code } };
+
+  throw res.status >= 500
+    ? new CommerceNetworkError(error.message, options)
+    : new CommerceUserError(error.message, options);
+}
+
+// Expanding the charge is what tells a refunded payment from a captured one.
+const EXPAND = { 'expand[]': 'latest_charge' };
+
+async function authorize({ amount, card, reference, returnUrl }: AuthorizeInput): Promise<Payment> {
+  const intent = await stripeFetch<StripePaymentIntent>('authorize', '/v1/payment_intents', {
+    amount: toMinorUnits(amount),
+    currency: amount.currencyCode.toLowerCase(),
+    capture_method: 'manual',
+    confirm: 'true',
+    'payment_method_data[type]': 'card',
+    'payment_method_data[card][number]': card.number,
+    'payment_method_data[card][exp_month]': card.expiryMonth,
+    'payment_method_data[card][exp_year]': card.expiryYear,
+    'payment_method_data[card][cvc]': card.cvc,
+    'payment_method_data[billing_details][name]': card.name,
+    'metadata[reference]': reference,
+    return_url: returnUrl
+  });
+
+  return toPayment(intent);
+}
+
+async function getPayment(id: string): Promise<Payment | undefined> {
+  try {
+    return toPayment(
+      await stripeFetch<StripePaymentIntent>(
+        'getPayment',
+        `/v1/payment_intents/${encodeURIComponent(id)}?${new URLSearchParams(EXPAND)}`
+      )
+    );
+  } catch (e) {
+    if (e instanceof CommerceUserError && e.status === 404) {
+      return undefined;
+    }
+
+    throw e;
+  }
+}
+
+async function capture(id: string, amount?: Money): Promise<Payment> {
+  const intent = await stripeFetch<StripePaymentIntent>(
+    'capture',
+    `/v1/payment_intents/${encodeURIComponent(id)}/capture`,
+    { amount_to_capture: amount && toMinorUnits(amount), ...EXPAND }
+  );
+
+  return toPayment(intent);
+}
+
+async function refund(id: string, amount?: Money): Promise<Payment> {
+  await stripeFetch('refund', '/v1/refunds', {
+    payment_intent: id,
+    amount: amount && toMinorUnits(amount)
+  });
+
+  return (await getPayment(id))!;
+}
+
+async function voidPayment(id: string): Promise<Payment> {
+  const intent = await stripeFetch<StripePaymentIntent>(
+    'void',
+    `/v1/payment_intents/${encodeURIComponent(id)}/cancel`,
+    EXPAND
+  );
+
+  return toPayment(intent);
+}
+
+const EVENT_TYPES: Record<string, PaymentEvent['type']> = {
+  'payment_intent.amount_capturable_updated': 'authorized',
+  'payment_intent.payment_failed': 'declined',
+  'payment_intent.succeeded': 'captured',
+  'payment_intent.canceled': 'voided',
+  'charge.refunded': 'refunded'
+};
+
+// Checks the `Stripe-Signature` header (`t=<timestamp>,v1=<signature>,...`) the way Stripe's
+// libraries do: an HMAC-SHA256 of `<timestamp>.<body>` with the endpoint's signing secret.
+async function verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent | undefined> {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  const parts = (headers.get('stripe-signature') || '').split(',').map((part) => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const expected = Buffer.from(
+    secret ? createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex') : ''
+  );
+  const valid =
+    !!secret &&
+    Math.abs(Date.now() / 1000 - timestamp) <= WEBHOOK_TOLERANCE &&
+    parts.some(([key, value = '']) => {
+      const actual = Buffer.from(value);
+      return key === 'v1' && actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+
+  if (!valid) {
+    throw new CommerceUserError('Invalid webhook signature.', { operation: 'verifyWebhook' });
+  }
+
+  let event: { type: string; data: { object: StripePaymentIntent | StripeCharge } };
+
+  try {
+    event = JSON.parse(body);
+  } catch (e) {
+    throw new CommerceUserError('Invalid webhook body.', { operation: 'verifyWebhook', cause: e });
+  }
+
+  if (!isObject(event) || !isObject(event.data) || !isObject(event.data.object)) {
+    throw new CommerceUserError('Invalid webhook body.', { operation: 'verifyWebhook' });
+  }
+
+  const type = EVENT_TYPES[event.type];
+
+  if (!type) {
+    return undefined;
+  }
+
+  // Refunds arrive as charges, so their payment is fetched to have all of it.
+  const { object } = event.data;
+  const payment =
+    object.object === 'charge' ? await getPayment(object.payment_intent) : toPayment(object);
+
+  return payment && { type, payment };
+}
+
+export const stripeGateway: PaymentGateway = {
+  name: 'stripe',
+  authorize,
+  getPayment,
+  capture,
+  refund,
+  void: voidPayment,
+  verifyWebhook
+};
@@ -0,0 +1,66 @@
+import { Money } from 'lib/shopify/types';
+
+// Card details as the shopper typed them. They go straight to the gateway and are never stored.
+export type PaymentCard = {
+  number: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cvc: string;
+  name?: string;
+};
+
+// `requiresAction` payments wait for the shopper to pass a challenge, e.g. 3-D Secure, at
+// `actionUrl`. `declined` ones were refused and can't be retried; a new payment has to be made.
+export type PaymentStatus =
+  | 'requiresAction'
+  | 'authorized'
+  | 'captured'
+  | 'partiallyRefunded'
+  | 'refunded'
+  | 'voided'
+  | 'declined';
+
+export type Payment = {
+  id: string;
+  status: PaymentStatus;
+  amount: Money;
+  capturedAmount: Money;
+  refundedAmount: Money;
+  // What the payment is for, as given to `authorize`.
+  reference: string;
+  // Why the payment was declined, e.g. `card_declined` or `insufficient_funds`.
+  declineCode?: string;
+  actionUrl?: string;
+};
+
+export type AuthorizeInput = {
+  amount: Money;
+  card: PaymentCard;
+  reference: string;
+  // Where the shopper comes back to after a challenge, with `?payment=<id>` added.
+  returnUrl: string;
+};
+
+// A change to a payment the gateway told us about.
+export type PaymentEvent = {
+  type: 'authorized' | 'declined' | 'captured' | 'refunded' | 'voided';
+  payment: Payment;
+};
+
+// What checkout needs from a payment processor. Declines are payments with a `declined` status;
+// calls throw only when the gateway can't be reached or rejects the request itself.
+export type PaymentGateway = {
+  name: string;
+  // Reserves the amount on the card without taking it.
+  authorize(input: AuthorizeInput): Promise<Payment>;
+  getPayment(id: string): Promise<Payment | undefined>;
+  // Takes `amount`, or all of what was authorized, of an authorized payment.
+  capture(id: string, amount?: Money): Promise<Payment>;
+  // Gives back `amount`, or all of what is left, of a captured payment.
+  refund(id: string, amount?: Money): Promise<Payment>;
+  // Releases an authorization that won't be captured.
+  void(id: string): Promise<Payment>;
+  // Checks a webhook's signature and reads its event, or nothing for events checkout doesn't
+  // follow. Throws when the signature is wrong.
+  verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent | undefined>;
+};
@@ -0,0 +1,296 @@
+import { randomBytes } from 'crypto';
+import { Locale } from 'lib/constants';
+import { localizePath } from 'lib/i18n';
+import { getTranslations, withLocale } from 'lib/i18n/server';
+import { sendMail } from 'lib/mail';
+import { getProduct } from 'lib/shopify';
+import { Product, ProductVariant } from 'lib/shopify/types';
+import { deleteRecord, listRecords, readRecord, withRecordLock, writeRecord } from 'lib/store';
+import { getSiteUrl } from 'lib/utils';
+
+const SUBSCRIPTIONS = 'restock-subscriptions';
+const CONFIRMATIONS = 'restock-confirmations';
+
+// How many confirmation emails one address is sent a day, however many variants it signs up for,
+// so the form can't be used to flood someone's inbox.
+const MAX_CONFIRMATIONS_PER_DAY = 5;
+// Sign-ups that weren't confirmed within this many days are dropped.
+const CONFIRMATION_DAYS = 7;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type Subscriber = {
+  email: string;
+  locale: Locale;
+  // The variant's product page, as the shopper saw it, for the email to link to.
+  url: string;
+  // How many of the variant could be bought when the shopper signed up, and then when
+  // `sendRestockNotifications` last looked. Shoppers are only emailed once it goes from none to
+  // some.
+  quantityAvailable: number;
+  // From the confirmation email's link. Nothing else is sent until the shopper has followed it.
+  token: string;
+  confirmedAt?: string;
+  createdAt: string;
+};
+
+// The shoppers waiting for one variant to be back in stock.
+type RestockSubscription = {
+  id: string;
+  merchandiseId: string;
+  productHandle: string;
+  subscribers: Subscriber[];
+};
+
+// When confirmation emails went to one address, over the last day.
+type ConfirmationLog = {
+  id: string;
+  sentAt: string[];
+};
+
+// What signing up did: sent a confirmation email, kept a sign-up that was already confirmed, or
+// nothing, because the address had been sent too many confirmations already.
+export type RestockSignUp = 'confirm' | 'subscribed' | 'limited';
+
+// Variant ids can be Shopify GIDs, and emails have `@`s, which aren't valid record ids as they are.
+const toRecordId = (value: string) => Buffer.from(value).toString('base64url');
+
+const getTitle = (product: Product, variant: ProductVariant) =>
+  product.variants.length > 1 ? `${product.title} - ${variant.title}` : product.title;
+
+// Variants whose stock isn't tracked only say whether they can be bought.
+const getQuantityAvailable = (variant: ProductVariant) =>
+  variant.availableForSale ? Math.max(variant.quantityAvailable ?? 1, 1) : 0;
+
+// Counts a confirmation email to `email` against its daily limit. Returns false, and counts
+// nothing, when the limit has been reached.
+async function takeConfirmation(email: string): Promise<boolean> {
+  const id = toRecordId(email);
+
+  return withRecordLock(CONFIRMATIONS, id, async () => {
+    const since = Date.now() - DAY;
+    const sentAt = ((await readRecord<ConfirmationLog>(CONFIRMATIONS, id))?.sentAt || []).filter(
+      (date) => Date.parse(date) > since
+    );
+
+    if (sentAt.length >= MAX_CONFIRMATIONS_PER_DAY) {
+      return false;
+    }
+
+    await writeRecord<ConfirmationLog>(CONFIRMATIONS, id, {
+      id,
+      sentAt: [...sentAt, new Date().toISOString()]
+    });
+
+    return true;
+  });
+}
+
+async function sendConfirmation(
+  subscription: RestockSubscription,
+  subscriber: Subscriber,
+  title: string
+): Promise<void> {
+  const t = getTranslations(subscriber.locale);
+  const params = new URLSearchParams({ subscription: subscription.id, token: subscriber.token });
+
+  await sendMail({
+    to: subscriber.email,
+    subject: t('restock.confirmEmail.subject', { title }),
+    text: t('restock.confirmEmail.body', {
+      title,
+      url: `${getSiteUrl()}${localizePath(`/restock/confirm?${params}`, subscriber.locale)}`
+    })
+  });
+}
+
+// Signs `email` up to hear when the variant can be bought again, once they confirm it from the
+// email this sends. Signing up again keeps the latest locale and link, and sends the confirmation
+// again while it hasn't been followed.
+export async function subscribeToRestock({
+  product,
+  variant,
+  ...details
+}: {
+  product: Product;
+  variant: ProductVariant;
+  email: string;
+  locale: Locale;
+  url: string;
+}): Promise<RestockSignUp> {
+  const id = toRecordId(variant.id);
+
+  return withRecordLock(SUBSCRIPTIONS, id, async () => {
+    const stored = await readRecord<RestockSubscription>(SUBSCRIPTIONS, id);
+    const existing = stored?.subscribers.find((other) => other.email === details.email);
+    const subscriber: Subscriber = {
+      token: randomBytes(16).toString('base64url'),
+      createdAt: new Date().toISOString(),
+      ...existing,
+      ...details,
+      quantityAvailable: getQuantityAvailable(variant)
+    };
+    const subscription: RestockSubscription = {
+      id,
+      merchandiseId: variant.id,
+      productHandle: product.handle,
+      subscribers: [
+        ...(stored?.subscribers || []).filter((other) => other !== existing),
+        subscriber
+      ]
+    };
+
+    if (subscriber.confirmedAt) {
+      await writeRecord(SUBSCRIPTIONS, id, subscription);
+      return 'subscribed';
+    }
+
+    if (!(await takeConfirmation(subscriber.email))) {
+      return 'limited';
+    }
+
+    // Only kept once the email is on its way, so a failed send doesn't leave a sign-up nobody can
+    // confirm.
+    await sendConfirmation(subscription, subscriber, getTitle(product, variant));
+    await writeRecord(SUBSCRIPTIONS, id, subscription);
+
+    return 'confirm';
+  });
+}
+
+// The sign-up the token was sent for: the product page it was made on, and whether it has been
+// confirmed. Undefined once there is no such sign-up, e.g. after the shopper was emailed.
+export async function getRestockSignUp(
+  id: string,
+  token: string
+): Promise<{ url: string; confirmed: boolean } | undefined> {
+  const stored = await readRecord<RestockSubscription>(SUBSCRIPTIONS, id);
+  const subscriber = stored?.subscribers.find((subscriber) => subscriber.token === token);
+
+  return subscriber && { url: subscriber.url, confirmed: !!subscriber.confirmedAt };
+}
+
+// Confirms the sign-up the token was sent for, so the shopper hears when the variant is back.
+// Returns false when there is no such sign-up.
+export async function confirmRestockSignUp(id: string, token: string): Promise<boolean> {
+  return withRecordLock(SUBSCRIPTIONS, id, async () => {
+    const stored = await readRecord<RestockSubscription>(SUBSCRIPTIONS, id);
+    const subscriber = stored?.subscribers.find((subscriber) => subscriber.token === token);
+
+    if (!stored || !subscriber) {
+      return false;
+    }
+
+    if (!subscriber.confirmedAt) {
+      subscriber.confirmedAt = new Date().toISOString();
+      await writeRecord(SUBSCRIPTIONS, id, stored);
+    }
+
+    return true;
+  });
+}
+
+// Looks at the variant as the shopper will see it, and emails them when it went from sold out to
+// in stock since it was last looked at. Returns how many of it can be bought now, and whether they
+// were emailed.
+async function notify(
+  subscription: RestockSubscription,
+  subscriber: Subscriber
+): Promise<{ quantityAvailable: number; sent: boolean }> {
+  // Each shopper hears in their own locale, about the product as it is named there.
+  return withLocale(subscriber.locale, async () => {
+    const product = await getProduct(subscription.productHandle);
+    const variant = product?.variants.find((variant) => variant.id === subscription.merchandiseId);
+    const quantityAvailable = variant ? getQuantityAvailable(variant) : 0;
+
+    if (!product || !variant || !quantityAvailable || !subscriber.confirmedAt) {
+      return { quantityAvailable, sent: false };
+    }
+
+    // It was already in stock last time, so this isn't news.
+    if (subscriber.quantityAvailable > 0) {
+      return { quantityAvailable, sent: false };
+    }
+
+    const t = getTranslations(subscriber.locale);
+    const title = getTitle(product, variant);
+
+    await sendMail({
+      to: subscriber.email,
+      subject: t('restock.email.subject', { title }),
+      text: t('restock.email.body', { title, url: subscriber.url })
+    });
+
+    return { quantityAvailable, sent: true };
+  });
+}
+
+// Emails every confirmed shopper whose variant went from sold out to in stock since they signed
+// up, and forgets them once they have been told. Sign-ups that were never confirmed are dropped
+// after `CONFIRMATION_DAYS`. Stock comes back from restocks, expired reservations and Shopify's
+// admin alike, so this runs on a schedule rather than in any request that changes stock. A message
+// that can't be sent is tried again next time. Returns how many were sent.
+export async function sendRestockNotifications(): Promise<number> {
+  // One run at a time, so nobody is emailed twice.
+  return withRecordLock(SUBSCRIPTIONS, 'job', async () => {
+    const expired = Date.now() - CONFIRMATION_DAYS * DAY;
+    let sent = 0;
+
+    for (const subscription of await listRecords<RestockSubscription>(SUBSCRIPTIONS)) {
+      // By email and sign-up date, how many of the variant each subscriber has now seen, or
+      // undefined once they have been told or their sign-up expired.
+      const results = new Map<string, number | undefined>();
+      const key = (subscriber: Subscriber) => `${subscriber.email} ${subscriber.createdAt}`;
+
+      for (const subscriber of subscription.subscribers) {
+        if (!subscriber.confirmedAt && Date.parse(subscriber.createdAt) < expired) {
+          results.set(key(subscriber), undefined);
+          continue;
+        }
+
+        try {
+          const result = await notify(subscription, subscriber);
+
+          if (result.sent) {
+            sent++;
+            results.set(key(subscriber), undefined);
+          } else if (result.quantityAvailable !== subscriber.quantityAvailable) {
+            results.set(key(subscriber), result.quantityAvailable);
+          }
+        } catch (e) {
+          console.error(e);
+        }
+      }
+
+      if (!results.size) {
+        continue;
+      }
+
+      // Shoppers may have signed up or confirmed while the emails went out, so the record is
+      // read again.
+      await withRecordLock(SUBSCRIPTIONS, subscription.id, async () => {
+        const current = await readRecord<RestockSubscription>(SUBSCRIPTIONS, subscription.id);
+        const subscribers = (current?.subscribers || []).flatMap((subscriber) => {
+          if (!results.has(key(subscriber))) {
+            return [subscriber];
+          }
+
+          const quantityAvailable = results.get(key(subscriber));
+
+          return quantityAvailable === undefined ? [] : [{ ...subscriber, quantityAvailable }];
+        });
+
+        if (subscribers.length) {
+          await writeRecord<RestockSubscription>(SUBSCRIPTIONS, subscription.id, {
+            ...current!,
+            subscribers
+          });
+        } else {
+          await deleteRecord(SUBSCRIPTIONS, subscription.id);
+        }
+      });
+    }
+
+    return sent;
+  });
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { normalizeQuery } from 'lib/search';
+import {
+  deleteRecord,
+  listRecordIds,
+  listRecords,
+  readRecord,
+  withRecordLock,
+  writeRecord
+} from 'lib/store';
+
+const SEARCH_QUERIES = 'search-queries';
+
+// Shoppers can search for anything, so the number of distinct queries has no natural limit. Past
+// this many, the least searched tenth are forgotten to make room for new ones.
+const MAX_SEARCH_QUERIES = 5000;
+
+// One record per distinct query, so the report stays cheap however busy search gets.
+export type SearchQueryStats = {
+  query: string;
+  searches: number;
+  // Searches that found nothing. A query can start or stop finding products as the catalog
+  // and the search config change, so this is kept apart from the latest result count.
+  zeroResultSearches: number;
+  lastResultCount: number;
+  // Where the query was last sent instead of to its results, by a redirect in the search config.
+  lastRedirectedTo?: string;
+  lastSearchedAt: string;
+};
+
+export type SearchReport = {
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: SearchQueryStats[];
+};
+
+// Queries are free text, which record ids can't be.
+const getQueryId = (query: string) => createHash('sha256').update(query).digest('hex');
+
+// Forgets the least searched queries, least recently searched first, once there are too many.
+async function makeRoom(): Promise<void> {
+  await withRecordLock(SEARCH_QUERIES, 'prune', async () => {
+    const count = (await listRecordIds(SEARCH_QUERIES)).length;
+
+    if (count < MAX_SEARCH_QUERIES) {
+      return;
+    }
+
+    const stats = (await listRecords<SearchQueryStats>(SEARCH_QUERIES)).sort(
+      (a, b) => a.searches - b.searches || a.lastSearchedAt.localeCompare(b.lastSearchedAt)
+    );
+    const excess = count - MAX_SEARCH_QUERIES + Math.ceil(MAX_SEARCH_QUERIES / 10);
+
+    await Promise.all(
+      stats.slice(0, excess).map((query) => deleteRecord(SEARCH_QUERIES, getQueryId(query.query)))
+    );
+  });
+}
+
+// Counts a search and how many products it found, or the page a redirect sent it to instead.
+// Losing a count is better than failing the search it belongs to, so errors are only logged.
+export async function logSearch(
+  query: string,
+  resultCount: number,
+  redirectedTo?: string
+): Promise<void> {
+  const normalized = normalizeQuery(query);
+
+  if (!normalized) {
+    return;
+  }
+
+  const id = getQueryId(normalized);
+
+  try {
+    await withRecordLock(SEARCH_QUERIES, id, async () => {
+      const stats = await readRecord<SearchQueryStats>(SEARCH_QUERIES, id);
+
+      if (!stats) {
+        await makeRoom();
+      }
+
+      await writeRecord<SearchQueryStats>(SEARCH_QUERIES, id, {
+        query: normalized,
+        searches: (stats?.searches || 0) + 1,
+        zeroResultSearches:
+          (stats?.zeroResultSearches || 0) + (resultCount || redirectedTo ? 0 : 1),
+        lastResultCount: resultCount,
+        ...(redirectedTo && { lastRedirectedTo: redirectedTo }),
+        lastSearchedAt: new Date().toISOString()
+      });
+    });
+  } catch (e) {
+    console.error(e);
+  }
+}
+
+// The most searched queries, and the most searched ones that currently find nothing. Queries a
+// redirect takes care of don't count as finding nothing.
+export async function getSearchReport(limit: number = 20): Promise<SearchReport> {
+  // `slice` would count a negative limit back from the end of the list.
+  const count = Math.max(Math.floor(limit) || 1, 1);
+
+  const stats = (await listRecords<SearchQueryStats>(SEARCH_QUERIES)).sort(
+    (a, b) => b.searches - a.searches || b.lastSearchedAt.localeCompare(a.lastSearchedAt)
+  );
+
+  return {
+    topQueries: stats.slice(0, count),
+    zeroResultQueries: stats
+      .filter((query) => query.lastResultCount === 0 && !query.lastRedirectedTo)
+      .slice(0, count)
+  };
+}
@@ -0,0 +1,135 @@
+import { readFile, stat } from 'fs/promises';
+import { HIDDEN_PRODUCT_TAG } from 'lib/constants';
+import { CommerceProvider, Product } from 'lib/shopify/types';
+import path from 'path';
+
+// Search tuning that merchandisers can change without a deploy. Keys are matched against the
+// query in lower case with whitespace collapsed:
+// - `synonyms`: `{ "tee": ["t-shirt"] }` makes a search for "tee" also find t-shirts. One-way,
+//   so "t-shirt" doesn't find tees unless there is a rule for that too.
+// - `pinned`: `{ "gift": ["acme-cup"] }` shows these product handles first for that exact query.
+// - `redirects`: `{ "about": "/about" }` sends that exact query to a page instead of results.
+export type SearchConfig = {
+  synonyms: Record<string, string[]>;
+  pinned: Record<string, string[]>;
+  redirects: Record<string, string>;
+};
+
+const configPath = path.resolve(process.cwd(), process.env.COMMERCE_SEARCH_CONFIG || 'search.json');
+
+// A query with many synonyms fans out into every combination of them; past this, the rest are
+// dropped rather than sending the search backend a huge query.
+const MAX_ALTERNATIVES = 8;
+
+const emptyConfig: SearchConfig = { synonyms: {}, pinned: {}, redirects: {} };
+
+let cached: { mtime: number; config: SearchConfig } | undefined;
+
+export const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const normalizeKeys = <T>(record: Record<string, T> = {}): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [normalizeQuery(key), value]));
+
+// Re-read whenever the file changes, so edits apply to the next search.
+export async function getSearchConfig(): Promise<SearchConfig> {
+  let mtime: number;
+
+  try {
+    mtime = (await stat(configPath)).mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptyConfig;
+    }
+
+    throw e;
+  }
+
+  if (cached?.mtime !== mtime) {
+    const config = JSON.parse(await readFile(configPath, 'utf8')) as Partial<SearchConfig>;
+
+    cached = {
+      mtime,
+      config: {
+        synonyms: normalizeKeys(config.synonyms),
+        pinned: normalizeKeys(config.pinned),
+        redirects: normalizeKeys(config.redirects)
+      }
+    };
+  }
+
+  return cached.config;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Rewrites the query into Shopify search syntax, one alternative per way of replacing the
+// phrases that have synonyms: "cotton tee" becomes `((cotton tee) OR (cotton t-shirt))`.
+export function expandSynonyms(config: SearchConfig, query: string): string {
+  let alternatives = [normalizeQuery(query)];
+
+  for (const [phrase, synonyms] of Object.entries(config.synonyms)) {
+    const pattern = new RegExp(`(^|\\s)${escapeRegExp(phrase)}(?=\\s|$)`, 'g');
+
+    alternatives = alternatives.flatMap((alternative) =>
+      alternative.search(pattern) !== -1
+        ? [
+            alternative,
+            ...synonyms.map((synonym) =>
+              alternative.replace(pattern, (_, space: string) => `${space}${synonym}`)
+            )
+          ]
+        : [alternative]
+    );
+  }
+
+  alternatives = [...new Set(alternatives)].slice(0, MAX_ALTERNATIVES);
+
+  return alternatives.length > 1
+    ? `(${alternatives.map((alternative) => `(${alternative})`).join(' OR ')})`
+    : query;
+}
+
+// The page `query` is sent to instead of its results, if the search config redirects it. Only the
+// search page follows redirects; everything else that searches gets the results.
+export async function getSearchRedirect(query: string): Promise<string | undefined> {
+  return (await getSearchConfig()).redirects[normalizeQuery(query)];
+}
+
+// Wraps a provider's `getProducts` so synonyms and pinned results apply to every provider alike.
+export function withSearchConfig(
+  provider: Pick<CommerceProvider, 'getProduct' | 'getProducts'>
+): CommerceProvider['getProducts'] {
+  return async ({ query, ...options }) => {
+    if (!query) {
+      return provider.getProducts(options);
+    }
+
+    const config = await getSearchConfig();
+    const key = normalizeQuery(query);
+    const page = await provider.getProducts({ ...options, query: expandSynonyms(config, query) });
+    const pinnedHandles = config.pinned[key] || [];
+
+    // Pins only reorder plain relevance results; a shopper who sorts or filters asked for
+    // something else.
+    if (
+      !pinnedHandles.length ||
+      options.filters?.length ||
+      (options.sortKey && options.sortKey !== 'RELEVANCE')
+    ) {
+      return page;
+    }
+
+    // Pinned products are left out of every page and put in front of the first one, so they
+    // never show up twice while paging.
+    const products = page.products.filter((product) => !pinnedHandles.includes(product.handle));
+    const isFirstPage = !options.after && !options.before;
+    const pinned = isFirstPage
+      ? (await Promise.all(pinnedHandles.map((handle) => provider.getProduct(handle)))).filter(
+          (product): product is Product =>
+            product !== undefined && !product.tags.includes(HIDDEN_PRODUCT_TAG)
+        )
+      : [];
+
+    return { ...page, products: [...pinned, ...products] };
+  };
+}
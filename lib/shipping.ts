@@ -0,0 +1,212 @@
+import { readFile, stat } from 'fs/promises';
+import { getSelectedCurrency, toSelectedCurrency } from 'lib/currency';
+import { CartBuyerIdentity, CartDeliveryOption, Money, ProductVariant } from 'lib/shopify/types';
+import { fromCents, toCents } from 'lib/utils';
+import path from 'path';
+
+// One row of a zone's rate table. A rate is offered when the order's weight (in grams) and
+// subtotal fall within its bounds, so weight-based and price-based tables are both a list of
+// rates with consecutive bounds. Amounts are in the file's `currencyCode`.
+export type ShippingRate = {
+  title: string;
+  description?: string;
+  price: string;
+  minWeight?: number;
+  maxWeight?: number;
+  minSubtotal?: string;
+  maxSubtotal?: string;
+  // The rate is free for orders of at least this subtotal.
+  freeAbove?: string;
+};
+
+// Where a set of rates applies: every address in `countries` (`*` for anywhere), or only those
+// whose postal code starts with one of `postalCodes`. The first zone matching an address is used,
+// so narrower zones go before wider ones.
+export type ShippingZone = {
+  name: string;
+  countries: string[];
+  postalCodes?: string[];
+  rates: ShippingRate[];
+};
+
+export type PickupLocation = {
+  handle: string;
+  title: string;
+  description?: string;
+  country: string;
+};
+
+export type ShippingSettings = {
+  // Where orders ship to until the shopper says otherwise: the market of their currency when one
+  // is selected, else this country.
+  country?: string;
+  currencyCode: string;
+  // Light but bulky parcels are charged by volume instead of weight: their length × width × height
+  // in cm³ divided by this is their weight in grams. Carriers commonly use 5 (5000 cm³ per kg).
+  dimensionalWeightDivisor: number;
+  zones: ShippingZone[];
+  pickupLocations: PickupLocation[];
+};
+
+export type ShippableLine = {
+  quantity: number;
+  variant: Pick<ProductVariant, 'weight' | 'dimensions'>;
+};
+
+export type ShippingEstimate = {
+  deliveryOptions: CartDeliveryOption[];
+  freeShippingThreshold?: Money;
+};
+
+const settingsPath = path.resolve(
+  process.cwd(),
+  process.env.COMMERCE_SHIPPING_FILE || 'shipping.json'
+);
+
+const emptySettings: ShippingSettings = {
+  currencyCode: 'USD',
+  dimensionalWeightDivisor: 5,
+  zones: [],
+  pickupLocations: []
+};
+
+let cached: { mtime: number; settings: ShippingSettings } | undefined;
+
+// Re-read whenever the file changes, so new rates apply without a restart. Without a file
+// shipping is left to be calculated at checkout.
+export async function getShippingSettings(): Promise<ShippingSettings> {
+  let mtime: number;
+
+  try {
+    mtime = (await stat(settingsPath)).mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptySettings;
+    }
+
+    throw e;
+  }
+
+  if (cached?.mtime !== mtime) {
+    const file = JSON.parse(await readFile(settingsPath, 'utf8')) as Partial<ShippingSettings>;
+    cached = { mtime, settings: { ...emptySettings, ...file } };
+  }
+
+  return cached.settings;
+}
+
+// The countries checkout offers: those a zone or pickup location names. A `*` zone sets the rates
+// for listed countries no other zone covers, but adds none of its own.
+export async function getShippingCountries(): Promise<string[]> {
+  const settings = await getShippingSettings();
+  const countries = [
+    ...settings.zones.flatMap((zone) => zone.countries),
+    ...settings.pickupLocations.map((location) => location.country)
+  ];
+
+  return [...new Set(countries)].filter((country) => country !== '*');
+}
+
+const normalizePostalCode = (postalCode: string) => postalCode.replace(/[\s-]/g, '').toUpperCase();
+
+function findZone(
+  settings: ShippingSettings,
+  countryCode: string,
+  postalCode?: string
+): ShippingZone | undefined {
+  return settings.zones.find(
+    (zone) =>
+      (zone.countries.includes(countryCode) || zone.countries.includes('*')) &&
+      (!zone.postalCodes ||
+        (!!postalCode &&
+          zone.postalCodes.some((prefix) =>
+            normalizePostalCode(postalCode).startsWith(normalizePostalCode(prefix))
+          )))
+  );
+}
+
+// What a parcel is charged as: its weight or its dimensional weight, whichever is more.
+function getChargeableWeight(settings: ShippingSettings, lines: ShippableLine[]): number {
+  return lines.reduce((sum, { quantity, variant }) => {
+    const { weight = 0, dimensions } = variant;
+    const volume = dimensions ? dimensions.length * dimensions.width * dimensions.height : 0;
+
+    return sum + quantity * Math.max(weight, volume / settings.dimensionalWeightDivisor);
+  }, 0);
+}
+
+const isWithin = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value < max);
+
+const getHandle = (prefix: string, title: string) =>
+  `${prefix}-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+// The pickup location a pickup delivery option's handle was made from.
+export async function getPickupLocation(
+  deliveryOptionHandle: string
+): Promise<PickupLocation | undefined> {
+  return (await getShippingSettings()).pickupLocations.find(
+    (location) => getHandle('pickup', location.handle) === deliveryOptionHandle
+  );
+}
+
+// The delivery options for a cart going to `destination`, cheapest first. Rates are converted to
+// the shopper's currency before they are compared with the subtotal.
+export async function estimateShipping(
+  lines: ShippableLine[],
+  subtotal: Money,
+  destination: CartBuyerIdentity = {}
+): Promise<ShippingEstimate> {
+  const [settings, currency] = await Promise.all([getShippingSettings(), getSelectedCurrency()]);
+  const countryCode = destination.countryCode || currency?.country || settings.country;
+
+  if (!countryCode || !lines.length) {
+    return { deliveryOptions: [] };
+  }
+
+  const convert = async (amount: string) =>
+    toCents((await toSelectedCurrency({ amount, currencyCode: settings.currencyCode })).amount);
+  const toMoney = (cents: number): Money => ({
+    amount: fromCents(cents),
+    currencyCode: subtotal.currencyCode
+  });
+  const weight = getChargeableWeight(settings, lines);
+  const subtotalCents = toCents(subtotal.amount);
+  const rates = await Promise.all(
+    (findZone(settings, countryCode, destination.postalCode)?.rates || [])
+      .filter((rate) => isWithin(weight, rate.minWeight, rate.maxWeight))
+      .map(async (rate) => ({
+        rate,
+        price: await convert(rate.price),
+        freeAbove: rate.freeAbove ? await convert(rate.freeAbove) : undefined,
+        minSubtotal: rate.minSubtotal ? await convert(rate.minSubtotal) : undefined,
+        maxSubtotal: rate.maxSubtotal ? await convert(rate.maxSubtotal) : undefined
+      }))
+  );
+  const shipping: CartDeliveryOption[] = rates
+    .filter(({ minSubtotal, maxSubtotal }) => isWithin(subtotalCents, minSubtotal, maxSubtotal))
+    .map(({ rate, price, freeAbove }) => ({
+      handle: getHandle('shipping', rate.title),
+      title: rate.title,
+      description: rate.description,
+      deliveryMethodType: 'SHIPPING',
+      estimatedCost: toMoney(freeAbove !== undefined && subtotalCents >= freeAbove ? 0 : price)
+    }));
+  const pickup: CartDeliveryOption[] = settings.pickupLocations
+    .filter((location) => location.country === countryCode)
+    .map((location) => ({
+      handle: getHandle('pickup', location.handle),
+      title: location.title,
+      description: location.description,
+      deliveryMethodType: 'PICK_UP',
+      estimatedCost: toMoney(0)
+    }));
+  const thresholds = rates.flatMap(({ freeAbove }) => (freeAbove !== undefined ? [freeAbove] : []));
+
+  return {
+    deliveryOptions: [...shipping, ...pickup].sort(
+      (a, b) => toCents(a.estimatedCost.amount) - toCents(b.estimatedCost.amount)
+    ),
+    ...(thresholds.length > 0 && { freeShippingThreshold: toMoney(Math.min(...thresholds)) })
+  };
+}
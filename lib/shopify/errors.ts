@@ -0,0 +1,132 @@
+import type { Translator } from 'lib/i18n';
+
+// Errors thrown by commerce providers. Each one carries the HTTP status it maps to, the name of
+// the operation that failed (e.g. `getCart` or `addToCart`) and structured metadata for logging.
+export type CommerceErrorCode = 'NETWORK_ERROR' | 'USER_ERROR' | 'THROTTLED' | 'NOT_FOUND';
+
+export type GraphQLErrorDetail = {
+  message: string;
+  path?: (string | number)[];
+  extensions?: { code?: string; [key: string]: unknown };
+};
+
+export abstract class CommerceError extends Error {
+  abstract readonly code: CommerceErrorCode;
+  readonly status: number;
+  readonly operation?: string;
+  readonly meta: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    {
+      status = 500,
+      operation,
+      meta = {},
+      cause
+    }: { status?: number; operation?: string; meta?: Record<string, unknown>; cause?: unknown } = {}
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.operation = operation;
+    this.meta = meta;
+  }
+}
+
+// The storefront could not be reached or answered with a non-GraphQL failure.
+export class CommerceNetworkError extends CommerceError {
+  readonly code = 'NETWORK_ERROR';
+}
+
+// The request reached the storefront but was rejected, e.g. invalid input or credentials.
+export class CommerceUserError extends CommerceError {
+  readonly code = 'USER_ERROR';
+  readonly errors: GraphQLErrorDetail[];
+
+  constructor(
+    message: string,
+    options: ConstructorParameters<typeof CommerceError>[1] & { errors?: GraphQLErrorDetail[] } = {}
+  ) {
+    super(message, { status: 400, ...options });
+    this.errors = options.errors || [];
+  }
+}
+
+// The storefront asked us to slow down; `retryAfter` is in milliseconds when it told us how long.
+export class CommerceThrottledError extends CommerceError {
+  readonly code = 'THROTTLED';
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    options: ConstructorParameters<typeof CommerceError>[1] & { retryAfter?: number } = {}
+  ) {
+    super(message, { status: 429, ...options });
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+// A cart, line, variant or other resource a mutation refers to does not exist.
+export class CommerceNotFoundError extends CommerceError {
+  readonly code = 'NOT_FOUND';
+
+  constructor(message: string, options: ConstructorParameters<typeof CommerceError>[1] = {}) {
+    super(message, { status: 404, ...options });
+  }
+}
+
+export const isCommerceError = (error: unknown): error is CommerceError =>
+  error instanceof CommerceError;
+
+// Message that is safe to show to shoppers, in their locale; unknown errors fall back to
+// `fallback`.
+export function getErrorMessage(error: unknown, fallback: string, t: Translator): string {
+  return isCommerceError(error) ? t(`error.commerce.${error.code}`) : fallback;
+}
+
+// What `promise` resolves to, or `undefined` when the provider threw `CommerceNotFoundError`, so
+// pages 404 the same way whether a handle came back empty or was rejected as unknown.
+export async function ignoreNotFound<T>(promise: Promise<T>): Promise<T | undefined> {
+  try {
+    return await promise;
+  } catch (e) {
+    if (e instanceof CommerceNotFoundError) {
+      return undefined;
+    }
+
+    throw e;
+  }
+}
+
+export type StockShortage = { merchandiseId: string; title: string; quantityAvailable: number };
+
+// The variant a cart or checkout ran short of, when that is why `error` was thrown, so shoppers
+// can be told how many are left.
+export function getStockShortage(error: unknown): StockShortage | undefined {
+  const detail =
+    error instanceof CommerceUserError
+      ? error.errors.find((detail) => detail.extensions?.code === 'MERCHANDISE_NOT_ENOUGH_STOCK')
+      : undefined;
+
+  return detail && (detail.extensions as StockShortage);
+}
+
+// The discount code every use of which had been taken when a checkout tried to use it, when that
+// is why `error` was thrown.
+export function getUsedUpDiscountCode(error: unknown): string | undefined {
+  const detail =
+    error instanceof CommerceUserError
+      ? error.errors.find((detail) => detail.extensions?.code === 'DISCOUNT_LIMIT_REACHED')
+      : undefined;
+
+  return detail?.extensions?.discountCode as string | undefined;
+}
+
+export function getErrorStatus(error: unknown): number {
+  return isCommerceError(error) ? error.status : 500;
+}
+
+// Extracts `getCart` from `query getCart($cartId: ID!) { ... }`.
+export function getOperationName(query: string): string | undefined {
+  return query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1];
+}
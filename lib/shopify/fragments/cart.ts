@@ -24,11 +24,30 @@ const cartFragment = /* GraphQL */ `
           id
           quantity
           cost {
+            subtotalAmount {
+              amount
+              currencyCode
+            }
             totalAmount {
               amount
               currencyCode
             }
           }
+          discountAllocations {
+            discountedAmount {
+              amount
+              currencyCode
+            }
+            ... on CartCodeDiscountAllocation {
+              code
+            }
+            ... on CartAutomaticDiscountAllocation {
+              title
+            }
+            ... on CartCustomDiscountAllocation {
+              title
+            }
+          }
           merchandise {
             ... on ProductVariant {
               id
@@ -46,6 +65,51 @@ const cartFragment = /* GraphQL */ `
       }
     }
     totalQuantity
+    discountCodes {
+      code
+      applicable
+    }
+    discountAllocations {
+      discountedAmount {
+        amount
+        currencyCode
+      }
+      ... on CartCodeDiscountAllocation {
+        code
+      }
+      ... on CartAutomaticDiscountAllocation {
+        title
+      }
+      ... on CartCustomDiscountAllocation {
+        title
+      }
+    }
+    buyerIdentity {
+      email
+      countryCode
+      deliveryAddressPreferences {
+        ... on MailingAddress {
+          zip
+          provinceCode
+        }
+      }
+    }
+    deliveryGroups(first: 10) {
+      edges {
+        node {
+          deliveryOptions {
+            handle
+            title
+            description
+            deliveryMethodType
+            estimatedCost {
+              amount
+              currencyCode
+            }
+          }
+        }
+      }
+    }
   }
   ${productFragment}
 `;
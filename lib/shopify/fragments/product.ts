@@ -9,6 +9,7 @@ const productFragment = /* GraphQL */ `
     title
     description
     descriptionHtml
+    vendor
     options {
       id
       name
@@ -55,7 +56,14 @@ const productFragment = /* GraphQL */ `
       ...seo
     }
     tags
+    createdAt
     updatedAt
+    rating: metafield(namespace: "reviews", key: "rating") {
+      value
+    }
+    ratingCount: metafield(namespace: "reviews", key: "rating_count") {
+      value
+    }
   }
   ${imageFragment}
   ${seoFragment}
@@ -0,0 +1,351 @@
+import { randomUUID } from 'crypto';
+import { MAX_LINE_QUANTITY } from 'lib/constants';
+import {
+  applyDiscounts,
+  hasUsageLimit,
+  normalizeDiscountCode,
+  sumDiscountAllocations
+} from 'lib/discounts';
+import { estimateShipping } from 'lib/shipping';
+import { readRecord, withRecordLock, writeRecord } from 'lib/store';
+import { calculateTaxes } from 'lib/tax';
+import { fromCents, toCents } from 'lib/utils';
+import { CommerceNotFoundError, CommerceUserError } from '../../errors';
+import { Cart, CartBuyerIdentity, CartCheckout, CartItem } from '../../types';
+import { Catalog, findVariant, getCatalog } from './catalog';
+import { assertInStock, getAvailableQuantities } from './inventory';
+import { getDiscountUsage } from './sales';
+
+// What is persisted per cart. Prices and product details are looked up from the catalog
+// whenever the cart is read, so they never go stale.
+export type StoredCartLine = {
+  id: string;
+  merchandiseId: string;
+  quantity: number;
+};
+
+export type StoredCart = {
+  id: string;
+  lines: StoredCartLine[];
+  // Who the cart is for and where it goes, which decide how it is taxed and shipped.
+  buyerIdentity?: CartBuyerIdentity;
+  discountCodes?: string[];
+  checkout?: CartCheckout;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const CARTS = 'carts';
+// The storefront's own checkout, under `app/checkout`.
+const CHECKOUT_URL = '/checkout';
+
+const hydrateLine = (
+  catalog: Catalog,
+  available: Map<string, number>,
+  line: StoredCartLine
+): CartItem | undefined => {
+  const match = findVariant(catalog, line.merchandiseId);
+
+  // Variants removed from the catalog silently drop out of the cart.
+  if (!match) {
+    return undefined;
+  }
+
+  const { product, variant } = match;
+
+  return {
+    id: line.id,
+    quantity: line.quantity,
+    cost: {
+      totalAmount: {
+        amount: fromCents(toCents(variant.price.amount) * line.quantity),
+        currencyCode: variant.price.currencyCode
+      }
+    },
+    discountAllocations: [],
+    merchandise: {
+      id: variant.id,
+      title: variant.title,
+      selectedOptions: variant.selectedOptions,
+      product: {
+        id: product.id,
+        handle: product.handle,
+        title: product.title,
+        featuredImage: product.featuredImage
+      },
+      ...(available.has(variant.id) && { quantityAvailable: available.get(variant.id) })
+    }
+  };
+};
+
+export async function hydrateCart(stored: StoredCart): Promise<Cart> {
+  const discountCodes = stored.discountCodes || [];
+  const catalog = await getCatalog();
+  // Every page reads the cart, so orders are only counted when one of its codes is limited.
+  const usage = (await hasUsageLimit(discountCodes))
+    ? await getDiscountUsage()
+    : new Map<string, number>();
+  // What the cart's own checkout holds is available to it.
+  const available = await getAvailableQuantities(catalog, stored.id);
+  const lines = stored.lines
+    .map((line) => hydrateLine(catalog, available, line))
+    .filter((line): line is CartItem => line !== undefined);
+  const subtotal = lines.reduce((sum, line) => sum + toCents(line.cost.totalAmount.amount), 0);
+  const currencyCode = catalog.currencyCode;
+  const buyerIdentity = stored.buyerIdentity || {};
+  const discounts = await applyDiscounts(
+    lines.map((line) => ({
+      quantity: line.quantity,
+      amount: line.cost.totalAmount,
+      collections: Object.keys(catalog.collectionProducts).filter((handle) =>
+        catalog.collectionProducts[handle]!.includes(line.merchandise.product.handle)
+      )
+    })),
+    discountCodes,
+    currencyCode,
+    usage
+  );
+  const discountedLines = lines.map((line, index) => ({
+    ...line,
+    discountAllocations: discounts.lines[index]!
+  }));
+  // Tax and shipping are worked out on what the shopper pays once discounts are taken off.
+  const discountedAmounts = discountedLines.map((line) => ({
+    amount: fromCents(
+      line.discountAllocations.reduce(
+        (cents, allocation) => cents - toCents(allocation.discountedAmount.amount),
+        toCents(line.cost.totalAmount.amount)
+      )
+    ),
+    currencyCode
+  }));
+  const discountedSubtotal = discountedAmounts.reduce(
+    (sum, money) => sum + toCents(money.amount),
+    0
+  );
+  const [taxes, shipping] = await Promise.all([
+    calculateTaxes(
+      discountedLines.map((line, index) => ({
+        amount: discountedAmounts[index]!,
+        category: catalog.taxCategories[line.merchandise.product.id]
+      })),
+      currencyCode,
+      buyerIdentity
+    ),
+    estimateShipping(
+      lines.map((line) => ({
+        quantity: line.quantity,
+        variant: findVariant(catalog, line.merchandise.id)?.variant || {}
+      })),
+      { amount: fromCents(discountedSubtotal), currencyCode },
+      buyerIdentity
+    )
+  ]);
+
+  return {
+    id: stored.id,
+    checkoutUrl: CHECKOUT_URL,
+    cost: {
+      subtotalAmount: { amount: fromCents(subtotal), currencyCode },
+      totalAmount: taxes.totalAmount,
+      totalTaxAmount: taxes.totalTaxAmount
+    },
+    taxesIncluded: taxes.taxesIncluded,
+    buyerIdentity,
+    discountCodes: discounts.discountCodes,
+    discountAllocations: sumDiscountAllocations(
+      discountedLines.flatMap((line) => line.discountAllocations)
+    ),
+    ...shipping,
+    ...(stored.checkout && {
+      checkout: {
+        ...stored.checkout,
+        deliveryOptionHandle: shipping.deliveryOptions.some(
+          (option) => option.handle === stored.checkout?.deliveryOptionHandle
+        )
+          ? stored.checkout.deliveryOptionHandle
+          : undefined
+      }
+    }),
+    lines: discountedLines.map((line, index) => ({ ...line, taxLines: taxes.lines[index] })),
+    totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0)
+  };
+}
+
+export async function readCart(cartId: string): Promise<StoredCart | undefined> {
+  return readRecord<StoredCart>(CARTS, cartId);
+}
+
+// Applies `update` to the stored cart under a lock and persists the result. Variants the update
+// adds more of must be in stock, and within the line limit, for the cart's new quantities.
+async function mutateCart(
+  operation: string,
+  cartId: string,
+  update: (cart: StoredCart, catalog: Catalog) => void
+): Promise<Cart> {
+  const stored = await withRecordLock(CARTS, cartId, async () => {
+    const cart = await readCart(cartId);
+
+    if (!cart) {
+      throw new CommerceNotFoundError(`Cart '${cartId}' not found.`, {
+        operation,
+        meta: { cartId }
+      });
+    }
+
+    const catalog = await getCatalog();
+    const before = new Map(cart.lines.map((line) => [line.merchandiseId, line.quantity]));
+
+    update(cart, catalog);
+    cart.lines = cart.lines.filter((line) => line.quantity > 0);
+
+    const increased = cart.lines.filter(
+      (line) => line.quantity > (before.get(line.merchandiseId) || 0)
+    );
+
+    // Adding to a line, or merging two, can take it past the limit when neither was.
+    for (const line of increased) {
+      assertQuantity(line.quantity, operation);
+    }
+
+    await assertInStock(catalog, cartId, increased, operation);
+    cart.updatedAt = new Date().toISOString();
+
+    return writeRecord(CARTS, cartId, cart);
+  });
+
+  return hydrateCart(stored);
+}
+
+const assertVariantExists = (catalog: Catalog, merchandiseId: string, operation: string) => {
+  if (!findVariant(catalog, merchandiseId)) {
+    throw new CommerceNotFoundError(`Merchandise '${merchandiseId}' not found.`, {
+      operation,
+      meta: { merchandiseId }
+    });
+  }
+};
+
+// Lines hold whole units, up to `MAX_LINE_QUANTITY`. Updates can set a line to 0 to remove it.
+const assertQuantity = (quantity: number, operation: string, min = 1) => {
+  if (!Number.isInteger(quantity) || quantity < min || quantity > MAX_LINE_QUANTITY) {
+    const message = `Quantity must be a whole number from ${min} to ${MAX_LINE_QUANTITY}.`;
+
+    throw new CommerceUserError(message, {
+      operation,
+      errors: [{ message, extensions: { code: 'INVALID' } }],
+      meta: { quantity }
+    });
+  }
+};
+
+export async function createCart(): Promise<Cart> {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const cart = await writeRecord<StoredCart>(CARTS, id, {
+    id,
+    lines: [],
+    createdAt: now,
+    updatedAt: now
+  });
+
+  return hydrateCart(cart);
+}
+
+export async function addToCart(
+  cartId: string,
+  lines: { merchandiseId: string; quantity: number }[]
+): Promise<Cart> {
+  return mutateCart('addToCart', cartId, (cart, catalog) => {
+    for (const { merchandiseId, quantity } of lines) {
+      assertVariantExists(catalog, merchandiseId, 'addToCart');
+      assertQuantity(quantity, 'addToCart');
+
+      const existing = cart.lines.find((line) => line.merchandiseId === merchandiseId);
+
+      if (existing) {
+        existing.quantity += quantity;
+      } else {
+        cart.lines.push({ id: randomUUID(), merchandiseId, quantity });
+      }
+    }
+  });
+}
+
+export async function removeFromCart(cartId: string, lineIds: string[]): Promise<Cart> {
+  return mutateCart('removeFromCart', cartId, (cart) => {
+    cart.lines = cart.lines.filter((line) => !lineIds.includes(line.id));
+  });
+}
+
+export async function updateCart(
+  cartId: string,
+  lines: { id: string; merchandiseId: string; quantity: number }[]
+): Promise<Cart> {
+  return mutateCart('updateCart', cartId, (cart, catalog) => {
+    for (const { id, merchandiseId, quantity } of lines) {
+      const line = cart.lines.find((line) => line.id === id);
+
+      if (!line) {
+        throw new CommerceNotFoundError(`Cart line '${id}' not found.`, {
+          operation: 'updateCart',
+          meta: { cartId, lineId: id }
+        });
+      }
+
+      assertVariantExists(catalog, merchandiseId, 'updateCart');
+      assertQuantity(quantity, 'updateCart', 0);
+      line.merchandiseId = merchandiseId;
+      line.quantity = quantity;
+    }
+
+    // Switching a line to a variant that is already in the cart merges the two lines.
+    cart.lines = cart.lines.reduce<StoredCartLine[]>((merged, line) => {
+      const existing = merged.find((other) => other.merchandiseId === line.merchandiseId);
+
+      if (existing) {
+        existing.quantity += line.quantity;
+      } else {
+        merged.push(line);
+      }
+
+      return merged;
+    }, []);
+  });
+}
+
+export async function updateBuyerIdentity(
+  cartId: string,
+  buyerIdentity: CartBuyerIdentity
+): Promise<Cart> {
+  // Fields left undefined keep their current value.
+  const changes = Object.entries(buyerIdentity).filter(([, value]) => value !== undefined);
+
+  return mutateCart('updateBuyerIdentity', cartId, (cart) => {
+    cart.buyerIdentity = { ...cart.buyerIdentity, ...Object.fromEntries(changes) };
+  });
+}
+
+export async function updateDiscountCodes(cartId: string, discountCodes: string[]): Promise<Cart> {
+  return mutateCart('updateDiscountCodes', cartId, (cart) => {
+    cart.discountCodes = [...new Set(discountCodes.map(normalizeDiscountCode))].filter(Boolean);
+  });
+}
+
+// Fields given replace the cart's, so passing `billingAddress: undefined` bills the shipping
+// address again.
+export async function updateCheckout(cartId: string, checkout: CartCheckout): Promise<Cart> {
+  return mutateCart('updateCheckout', cartId, (cart) => {
+    cart.checkout = { ...cart.checkout, ...checkout };
+  });
+}
+
+export async function getCart(cartId: string | undefined): Promise<Cart | undefined> {
+  if (!cartId) {
+    return undefined;
+  }
+
+  const cart = await readCart(cartId);
+
+  return cart ? hydrateCart(cart) : undefined;
+}
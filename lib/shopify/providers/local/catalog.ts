@@ -0,0 +1,332 @@
+import { readFile, stat } from 'fs/promises';
+import { DEFAULT_LOCALE, Locale, LOCALES } from 'lib/constants';
+import { convertMoney, getCurrencies, getSelectedCurrency } from 'lib/currency';
+import { getLocale } from 'lib/i18n/server';
+import path from 'path';
+import {
+  Collection,
+  CollectionRuleSet,
+  Image,
+  Menu,
+  Money,
+  Page,
+  Product,
+  ProductRating,
+  ProductVariant,
+  SEO
+} from '../../types';
+import { evaluateRuleSets } from './collection-rules';
+import { applyInventory } from './inventory';
+
+// Raw shapes of the JSON files in the data directory. Anything that can be derived
+// (price ranges, featured images, option ids, SEO defaults) is optional here.
+export type LocalVariant = Omit<ProductVariant, 'price' | 'availableForSale'> & {
+  price: string;
+  // Defaults to true. Ignored for variants with `inventory`, which are for sale while in stock.
+  availableForSale?: boolean;
+  // Units on hand per location (`warehouse`, or a pickup location's handle) when the catalog was
+  // written. Stock is tracked in the store from then on, see `./inventory.ts`.
+  inventory?: Record<string, number>;
+};
+
+// Content in other locales, keyed by locale. Fields a translation leaves out fall back to the
+// default locale's.
+type Translations<T> = Partial<Record<Locale, Partial<T>>>;
+
+export type LocalProduct = {
+  id: string;
+  handle: string;
+  title: string;
+  description: string;
+  descriptionHtml?: string;
+  vendor?: string;
+  tags?: string[];
+  options?: { name: string; values: string[] }[];
+  variants: LocalVariant[];
+  images?: Image[];
+  seo?: SEO;
+  rating?: ProductRating;
+  // Decides which of a region's tax rates apply, see `lib/tax.ts`. Products without one are
+  // taxed at the standard rates.
+  taxCategory?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  translations?: Translations<
+    Pick<LocalProduct, 'title' | 'description' | 'descriptionHtml' | 'seo'>
+  >;
+};
+
+export type LocalCollection = Omit<Collection, 'path' | 'seo'> & {
+  seo?: SEO;
+  // Handles of the products in this collection, in the order they are shown by default. Ignored
+  // for smart collections, which list every product matching their `ruleSet`.
+  products?: string[];
+  translations?: Translations<Pick<Collection, 'title' | 'description' | 'seo'>>;
+};
+
+export type LocalPage = Page & {
+  translations?: Translations<Pick<Page, 'title' | 'body' | 'bodySummary' | 'seo'>>;
+};
+
+export type LocalMenuItem = Menu & {
+  translations?: Translations<Pick<Menu, 'title'>>;
+};
+
+type ProductsFile = { currencyCode?: string; products: LocalProduct[] };
+type CollectionsFile = { collections: LocalCollection[] };
+type PagesFile = { pages: LocalPage[] };
+type MenusFile = { menus: Record<string, LocalMenuItem[]> };
+
+export type Catalog = {
+  currencyCode: string;
+  products: Product[];
+  collections: Collection[];
+  // Product handles per collection handle, kept apart so they never end up in client props.
+  collectionProducts: Record<string, string[]>;
+  // Smart collections' rules by collection handle, and the products they are matched against:
+  // the default locale's, so a collection holds the same products in every locale. Rules are
+  // evaluated again once stock is applied, see `./inventory.ts`.
+  collectionRuleSets: Record<string, CollectionRuleSet>;
+  ruleProducts: Product[];
+  // Tax category per product id, kept apart for the same reason.
+  taxCategories: Record<string, string>;
+  // Units on hand per location for each tracked variant id, as written in the catalog.
+  inventory: Record<string, Record<string, number>>;
+  pages: Page[];
+  menus: Record<string, Menu[]>;
+};
+
+const CATALOG_FILES = ['products.json', 'collections.json', 'pages.json', 'menus.json'];
+
+export const dataDir = path.resolve(
+  process.cwd(),
+  process.env.COMMERCE_DATA_DIR || 'public/local_data_store'
+);
+
+async function readDataFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path.join(dataDir, file), 'utf8')) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+
+    throw e;
+  }
+}
+
+// Changes whenever one of the catalog files is written, so edits show up without a restart.
+async function getSignature(): Promise<string> {
+  const mtimes = await Promise.all(
+    CATALOG_FILES.map((file) =>
+      stat(path.join(dataDir, file)).then(
+        (stats) => stats.mtimeMs,
+        () => 0
+      )
+    )
+  );
+
+  return mtimes.join(':');
+}
+
+const reshapeVariant = (
+  { inventory, ...variant }: LocalVariant,
+  currencyCode: string
+): ProductVariant => ({
+  ...variant,
+  availableForSale: variant.availableForSale ?? true,
+  price: { amount: variant.price, currencyCode }
+});
+
+const reshapeProduct = (product: LocalProduct, currencyCode: string): Product => {
+  const variants = product.variants.map((variant) => reshapeVariant(variant, currencyCode));
+  const prices = variants.map((variant) => Number(variant.price.amount));
+  const toMoney = (amount: number): Money => ({ amount: amount.toFixed(2), currencyCode });
+  const images = (product.images || []).map((image) => ({
+    ...image,
+    altText: image.altText || product.title
+  }));
+  const options = (product.options || []).map((option) => ({
+    id: `${product.id}-${option.name.toLowerCase()}`,
+    ...option
+  }));
+  const createdAt = product.createdAt || new Date(0).toISOString();
+  const updatedAt = product.updatedAt || createdAt;
+
+  return {
+    id: product.id,
+    handle: product.handle,
+    title: product.title,
+    description: product.description,
+    descriptionHtml: product.descriptionHtml || `<p>${product.description}</p>`,
+    vendor: product.vendor || '',
+    availableForSale: variants.some((variant) => variant.availableForSale),
+    options,
+    priceRange: {
+      maxVariantPrice: toMoney(prices.length ? Math.max(...prices) : 0),
+      minVariantPrice: toMoney(prices.length ? Math.min(...prices) : 0)
+    },
+    variants,
+    images,
+    featuredImage: images[0] || { url: '', altText: product.title, width: 0, height: 0 },
+    seo: product.seo || { title: product.title, description: product.description },
+    tags: product.tags || [],
+    ...(product.rating && { rating: product.rating }),
+    createdAt,
+    updatedAt
+  };
+};
+
+const reshapeCollection = ({ products, ...collection }: LocalCollection): Collection => ({
+  ...collection,
+  seo: collection.seo || { title: collection.title, description: collection.description },
+  path: `/search/${collection.handle}`
+});
+
+// The item in `locale`, without the translations for other locales.
+const translate = <T extends { translations?: Translations<object> }>(
+  { translations, ...item }: T,
+  locale: Locale
+): Omit<T, 'translations'> => ({ ...item, ...translations?.[locale] });
+
+async function loadCatalogs(): Promise<Record<Locale, Catalog>> {
+  const [productsFile, collectionsFile, pagesFile, menusFile] = await Promise.all([
+    readDataFile<ProductsFile>('products.json', { products: [] }),
+    readDataFile<CollectionsFile>('collections.json', { collections: [] }),
+    readDataFile<PagesFile>('pages.json', { pages: [] }),
+    readDataFile<MenusFile>('menus.json', { menus: {} })
+  ]);
+  const currencyCode = productsFile.currencyCode || 'USD';
+  const products = productsFile.products.map((product) => reshapeProduct(product, currencyCode));
+  // Smart collections are evaluated here, so they are refreshed whenever the catalog changes.
+  const collectionRuleSets = Object.fromEntries(
+    collectionsFile.collections.flatMap(({ handle, ruleSet }) =>
+      ruleSet ? [[handle, ruleSet]] : []
+    )
+  );
+  const collectionProducts = {
+    ...Object.fromEntries(
+      collectionsFile.collections.map(({ handle, products: handles }) => [handle, handles || []])
+    ),
+    ...evaluateRuleSets(collectionRuleSets, products)
+  };
+  const taxCategories = Object.fromEntries(
+    productsFile.products.flatMap(({ id, taxCategory }) => (taxCategory ? [[id, taxCategory]] : []))
+  );
+  const inventory = Object.fromEntries(
+    productsFile.products.flatMap(({ variants }) =>
+      variants.flatMap(({ id, inventory }) => (inventory ? [[id, inventory]] : []))
+    )
+  );
+  const toCatalog = (locale: Locale): Catalog => ({
+    currencyCode,
+    products:
+      locale === DEFAULT_LOCALE
+        ? products
+        : productsFile.products.map((product) =>
+            reshapeProduct(translate(product, locale), currencyCode)
+          ),
+    collections: collectionsFile.collections.map((collection) =>
+      reshapeCollection(translate(collection, locale))
+    ),
+    collectionProducts,
+    collectionRuleSets,
+    ruleProducts: products,
+    taxCategories,
+    inventory,
+    pages: pagesFile.pages.map((page) => translate(page, locale)),
+    menus: Object.fromEntries(
+      Object.entries(menusFile.menus).map(([handle, items]) => [
+        handle,
+        items.map((item) => translate(item, locale))
+      ])
+    )
+  });
+
+  return Object.fromEntries(LOCALES.map((locale) => [locale, toCatalog(locale)])) as Record<
+    Locale,
+    Catalog
+  >;
+}
+
+let cached: { signature: string; catalogs: Promise<Record<Locale, Catalog>> } | undefined;
+
+async function getBaseCatalog(): Promise<Catalog> {
+  const locale = getLocale();
+
+  // Production builds read the data directory once; development reloads it on change.
+  if (cached && process.env.NODE_ENV === 'production') {
+    return (await cached.catalogs)[locale];
+  }
+
+  const signature = await getSignature();
+
+  if (!cached || cached.signature !== signature) {
+    const catalogs = loadCatalogs();
+    cached = { signature, catalogs };
+    // Don't keep a failed read (e.g. a half-saved file) around for the next request.
+    catalogs.catch(() => {
+      if (cached?.catalogs === catalogs) {
+        cached = undefined;
+      }
+    });
+  }
+
+  return (await cached.catalogs)[locale];
+}
+
+const convertProduct = (product: Product, convert: (money: Money) => Money): Product => ({
+  ...product,
+  priceRange: {
+    maxVariantPrice: convert(product.priceRange.maxVariantPrice),
+    minVariantPrice: convert(product.priceRange.minVariantPrice)
+  },
+  variants: product.variants.map((variant) => ({ ...variant, price: convert(variant.price) }))
+});
+
+const convertedCatalogs = new WeakMap<Catalog, Map<string, Catalog>>();
+
+// Prices are kept in the catalog's own currency and converted to the shopper's when read, so
+// listings, facets and cart totals all agree. Each catalog is converted once per rate.
+export async function getCatalog(): Promise<Catalog> {
+  const catalog = await applyInventory(await getBaseCatalog());
+  const [currencies, target] = await Promise.all([getCurrencies(), getSelectedCurrency()]);
+  const source = currencies.find((currency) => currency.code === catalog.currencyCode);
+
+  if (!target || !source || target.code === source.code) {
+    return catalog;
+  }
+
+  const key = `${source.rate}:${target.code}:${target.rate}`;
+  const conversions = convertedCatalogs.get(catalog) || new Map<string, Catalog>();
+  let converted = conversions.get(key);
+
+  if (!converted) {
+    converted = {
+      ...catalog,
+      currencyCode: target.code,
+      products: catalog.products.map((product) =>
+        convertProduct(product, (money) => convertMoney(money, source, target))
+      )
+    };
+    conversions.set(key, converted);
+    convertedCatalogs.set(catalog, conversions);
+  }
+
+  return converted;
+}
+
+export function findVariant(
+  catalog: Catalog,
+  variantId: string
+): { product: Product; variant: ProductVariant } | undefined {
+  for (const product of catalog.products) {
+    const variant = product.variants.find((variant) => variant.id === variantId);
+
+    if (variant) {
+      return { product, variant };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,156 @@
+import { getCheckoutTotals, getNextCheckoutStep, getSelectedDeliveryOption } from 'lib/checkout';
+import { getUsedUpDiscountCodes, sumDiscountAllocations } from 'lib/discounts';
+import { getPickupLocation } from 'lib/shipping';
+import { deleteRecord, withRecordLock } from 'lib/store';
+import { CommerceNotFoundError, CommerceUserError } from '../../errors';
+import { Order, OrderLine, OrderPayment } from '../../types';
+import { CARTS, hydrateCart, readCart } from './cart';
+import { findVariant, getCatalog } from './catalog';
+import { commitStock, reserveStock } from './inventory';
+import { createOrder } from './orders';
+import { getDiscountUsage, ORDERS } from './sales';
+
+// Checkout reserves the cart's items each time a step is done, so they are held for as long as
+// the shopper keeps going.
+export async function reserveInventory(cartId: string): Promise<void> {
+  const stored = await readCart(cartId);
+
+  if (!stored) {
+    throw new CommerceNotFoundError(`Cart '${cartId}' not found.`, {
+      operation: 'reserveInventory',
+      meta: { cartId }
+    });
+  }
+
+  await reserveStock(await getCatalog(), cartId, stored.lines);
+}
+
+// Under the cart's lock, so a cart being changed in another tab can't be ordered half-way. Orders
+// are also placed one at a time, so a discount code's uses are counted and taken together and two
+// carts can't both take its last one.
+export async function completeCheckout(cartId: string, payment?: OrderPayment): Promise<Order> {
+  return withRecordLock(CARTS, cartId, () =>
+    withRecordLock(ORDERS, 'discount-usage', () => placeOrder(cartId, payment))
+  );
+}
+
+async function placeOrder(cartId: string, payment?: OrderPayment): Promise<Order> {
+  const stored = await readCart(cartId);
+
+  if (!stored) {
+    throw new CommerceNotFoundError(`Cart '${cartId}' not found.`, {
+      operation: 'completeCheckout',
+      meta: { cartId }
+    });
+  }
+
+  const [cart, catalog] = await Promise.all([hydrateCart(stored), getCatalog()]);
+  const deliveryOption = getSelectedDeliveryOption(cart);
+  const { checkout } = cart;
+
+  if (
+    !cart.lines.length ||
+    !cart.buyerIdentity.email ||
+    !checkout?.shippingAddress ||
+    !checkout.paymentMethod ||
+    !deliveryOption
+  ) {
+    throw new CommerceUserError('The cart is not ready to check out.', {
+      operation: 'completeCheckout',
+      meta: { cartId, step: getNextCheckoutStep(cart) }
+    });
+  }
+
+  // A code's uses are counted from orders, so the order written below takes this one.
+  const [usedUp] = await getUsedUpDiscountCodes(
+    stored.discountCodes || [],
+    await getDiscountUsage()
+  );
+
+  if (usedUp) {
+    const message = `Discount code '${usedUp}' has been used up.`;
+
+    throw new CommerceUserError(message, {
+      operation: 'completeCheckout',
+      errors: [{ message, extensions: { code: 'DISCOUNT_LIMIT_REACHED', discountCode: usedUp } }],
+      meta: { cartId, discountCode: usedUp }
+    });
+  }
+
+  const totals = getCheckoutTotals(cart);
+
+  // Card orders need an authorization for what the cart comes to now, not before it last changed.
+  if (
+    checkout.paymentMethod === 'card' &&
+    (payment?.amount.amount !== totals.totalAmount.amount ||
+      payment.amount.currencyCode !== totals.totalAmount.currencyCode)
+  ) {
+    throw new CommerceUserError('The payment does not cover the cart.', {
+      operation: 'completeCheckout',
+      meta: { cartId, paymentId: payment?.id }
+    });
+  }
+
+  // Hydrated lines only hold variants that are in the catalog.
+  const lines = cart.lines.map((line): OrderLine => {
+    // How many were left when the order was placed isn't part of it.
+    const {
+      product,
+      variant: { quantityAvailable, ...variant }
+    } = findVariant(catalog, line.merchandise.id)!;
+
+    return {
+      id: line.id!,
+      productId: product.id,
+      merchandiseId: variant.id,
+      quantity: line.quantity,
+      product: {
+        id: product.id,
+        handle: product.handle,
+        title: product.title,
+        vendor: product.vendor,
+        featuredImage: product.featuredImage
+      },
+      variant,
+      cost: line.cost,
+      discountAllocations: line.discountAllocations,
+      taxLines: line.taxLines || []
+    };
+  });
+
+  // Pickup orders take their items from the store they are picked up at where it has them.
+  await commitStock(
+    catalog,
+    cartId,
+    lines,
+    deliveryOption.deliveryMethodType === 'PICK_UP'
+      ? (await getPickupLocation(deliveryOption.handle))?.handle
+      : undefined
+  );
+
+  // Payments are made out to the cart, so the order keeps its id to be found by them.
+  const order = await createOrder({
+    id: cartId,
+    email: cart.buyerIdentity.email,
+    shippingAddress: checkout.shippingAddress,
+    billingAddress: checkout.billingAddress || checkout.shippingAddress,
+    deliveryOption,
+    paymentMethod: checkout.paymentMethod,
+    ...(checkout.paymentMethod === 'card' && { payment }),
+    lines,
+    discountCodes: cart.discountCodes
+      .filter((discountCode) => discountCode.applicable)
+      .map((discountCode) => discountCode.code),
+    discountAllocations: sumDiscountAllocations(lines.flatMap((line) => line.discountAllocations)),
+    cost: {
+      subtotalAmount: cart.cost.subtotalAmount,
+      totalTaxAmount: cart.cost.totalTaxAmount,
+      ...totals
+    },
+    taxesIncluded: !!cart.taxesIncluded
+  });
+
+  await deleteRecord(CARTS, cartId);
+
+  return order;
+}
@@ -0,0 +1,76 @@
+import { CollectionRule, CollectionRuleSet, Product } from '../../types';
+
+// The values a rule compares against. Products match a variant rule when any variant does.
+// Rules come from hand-edited JSON, so unknown columns and relations simply never match.
+const getColumnValues = (product: Product, column: CollectionRule['column']): string[] => {
+  switch (column) {
+    case 'TAG':
+      return product.tags;
+    case 'TITLE':
+      return [product.title];
+    case 'VARIANT_PRICE':
+      return product.variants.map((variant) => variant.price.amount);
+    case 'VARIANT_TITLE':
+      return product.variants.map((variant) => variant.title);
+    case 'AVAILABLE_FOR_SALE':
+      return [String(product.availableForSale)];
+    default:
+      return [];
+  }
+};
+
+const matchesValue = (value: string, { relation, condition }: CollectionRule): boolean => {
+  const text = value.toLowerCase();
+  const expected = condition.toLowerCase();
+
+  switch (relation) {
+    case 'EQUALS':
+      return text === expected;
+    case 'CONTAINS':
+      return text.includes(expected);
+    case 'STARTS_WITH':
+      return text.startsWith(expected);
+    case 'ENDS_WITH':
+      return text.endsWith(expected);
+    case 'GREATER_THAN':
+      return Number(value) > Number(condition);
+    case 'LESS_THAN':
+      return Number(value) < Number(condition);
+    default:
+      return false;
+  }
+};
+
+function matchesRule(product: Product, rule: CollectionRule): boolean {
+  const values = getColumnValues(product, rule.column);
+
+  // Negated relations hold when no value matches, e.g. "tag not equals sale" excludes every
+  // product that has the tag rather than every product with some other tag.
+  switch (rule.relation) {
+    case 'NOT_EQUALS':
+      return !values.some((value) => matchesValue(value, { ...rule, relation: 'EQUALS' }));
+    case 'NOT_CONTAINS':
+      return !values.some((value) => matchesValue(value, { ...rule, relation: 'CONTAINS' }));
+    default:
+      return values.some((value) => matchesValue(value, rule));
+  }
+}
+
+function matchesRuleSet(product: Product, { appliedDisjunctively, rules }: CollectionRuleSet) {
+  return appliedDisjunctively
+    ? rules.some((rule) => matchesRule(product, rule))
+    : rules.every((rule) => matchesRule(product, rule));
+}
+
+// The handles of the products matching each smart collection's rules, by collection handle.
+export function evaluateRuleSets(
+  ruleSets: Record<string, CollectionRuleSet>,
+  products: Product[]
+): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(ruleSets).map(([handle, ruleSet]) => [
+      handle,
+      products.filter((product) => matchesRuleSet(product, ruleSet)).map(({ handle }) => handle)
+    ])
+  );
+}
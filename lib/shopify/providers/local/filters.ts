@@ -0,0 +1,183 @@
+import { HIDDEN_PRODUCT_TAG } from 'lib/constants';
+import { Translator } from 'lib/i18n';
+import { Facet, FacetValue, Product, ProductFilter } from '../../types';
+
+// Filters are grouped by what they filter on: a product has to match every group, and any
+// filter within a group.
+const getGroup = (filter: ProductFilter): string => {
+  if (filter.available !== undefined) return 'available';
+  if (filter.price) return 'price';
+  if (filter.productVendor !== undefined) return 'vendor';
+  if (filter.tag !== undefined) return 'tag';
+  if (filter.variantOption) return `option.${filter.variantOption.name.toLowerCase()}`;
+  return 'unknown';
+};
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function matchesFilter(product: Product, filter: ProductFilter): boolean {
+  if (filter.available !== undefined) {
+    return product.availableForSale === filter.available;
+  }
+
+  if (filter.price) {
+    const { min = 0, max = Infinity } = filter.price;
+
+    return product.variants.some((variant) => {
+      const price = Number(variant.price.amount);
+      return price >= min && price <= max;
+    });
+  }
+
+  if (filter.productVendor !== undefined) {
+    return sameText(product.vendor, filter.productVendor);
+  }
+
+  if (filter.tag !== undefined) {
+    return product.tags.some((tag) => sameText(tag, filter.tag!));
+  }
+
+  if (filter.variantOption) {
+    const { name, value } = filter.variantOption;
+
+    return product.variants.some((variant) =>
+      variant.selectedOptions.some(
+        (option) => sameText(option.name, name) && sameText(option.value, value)
+      )
+    );
+  }
+
+  return true;
+}
+
+function groupFilters(filters: ProductFilter[]) {
+  const groups = new Map<string, ProductFilter[]>();
+
+  for (const filter of filters) {
+    const group = getGroup(filter);
+    groups.set(group, [...(groups.get(group) || []), filter]);
+  }
+
+  return groups;
+}
+
+// `except` leaves one group out, which is how facet counts are taken: the sizes on offer
+// shouldn't shrink to the one size that's already selected.
+export function applyFilters(products: Product[], filters: ProductFilter[], except?: string) {
+  const groups = [...groupFilters(filters)].filter(([group]) => group !== except);
+
+  return products.filter((product) =>
+    groups.every(([, group]) => group.some((filter) => matchesFilter(product, filter)))
+  );
+}
+
+function countValues(
+  products: Product[],
+  candidates: { id: string; label: string; input: ProductFilter }[]
+): FacetValue[] {
+  return candidates.map((candidate) => ({
+    ...candidate,
+    count: products.filter((product) => matchesFilter(product, candidate.input)).length
+  }));
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+// Facets for a result set, with every value counted against the other active filters. Option
+// names and values, vendors and tags are shown as the catalog spells them.
+export function getFacets(products: Product[], filters: ProductFilter[], t: Translator): Facet[] {
+  const facets: Facet[] = [];
+  const candidatesFor = (group: string) => applyFilters(products, filters, group);
+
+  facets.push({
+    id: 'filter.v.availability',
+    label: t('facets.availability'),
+    type: 'LIST',
+    values: countValues(candidatesFor('available'), [
+      { id: 'filter.v.availability.1', label: t('facets.inStock'), input: { available: true } },
+      { id: 'filter.v.availability.0', label: t('facets.outOfStock'), input: { available: false } }
+    ])
+  });
+
+  const prices = products.flatMap((product) =>
+    product.variants.map((variant) => Number(variant.price.amount))
+  );
+
+  if (prices.length) {
+    facets.push({
+      id: 'filter.v.price',
+      label: t('facets.price'),
+      type: 'PRICE_RANGE',
+      values: [
+        {
+          id: 'filter.v.price',
+          label: t('facets.price'),
+          count: candidatesFor('price').length,
+          input: { price: { min: Math.min(...prices), max: Math.max(...prices) } }
+        }
+      ]
+    });
+  }
+
+  const optionNames = unique(
+    products.flatMap((product) => product.options.map(({ name }) => name))
+  );
+
+  for (const name of optionNames) {
+    const values = unique(
+      products.flatMap(
+        (product) => product.options.find((option) => sameText(option.name, name))?.values || []
+      )
+    );
+
+    facets.push({
+      id: `filter.v.option.${name.toLowerCase()}`,
+      label: name,
+      type: 'LIST',
+      values: countValues(
+        candidatesFor(`option.${name.toLowerCase()}`),
+        values.map((value) => ({
+          id: `filter.v.option.${name.toLowerCase()}.${value}`,
+          label: value,
+          input: { variantOption: { name, value } }
+        }))
+      )
+    });
+  }
+
+  const vendors = unique(products.map((product) => product.vendor).filter(Boolean));
+
+  if (vendors.length) {
+    facets.push({
+      id: 'filter.p.vendor',
+      label: t('facets.vendor'),
+      type: 'LIST',
+      values: countValues(
+        candidatesFor('vendor'),
+        vendors.map((vendor) => ({
+          id: `filter.p.vendor.${vendor}`,
+          label: vendor,
+          input: { productVendor: vendor }
+        }))
+      )
+    });
+  }
+
+  const tags = unique(products.flatMap((product) => product.tags)).filter(
+    (tag) => tag !== HIDDEN_PRODUCT_TAG
+  );
+
+  if (tags.length) {
+    facets.push({
+      id: 'filter.p.tag',
+      label: t('facets.tag'),
+      type: 'LIST',
+      values: countValues(
+        candidatesFor('tag'),
+        tags.map((tag) => ({ id: `filter.p.tag.${tag}`, label: tag, input: { tag } }))
+      )
+    });
+  }
+
+  return facets;
+}
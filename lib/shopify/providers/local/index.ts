@@ -0,0 +1,270 @@
+import { HIDDEN_PRODUCT_TAG, SEARCH_SUGGESTIONS_LIMIT, TAGS } from 'lib/constants';
+import { getTranslations } from 'lib/i18n/server';
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { CommerceNotFoundError, CommerceUserError } from '../../errors';
+import { sortProducts } from '../../sort';
+import {
+  Collection,
+  CommerceProvider,
+  Menu,
+  Page,
+  PaginationOptions,
+  Product,
+  ProductFilter,
+  ProductPage,
+  SearchSuggestions
+} from '../../types';
+import {
+  addToCart,
+  createCart,
+  getCart,
+  removeFromCart,
+  updateBuyerIdentity,
+  updateCart,
+  updateCheckout,
+  updateDiscountCodes
+} from './cart';
+import { findVariant, getCatalog } from './catalog';
+import { completeCheckout, reserveInventory } from './checkout';
+import { applyFilters, getFacets } from './filters';
+import { setStockLevel } from './inventory';
+import { addPaymentTransaction, getOrder } from './orders';
+import { paginate } from './pagination';
+import { getProductRecommendations } from './recommendations';
+import { getSalesVolume } from './sales';
+import { completeQuery, correctSpelling, searchProducts, tokenize } from './search';
+
+async function getCollection(handle: string): Promise<Collection | undefined> {
+  const { collections } = await getCatalog();
+
+  return collections.find((collection) => collection.handle === handle);
+}
+
+async function getVisibleProducts(): Promise<Product[]> {
+  const { products } = await getCatalog();
+
+  return products.filter((product) => !product.tags.includes(HIDDEN_PRODUCT_TAG));
+}
+
+// Filters, sorts and paginates a listing. Facets are taken from the unfiltered listing so
+// shoppers can still see what else is on offer.
+async function toProductPage(
+  products: Product[],
+  {
+    filters = [],
+    reverse,
+    sortKey,
+    ...pagination
+  }: { filters?: ProductFilter[]; reverse?: boolean; sortKey?: string } & PaginationOptions
+): Promise<ProductPage> {
+  const sales = sortKey === 'BEST_SELLING' ? await getSalesVolume() : undefined;
+  const sorted = sortProducts(applyFilters(products, filters), { sortKey, reverse }, { sales });
+
+  return {
+    ...paginate(sorted, pagination),
+    facets: getFacets(products, filters, getTranslations())
+  };
+}
+
+async function getCollectionProducts({
+  collection,
+  ...options
+}: {
+  collection: string;
+  reverse?: boolean;
+  sortKey?: string;
+  filters?: ProductFilter[];
+} & PaginationOptions): Promise<ProductPage> {
+  const { collectionProducts } = await getCatalog();
+  const productsByHandle = new Map(
+    (await getVisibleProducts()).map((product) => [product.handle, product])
+  );
+  // Unknown handles are skipped so a product can be removed without editing every collection.
+  const products = (collectionProducts[collection] || []).flatMap((handle) => {
+    const product = productsByHandle.get(handle);
+    return product ? [product] : [];
+  });
+
+  return toProductPage(products, options);
+}
+
+async function getCollections(): Promise<Collection[]> {
+  const { collections } = await getCatalog();
+
+  return [
+    {
+      handle: '',
+      title: 'All',
+      description: 'All products',
+      seo: {
+        title: 'All',
+        description: 'All products'
+      },
+      path: '/search',
+      updatedAt: new Date().toISOString()
+    },
+    // Collections that start with `hidden-*` need to be hidden on the search page.
+    ...collections.filter((collection) => !collection.handle.startsWith('hidden'))
+  ];
+}
+
+async function getMenu(handle: string): Promise<Menu[]> {
+  const { menus } = await getCatalog();
+
+  return menus[handle] || [];
+}
+
+async function getPage(handle: string): Promise<Page | undefined> {
+  const { pages } = await getCatalog();
+
+  return pages.find((page) => page.handle === handle);
+}
+
+async function getPages(): Promise<Page[]> {
+  const { pages } = await getCatalog();
+
+  return pages;
+}
+
+async function getProduct(handle: string): Promise<Product | undefined> {
+  const { products } = await getCatalog();
+
+  return products.find((product) => product.handle === handle);
+}
+
+async function getProducts({
+  query,
+  ...options
+}: {
+  query?: string;
+  reverse?: boolean;
+  sortKey?: string;
+  filters?: ProductFilter[];
+} & PaginationOptions): Promise<ProductPage> {
+  const catalog = await getCatalog();
+  // Search results come best match first, which is the order `RELEVANCE` keeps.
+  const matches = query
+    ? searchProducts(catalog, query).map(({ product }) => product)
+    : catalog.products;
+  const products = matches.filter((product) => !product.tags.includes(HIDDEN_PRODUCT_TAG));
+
+  return toProductPage(products, options);
+}
+
+async function getSpellingSuggestion(query: string): Promise<string | undefined> {
+  return correctSpelling(await getCatalog(), query);
+}
+
+// Titles match when every word typed so far starts one of their words.
+function matchesTitle(title: string, query: string): boolean {
+  const titleWords = tokenize(title);
+
+  return tokenize(query).every((word) =>
+    titleWords.some((titleWord) => titleWord.startsWith(word))
+  );
+}
+
+async function getSearchSuggestions(query: string): Promise<SearchSuggestions> {
+  const catalog = await getCatalog();
+
+  if (!tokenize(query).length) {
+    return { queries: [], products: [], collections: [], pages: [] };
+  }
+
+  // A word that is still being typed looks misspelled, so corrections are only offered when
+  // nothing in the catalog starts with it.
+  const completions = completeQuery(catalog, query, SEARCH_SUGGESTIONS_LIMIT);
+  const correction = completions.length ? undefined : correctSpelling(catalog, query);
+  const queries = correction ? [correction] : completions;
+  const products = searchProducts(catalog, query)
+    .map(({ product }) => product)
+    .filter((product) => !product.tags.includes(HIDDEN_PRODUCT_TAG));
+  const collections = (await getCollections()).filter(
+    (collection) => collection.handle && matchesTitle(collection.title, query)
+  );
+  const pages = catalog.pages.filter((page) => matchesTitle(page.title, query));
+
+  return {
+    queries,
+    products: products
+      .slice(0, SEARCH_SUGGESTIONS_LIMIT)
+      .map(({ handle, title, featuredImage, priceRange }) => ({
+        handle,
+        title,
+        featuredImage,
+        priceRange
+      })),
+    collections: collections
+      .slice(0, SEARCH_SUGGESTIONS_LIMIT)
+      .map(({ handle, title, path }) => ({ handle, title, path })),
+    pages: pages.slice(0, SEARCH_SUGGESTIONS_LIMIT).map(({ handle, title }) => ({ handle, title }))
+  };
+}
+
+async function setInventoryLevel(
+  merchandiseId: string,
+  location: string,
+  quantity: number
+): Promise<void> {
+  const catalog = await getCatalog();
+
+  if (!findVariant(catalog, merchandiseId)) {
+    throw new CommerceNotFoundError(`Merchandise '${merchandiseId}' not found.`, {
+      operation: 'setInventoryLevel',
+      meta: { merchandiseId }
+    });
+  }
+
+  if (!Number.isInteger(quantity) || quantity < 0 || !location) {
+    throw new CommerceUserError('Inventory levels are whole numbers of units at a location.', {
+      operation: 'setInventoryLevel',
+      meta: { merchandiseId, location, quantity }
+    });
+  }
+
+  await setStockLevel(catalog, merchandiseId, location, quantity);
+}
+
+async function revalidate(req: NextRequest): Promise<NextResponse> {
+  const secret = req.nextUrl.searchParams.get('secret');
+
+  if (!secret || secret !== process.env.SHOPIFY_REVALIDATION_SECRET) {
+    console.error('Invalid revalidation secret.');
+    return NextResponse.json({ status: 200 });
+  }
+
+  // Local data has no webhook topics, so every catalog change revalidates both tags.
+  revalidateTag(TAGS.collections);
+  revalidateTag(TAGS.products);
+
+  return NextResponse.json({ status: 200, revalidated: true, now: Date.now() });
+}
+
+export const localProvider: CommerceProvider = {
+  createCart,
+  addToCart,
+  removeFromCart,
+  updateCart,
+  getCart,
+  updateBuyerIdentity,
+  updateDiscountCodes,
+  updateCheckout,
+  reserveInventory,
+  setInventoryLevel,
+  completeCheckout,
+  addPaymentTransaction,
+  getOrder,
+  getCollection,
+  getCollectionProducts,
+  getCollections,
+  getMenu,
+  getPage,
+  getPages,
+  getProduct,
+  getProductRecommendations,
+  getProducts,
+  getSearchSuggestions,
+  getSpellingSuggestion,
+  revalidate
+};
@@ -0,0 +1,319 @@
+import {
+  deleteRecord,
+  getCollectionMtime,
+  listRecords,
+  readRecord,
+  withRecordLock,
+  writeRecord
+} from 'lib/store';
+import { CommerceUserError } from '../../errors';
+import { Product } from '../../types';
+import type { Catalog } from './catalog';
+import { evaluateRuleSets } from './collection-rules';
+
+const INVENTORY = 'inventory';
+const RESERVATIONS = 'reservations';
+
+// How long a checkout holds its items, in minutes. Every checkout step the shopper completes
+// holds them for this long again.
+const RESERVATION_MINUTES = Number(process.env.COMMERCE_RESERVATION_MINUTES) || 15;
+
+// A variant's on-hand quantity per location, once it has changed from the catalog's.
+type InventoryLevel = {
+  id: string;
+  locations: Record<string, number>;
+  updatedAt: string;
+};
+
+// What a checkout holds, in units per variant id.
+type Reservation = {
+  id: string;
+  lines: Record<string, number>;
+  expiresAt: string;
+};
+
+export type StockLine = { merchandiseId: string; quantity: number };
+
+type StoredStock = { levels: InventoryLevel[]; reservations: Reservation[] };
+
+let cached: { signature: string; stock: Promise<StoredStock> } | undefined;
+
+// Every page and cart reads stock, so what the store holds is only read again once a record has
+// been written or deleted since, which changes its collection's mtime.
+async function readStock(): Promise<StoredStock> {
+  const signature = (
+    await Promise.all([getCollectionMtime(INVENTORY), getCollectionMtime(RESERVATIONS)])
+  ).join(':');
+
+  if (cached?.signature !== signature) {
+    const stock = Promise.all([
+      listRecords<InventoryLevel>(INVENTORY),
+      listRecords<Reservation>(RESERVATIONS)
+    ]).then(([levels, reservations]) => ({ levels, reservations }));
+
+    cached = { signature, stock };
+    // Don't keep a failed read around for the next request.
+    stock.catch(() => {
+      if (cached?.stock === stock) {
+        cached = undefined;
+      }
+    });
+  }
+
+  return cached.stock;
+}
+
+// Stock is only ever changed under this lock, so two checkouts can't both take the last item.
+const withStockLock = <T>(callback: () => Promise<T>) =>
+  withRecordLock(INVENTORY, 'stock', callback);
+
+async function getLevels(catalog: Catalog): Promise<Map<string, Record<string, number>>> {
+  const levels = new Map(Object.entries(catalog.inventory));
+
+  for (const level of (await readStock()).levels) {
+    levels.set(level.id, level.locations);
+  }
+
+  return levels;
+}
+
+// Reservations run out on their own, so this is worked out again on every read.
+async function getActiveReservations(): Promise<Reservation[]> {
+  const now = Date.now();
+
+  return (await readStock()).reservations.filter(
+    (reservation) => Date.parse(reservation.expiresAt) > now
+  );
+}
+
+const sum = (quantities: Record<string, number>) =>
+  Object.values(quantities).reduce((total, quantity) => total + quantity, 0);
+
+// How many of each tracked variant can still be bought: what is on hand, less what checkouts
+// other than `cartId`'s hold. Variants without stock levels aren't tracked and are left out.
+export async function getAvailableQuantities(
+  catalog: Catalog,
+  cartId?: string
+): Promise<Map<string, number>> {
+  const [levels, reservations] = await Promise.all([getLevels(catalog), getActiveReservations()]);
+  const available = new Map([...levels].map(([id, locations]) => [id, sum(locations)]));
+
+  for (const reservation of reservations) {
+    if (reservation.id === cartId) {
+      continue;
+    }
+
+    for (const [id, quantity] of Object.entries(reservation.lines)) {
+      if (available.has(id)) {
+        available.set(id, available.get(id)! - quantity);
+      }
+    }
+  }
+
+  return new Map([...available].map(([id, quantity]) => [id, Math.max(quantity, 0)]));
+}
+
+const stockedCatalogs = new WeakMap<Catalog, { key: string; catalog: Catalog }>();
+
+// The catalog with every tracked variant's `quantityAvailable`, and `availableForSale` derived
+// from it. Smart collections are evaluated again, so rules on availability follow stock. The
+// result is reused until stock changes, so what is cached per catalog (such as the search index)
+// isn't rebuilt on every read.
+export async function applyInventory(catalog: Catalog): Promise<Catalog> {
+  const available = await getAvailableQuantities(catalog);
+
+  if (!available.size) {
+    return catalog;
+  }
+
+  const key = [...available].join(';');
+  const cached = stockedCatalogs.get(catalog);
+
+  if (cached?.key === key) {
+    return cached.catalog;
+  }
+
+  const stock = (product: Product): Product => {
+    const variants = product.variants.map((variant) => {
+      const quantityAvailable = available.get(variant.id);
+
+      return quantityAvailable === undefined
+        ? variant
+        : { ...variant, quantityAvailable, availableForSale: quantityAvailable > 0 };
+    });
+
+    return { ...product, variants, availableForSale: variants.some((v) => v.availableForSale) };
+  };
+  const products = catalog.products.map(stock);
+  const ruleProducts =
+    catalog.ruleProducts === catalog.products ? products : catalog.ruleProducts.map(stock);
+  const stocked = {
+    ...catalog,
+    products,
+    collectionProducts: {
+      ...catalog.collectionProducts,
+      ...evaluateRuleSets(catalog.collectionRuleSets, ruleProducts)
+    },
+    ruleProducts
+  };
+
+  stockedCatalogs.set(catalog, { key, catalog: stocked });
+
+  return stocked;
+}
+
+// The error carts and checkouts throw when too few of a variant are left. Its code is the one the
+// Storefront API uses for the same problem.
+function notEnoughStock(
+  catalog: Catalog,
+  merchandiseId: string,
+  quantityAvailable: number,
+  operation: string
+): CommerceUserError {
+  const product = catalog.products.find((product) =>
+    product.variants.some((variant) => variant.id === merchandiseId)
+  );
+  const variant = product?.variants.find((variant) => variant.id === merchandiseId);
+  const title = [product?.title, variant?.title].filter(Boolean).join(' - ');
+  const message = quantityAvailable
+    ? `Only ${quantityAvailable} of '${title}' left.`
+    : `'${title}' is sold out.`;
+
+  return new CommerceUserError(message, {
+    operation,
+    errors: [
+      {
+        message,
+        extensions: {
+          code: 'MERCHANDISE_NOT_ENOUGH_STOCK',
+          merchandiseId,
+          title,
+          quantityAvailable
+        }
+      }
+    ],
+    meta: { merchandiseId, quantityAvailable }
+  });
+}
+
+function assertAvailable(
+  catalog: Catalog,
+  available: Map<string, number>,
+  lines: StockLine[],
+  operation: string
+) {
+  for (const { merchandiseId, quantity } of lines) {
+    const quantityAvailable = available.get(merchandiseId);
+
+    if (quantityAvailable !== undefined && quantity > quantityAvailable) {
+      throw notEnoughStock(catalog, merchandiseId, quantityAvailable, operation);
+    }
+  }
+}
+
+// Checks that a cart could hold `lines`, counting what its own checkout holds as available.
+export async function assertInStock(
+  catalog: Catalog,
+  cartId: string,
+  lines: StockLine[],
+  operation: string
+): Promise<void> {
+  assertAvailable(catalog, await getAvailableQuantities(catalog, cartId), lines, operation);
+}
+
+// Holds the cart's items for its checkout, replacing what it held before. Reservations that ran
+// out are deleted on the way, as carts that never check out would otherwise leave them behind.
+export async function reserveStock(
+  catalog: Catalog,
+  cartId: string,
+  lines: StockLine[]
+): Promise<void> {
+  await withStockLock(async () => {
+    const now = Date.now();
+
+    for (const reservation of (await readStock()).reservations) {
+      if (Date.parse(reservation.expiresAt) <= now) {
+        await deleteRecord(RESERVATIONS, reservation.id);
+      }
+    }
+
+    assertAvailable(
+      catalog,
+      await getAvailableQuantities(catalog, cartId),
+      lines,
+      'reserveInventory'
+    );
+
+    await writeRecord<Reservation>(RESERVATIONS, cartId, {
+      id: cartId,
+      lines: Object.fromEntries(lines.map((line) => [line.merchandiseId, line.quantity])),
+      expiresAt: new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000).toISOString()
+    });
+  });
+}
+
+// Takes an order's items out of stock and lets go of what its checkout held. Items come from
+// `location` first, e.g. the store an order is picked up from, then from the other locations in
+// the order they are listed.
+export async function commitStock(
+  catalog: Catalog,
+  cartId: string,
+  lines: StockLine[],
+  location?: string
+): Promise<void> {
+  await withStockLock(async () => {
+    const [levels, available] = await Promise.all([
+      getLevels(catalog),
+      getAvailableQuantities(catalog, cartId)
+    ]);
+
+    assertAvailable(catalog, available, lines, 'completeCheckout');
+
+    const now = new Date().toISOString();
+
+    for (const { merchandiseId, quantity } of lines) {
+      const locations = levels.get(merchandiseId);
+
+      if (!locations) {
+        continue;
+      }
+
+      const remaining = { ...locations };
+      const order = Object.keys(remaining).sort((a, b) => +(b === location) - +(a === location));
+      let needed = quantity;
+
+      for (const name of order) {
+        const taken = Math.min(needed, remaining[name]!);
+        remaining[name]! -= taken;
+        needed -= taken;
+      }
+
+      await writeRecord<InventoryLevel>(INVENTORY, merchandiseId, {
+        id: merchandiseId,
+        locations: remaining,
+        updatedAt: now
+      });
+    }
+
+    await deleteRecord(RESERVATIONS, cartId);
+  });
+}
+
+// Sets how many of a variant are on hand at a location, e.g. after a delivery or a stock count.
+export async function setStockLevel(
+  catalog: Catalog,
+  merchandiseId: string,
+  location: string,
+  quantity: number
+): Promise<void> {
+  await withStockLock(async () => {
+    const stored = await readRecord<InventoryLevel>(INVENTORY, merchandiseId);
+    const locations = stored?.locations || catalog.inventory[merchandiseId] || {};
+
+    await writeRecord<InventoryLevel>(INVENTORY, merchandiseId, {
+      id: merchandiseId,
+      locations: { ...locations, [location]: quantity },
+      updatedAt: new Date().toISOString()
+    });
+  });
+}
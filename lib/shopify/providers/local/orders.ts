@@ -0,0 +1,131 @@
+import { getPaymentTotals } from 'lib/payments';
+import { readRecord, withRecordLock, writeRecord } from 'lib/store';
+import { CommerceNotFoundError, CommerceUserError } from '../../errors';
+import { Order, OrderPayment, OrderStatus, PaymentTransaction } from '../../types';
+import { ORDERS } from './sales';
+
+// What the caller fills in; the repository numbers the order and starts its history.
+export type NewOrder = Omit<Order, 'name' | 'status' | 'statusHistory' | 'createdAt' | 'updatedAt'>;
+
+const COUNTERS = 'counters';
+// Shopify numbers orders from #1001 too.
+const FIRST_ORDER_NUMBER = 1001;
+
+async function getNextOrderNumber(): Promise<number> {
+  return withRecordLock(COUNTERS, ORDERS, async () => {
+    const counter = await readRecord<{ next: number }>(COUNTERS, ORDERS);
+    const next = counter?.next ?? FIRST_ORDER_NUMBER;
+
+    await writeRecord(COUNTERS, ORDERS, { next: next + 1 });
+
+    return next;
+  });
+}
+
+// Where an order's payment leaves it. Orders without a card payment wait for one, e.g. a bank
+// transfer, until their status is changed by hand.
+function getPaymentStatus(payment: OrderPayment | undefined): OrderStatus {
+  const { authorized, captured, refunded, voided } = payment
+    ? getPaymentTotals(payment)
+    : { authorized: false, captured: 0, refunded: 0, voided: false };
+
+  if (voided) {
+    return 'cancelled';
+  }
+
+  if (refunded) {
+    return refunded >= captured ? 'refunded' : 'partiallyRefunded';
+  }
+
+  if (captured) {
+    return 'paid';
+  }
+
+  return authorized ? 'authorized' : 'pending';
+}
+
+// Every order starts out pending; one paid for already moves on from there straight away.
+export async function createOrder(order: NewOrder): Promise<Order> {
+  const now = new Date().toISOString();
+  const status = getPaymentStatus(order.payment);
+
+  return writeRecord<Order>(ORDERS, order.id, {
+    ...order,
+    name: `#${await getNextOrderNumber()}`,
+    status,
+    statusHistory: [
+      { status: 'pending', createdAt: now },
+      ...(status !== 'pending' ? [{ status, createdAt: now }] : [])
+    ],
+    createdAt: now,
+    updatedAt: now
+  });
+}
+
+export async function getOrder(id: string): Promise<Order | undefined> {
+  return readRecord<Order>(ORDERS, id);
+}
+
+async function updateOrder(
+  id: string,
+  operation: string,
+  update: (order: Order, now: string) => Order
+): Promise<Order> {
+  return withRecordLock(ORDERS, id, async () => {
+    const order = await getOrder(id);
+
+    if (!order) {
+      throw new CommerceNotFoundError(`Order '${id}' not found.`, {
+        operation,
+        meta: { orderId: id }
+      });
+    }
+
+    const now = new Date().toISOString();
+
+    return writeRecord<Order>(ORDERS, id, { ...update(order, now), updatedAt: now });
+  });
+}
+
+// Moves the order to `status` and records the change in its history.
+export async function updateOrderStatus(
+  id: string,
+  status: OrderStatus,
+  note?: string
+): Promise<Order> {
+  return updateOrder(id, 'updateOrderStatus', (order, now) => ({
+    ...order,
+    status,
+    statusHistory: [...order.statusHistory, { status, ...(note && { note }), createdAt: now }]
+  }));
+}
+
+export async function addPaymentTransaction(
+  id: string,
+  transaction: PaymentTransaction
+): Promise<Order> {
+  return updateOrder(id, 'addPaymentTransaction', (order, now) => {
+    if (!order.payment) {
+      throw new CommerceUserError(`Order '${id}' has no card payment.`, {
+        operation: 'addPaymentTransaction',
+        meta: { orderId: id }
+      });
+    }
+
+    const payment = {
+      ...order.payment,
+      transactions: [...order.payment.transactions, transaction]
+    };
+    const status = getPaymentStatus(payment);
+
+    return {
+      ...order,
+      payment,
+      status,
+      statusHistory:
+        status !== order.status
+          ? [...order.statusHistory, { status, createdAt: now }]
+          : order.statusHistory
+    };
+  });
+}
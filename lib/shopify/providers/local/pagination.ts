@@ -0,0 +1,46 @@
+import { PaginationOptions, Product, ProductPage } from '../../types';
+
+// Cursors are opaque to callers; here they are the base64url-encoded product id, so they stay
+// valid when products are added to or removed from the list around them.
+export const getCursor = (product: Product) => Buffer.from(product.id).toString('base64url');
+
+const decodeCursor = (cursor: string) => Buffer.from(cursor, 'base64url').toString();
+
+// Relay-style cursor pagination over an already filtered and sorted list. A cursor that is no
+// longer in the list (e.g. a deleted product) is ignored rather than failing the page.
+export function paginate(
+  products: Product[],
+  { first, after, before }: PaginationOptions
+): Omit<ProductPage, 'facets'> {
+  const indexOf = (cursor: string) => {
+    const id = decodeCursor(cursor);
+    return products.findIndex((product) => product.id === id);
+  };
+  const afterIndex = after ? indexOf(after) : -1;
+  const beforeIndex = before ? indexOf(before) : -1;
+  let start = afterIndex + 1;
+  let end = beforeIndex === -1 ? products.length : beforeIndex;
+
+  if (first !== undefined) {
+    if (before) {
+      start = Math.max(start, end - first);
+    } else {
+      end = Math.min(end, start + first);
+    }
+  }
+
+  const page = products.slice(start, end);
+  const firstProduct = page[0];
+  const lastProduct = page[page.length - 1];
+
+  return {
+    products: page,
+    pageInfo: {
+      hasNextPage: end < products.length,
+      hasPreviousPage: start > 0,
+      startCursor: firstProduct ? getCursor(firstProduct) : null,
+      endCursor: lastProduct ? getCursor(lastProduct) : null
+    },
+    totalCount: products.length
+  };
+}
@@ -0,0 +1,58 @@
+import { HIDDEN_PRODUCT_TAG } from 'lib/constants';
+import { Product } from '../../types';
+import { Catalog, getCatalog } from './catalog';
+import { getCoPurchases } from './sales';
+
+const MAX_RECOMMENDATIONS = 10;
+
+// How much each kind of overlap counts towards a product's similarity score.
+const WEIGHTS = {
+  tag: 1,
+  collection: 2,
+  coPurchase: 3
+};
+
+// Collections a product is merchandised in; the `hidden-*` homepage collections don't say
+// anything about what a product is.
+function getCollectionHandles(catalog: Catalog, product: Product) {
+  return Object.entries(catalog.collectionProducts)
+    .filter(([handle, handles]) => !handle.startsWith('hidden') && handles.includes(product.handle))
+    .map(([handle]) => handle);
+}
+
+export async function getProductRecommendations(productId: string): Promise<Product[]> {
+  const catalog = await getCatalog();
+  const product = catalog.products.find((product) => product.id === productId);
+
+  if (!product) {
+    return [];
+  }
+
+  const collections = getCollectionHandles(catalog, product);
+  // Products bought in the same order count once per order.
+  const coPurchases = (await getCoPurchases()).get(productId) || new Map<string, number>();
+
+  return (
+    catalog.products
+      .filter(
+        (candidate) => candidate.id !== productId && !candidate.tags.includes(HIDDEN_PRODUCT_TAG)
+      )
+      .map((candidate) => {
+        const sharedTags = candidate.tags.filter((tag) => product.tags.includes(tag)).length;
+        const sharedCollections = getCollectionHandles(catalog, candidate).filter((handle) =>
+          collections.includes(handle)
+        ).length;
+        const score =
+          sharedTags * WEIGHTS.tag +
+          sharedCollections * WEIGHTS.collection +
+          (coPurchases.get(candidate.id) || 0) * WEIGHTS.coPurchase;
+
+        return { candidate, score };
+      })
+      .filter(({ score }) => score > 0)
+      // Stable sort, so equally similar products keep their catalog order.
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RECOMMENDATIONS)
+      .map(({ candidate }) => candidate)
+  );
+}
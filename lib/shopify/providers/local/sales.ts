@@ -0,0 +1,82 @@
+import { getCollectionMtime, listRecords } from 'lib/store';
+
+export const ORDERS = 'orders';
+
+// Only the part of an order that sales ranking, recommendations and discount limits need.
+type OrderLines = {
+  lines: { productId: string; quantity: number }[];
+  discountCodes?: string[];
+};
+
+// Wraps a tally over every order placed so far, so it is only worked out again once an order has
+// been written since, which changes the collection's mtime.
+function tallyOrders<T>(tally: (orders: OrderLines[]) => T): () => Promise<T> {
+  let cached: { mtime: number; result: Promise<T> } | undefined;
+
+  return async () => {
+    const mtime = await getCollectionMtime(ORDERS);
+
+    if (cached?.mtime !== mtime) {
+      const result = listRecords<OrderLines>(ORDERS).then(tally);
+
+      cached = { mtime, result };
+      // Don't keep a failed read around for the next request.
+      result.catch(() => {
+        if (cached?.result === result) {
+          cached = undefined;
+        }
+      });
+    }
+
+    return cached.result;
+  };
+}
+
+// Units sold per product id, over every order placed so far.
+export const getSalesVolume = tallyOrders((orders) => {
+  const sales = new Map<string, number>();
+
+  for (const order of orders) {
+    for (const { productId, quantity } of order.lines) {
+      sales.set(productId, (sales.get(productId) || 0) + quantity);
+    }
+  }
+
+  return sales;
+});
+
+// For each product id, how many orders also had each other product in them.
+export const getCoPurchases = tallyOrders((orders) => {
+  const coPurchases = new Map<string, Map<string, number>>();
+
+  for (const order of orders) {
+    const productIds = new Set(order.lines.map((line) => line.productId));
+
+    for (const productId of productIds) {
+      const counts = coPurchases.get(productId) || new Map<string, number>();
+
+      for (const other of productIds) {
+        if (other !== productId) {
+          counts.set(other, (counts.get(other) || 0) + 1);
+        }
+      }
+
+      coPurchases.set(productId, counts);
+    }
+  }
+
+  return coPurchases;
+});
+
+// Orders placed per discount code, for codes with a usage limit.
+export const getDiscountUsage = tallyOrders((orders) => {
+  const usage = new Map<string, number>();
+
+  for (const order of orders) {
+    for (const code of order.discountCodes || []) {
+      usage.set(code, (usage.get(code) || 0) + 1);
+    }
+  }
+
+  return usage;
+});
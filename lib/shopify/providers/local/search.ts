@@ -0,0 +1,344 @@
+import { Product } from '../../types';
+import { Catalog } from './catalog';
+
+// An in-process full-text index over the local catalog. Every searchable field is tokenized and
+// stemmed; query terms match index terms exactly, with a typo or two, or (for the term being
+// typed last) as a prefix. Scores are TF-IDF weighted by how important the field is.
+const FIELD_BOOSTS = {
+  title: 5,
+  tags: 3,
+  options: 2,
+  variants: 2,
+  description: 1
+};
+
+type Field = keyof typeof FIELD_BOOSTS;
+
+// Ignored in queries unless there is nothing else, so "cup for the office" needs no "for".
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'the', 'to', 'with']);
+
+// Fuzzy and prefix matches count for less than the exact term.
+const TYPO_PENALTY = 0.4;
+const PREFIX_PENALTY = 0.3;
+
+type SearchIndex = {
+  // Stemmed term -> product id -> boosted term frequency.
+  postings: Map<string, Map<string, number>>;
+  // Unstemmed words and how often they occur, used for "did you mean" suggestions.
+  words: Map<string, number>;
+  productCount: number;
+};
+
+export type SearchResult = { product: Product; score: number };
+
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+const isVowel = (word: string, index: number): boolean =>
+  'aeiou'.includes(word[index]!) || (word[index] === 'y' && index > 0 && !isVowel(word, index - 1));
+
+const hasVowel = (word: string) => [...word].some((_, index) => isVowel(word, index));
+
+// A light suffix stripper in the spirit of Porter's algorithm, so "hoodies" finds "hoodie" and
+// "bags" finds "bag". Both sides of a match are stemmed, so it only has to be consistent.
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+
+  if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('ies')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !result.endsWith('ss') && !result.endsWith('us')) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed']) {
+    const base = result.slice(0, -suffix.length);
+
+    if (result.endsWith(suffix) && base.length >= 3 && hasVowel(base)) {
+      // "shipped" -> "shipp" -> "ship"
+      result = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base;
+      break;
+    }
+  }
+
+  if (result.length > 2 && result.endsWith('y') && !isVowel(result, result.length - 2)) {
+    result = `${result.slice(0, -1)}i`;
+  }
+
+  if (result.length > 4 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one typo. Gives up
+// as soon as the distance is known to exceed `max`.
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j]! + 1, nextRow[j - 1]! + 1, row[j - 1]! + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2]! + 1);
+      }
+
+      nextRow.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return row[b.length]!;
+}
+
+// Short words have too many neighbours to guess at.
+const allowedTypos = (term: string) => (term.length < 4 ? 0 : term.length < 8 ? 1 : 2);
+
+const getFieldText = (product: Product, field: Field): string => {
+  switch (field) {
+    case 'title':
+      return product.title;
+    case 'tags':
+      return product.tags.join(' ');
+    case 'options':
+      return product.options.flatMap((option) => option.values).join(' ');
+    case 'variants':
+      return product.variants.map((variant) => variant.title).join(' ');
+    case 'description':
+      return product.description;
+  }
+};
+
+function buildIndex(products: Product[]): SearchIndex {
+  const postings: SearchIndex['postings'] = new Map();
+  const words: SearchIndex['words'] = new Map();
+
+  for (const product of products) {
+    for (const field of Object.keys(FIELD_BOOSTS) as Field[]) {
+      for (const word of tokenize(getFieldText(product, field))) {
+        const term = stem(word);
+        const termPostings = postings.get(term) || new Map<string, number>();
+
+        termPostings.set(product.id, (termPostings.get(product.id) || 0) + FIELD_BOOSTS[field]);
+        postings.set(term, termPostings);
+        words.set(word, (words.get(word) || 0) + 1);
+      }
+    }
+  }
+
+  return { postings, words, productCount: products.length };
+}
+
+const indexes = new WeakMap<Catalog, SearchIndex>();
+
+// Catalogs are immutable once loaded, so each one is indexed once and the index is dropped
+// together with the catalog it belongs to.
+function getIndex(catalog: Catalog): SearchIndex {
+  let index = indexes.get(catalog);
+
+  if (!index) {
+    index = buildIndex(catalog.products);
+    indexes.set(catalog, index);
+  }
+
+  return index;
+}
+
+// Index terms a single query word matches, with how much each match is worth.
+function matchTerms(index: SearchIndex, word: string, isLast: boolean): Map<string, number> {
+  const queryTerm = stem(word);
+  const maxTypos = allowedTypos(queryTerm);
+  const matches = new Map<string, number>();
+
+  for (const term of index.postings.keys()) {
+    if (term === queryTerm) {
+      matches.set(term, 1);
+      continue;
+    }
+
+    const typos = maxTypos ? editDistance(queryTerm, term, maxTypos) : maxTypos + 1;
+    const weight = Math.max(
+      typos <= maxTypos ? 1 - TYPO_PENALTY * typos : 0,
+      isLast && word.length >= 2 && term.startsWith(word) ? 1 - PREFIX_PENALTY : 0
+    );
+
+    if (weight > 0) {
+      matches.set(term, weight);
+    }
+  }
+
+  return matches;
+}
+
+// Every word of the query has to match; results are ordered by score, best first.
+function searchWords(catalog: Catalog, query: string): SearchResult[] {
+  const index = getIndex(catalog);
+  const allWords = tokenize(query);
+  const keywords = allWords.filter((word) => !STOP_WORDS.has(word));
+  const words = keywords.length ? keywords : allWords;
+  const scores = new Map<string, number>();
+
+  if (!words.length) {
+    return catalog.products.map((product) => ({ product, score: 0 }));
+  }
+
+  words.forEach((word, position) => {
+    const wordScores = new Map<string, number>();
+
+    for (const [term, weight] of matchTerms(index, word, position === words.length - 1)) {
+      const termPostings = index.postings.get(term)!;
+      const idf = Math.log(1 + index.productCount / termPostings.size);
+
+      for (const [productId, frequency] of termPostings) {
+        // A word counts once per product, through its best matching term.
+        const score = frequency * idf * weight;
+        wordScores.set(productId, Math.max(wordScores.get(productId) || 0, score));
+      }
+    }
+
+    if (position === 0) {
+      wordScores.forEach((score, productId) => scores.set(productId, score));
+      return;
+    }
+
+    for (const [productId, score] of scores) {
+      const wordScore = wordScores.get(productId);
+
+      if (wordScore === undefined) {
+        scores.delete(productId);
+      } else {
+        scores.set(productId, score + wordScore);
+      }
+    }
+  });
+
+  return catalog.products
+    .filter((product) => scores.has(product.id))
+    .map((product) => ({ product, score: scores.get(product.id)! }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Queries may be alternatives joined by `OR`, as in Shopify's search syntax, which is how synonyms
+// arrive: a product matching any of them is found, with its best score. Parentheses are ignored.
+export function searchProducts(catalog: Catalog, query: string): SearchResult[] {
+  const alternatives = query.split(/\bOR\b/).filter((alternative) => tokenize(alternative).length);
+
+  if (alternatives.length <= 1) {
+    return searchWords(catalog, alternatives[0] || '');
+  }
+
+  const scores = new Map<string, number>();
+
+  for (const alternative of alternatives) {
+    for (const { product, score } of searchWords(catalog, alternative)) {
+      scores.set(product.id, Math.max(scores.get(product.id) || 0, score));
+    }
+  }
+
+  return catalog.products
+    .filter((product) => scores.has(product.id))
+    .map((product) => ({ product, score: scores.get(product.id)! }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Rewrites each unknown word of a query to the closest word in the catalog, preferring fewer
+// typos and then more common words. Only returned if the rewritten query finds something.
+export function correctSpelling(catalog: Catalog, query: string): string | undefined {
+  const index = getIndex(catalog);
+  const words = tokenize(query);
+  let changed = false;
+
+  const corrected = words.map((word) => {
+    if (STOP_WORDS.has(word) || index.words.has(word) || index.postings.has(stem(word))) {
+      return word;
+    }
+
+    const maxTypos = Math.max(1, allowedTypos(word));
+    let best: { word: string; typos: number; count: number } | undefined;
+
+    for (const [candidate, count] of index.words) {
+      if (STOP_WORDS.has(candidate)) {
+        continue;
+      }
+
+      const typos = editDistance(word, candidate, maxTypos);
+
+      if (
+        typos <= maxTypos &&
+        (!best || typos < best.typos || (typos === best.typos && count > best.count))
+      ) {
+        best = { word: candidate, typos, count };
+      }
+    }
+
+    if (!best) {
+      return word;
+    }
+
+    changed = true;
+    return best.word;
+  });
+
+  const suggestion = corrected.join(' ');
+
+  return changed && searchProducts(catalog, suggestion).length ? suggestion : undefined;
+}
+
+// Completes the word being typed into whole catalog words, most common first, keeping the words
+// before it. Like spelling corrections, a completion has to find something to be offered.
+export function completeQuery(catalog: Catalog, query: string, limit: number): string[] {
+  const index = getIndex(catalog);
+  const words = tokenize(query);
+  const last = words.pop();
+
+  if (!last) {
+    return [];
+  }
+
+  const completions: string[] = [];
+  const candidates = [...index.words]
+    .filter(([word]) => word.length > last.length && word.startsWith(last))
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+
+  for (const [word] of candidates) {
+    const completion = [...words, word].join(' ');
+
+    if (searchProducts(catalog, completion).length) {
+      completions.push(completion);
+    }
+
+    if (completions.length === limit) {
+      break;
+    }
+  }
+
+  return completions;
+}
@@ -0,0 +1,1019 @@
+import {
+  HIDDEN_PRODUCT_TAG,
+  SEARCH_SUGGESTIONS_LIMIT,
+  Locale,
+  SHOPIFY_GRAPHQL_API_ENDPOINT,
+  TAGS
+} from 'lib/constants';
+import { getSelectedCurrency } from 'lib/currency';
+import { sumDiscountAllocations } from 'lib/discounts';
+import { getLocale } from 'lib/i18n/server';
+import { isObject } from 'lib/type-guards';
+import { ensureStartsWith } from 'lib/utils';
+import { revalidateTag } from 'next/cache';
+import { headers } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CommerceNetworkError,
+  CommerceNotFoundError,
+  CommerceThrottledError,
+  CommerceUserError,
+  getOperationName,
+  GraphQLErrorDetail
+} from '../errors';
+import {
+  addToCartMutation,
+  createCartMutation,
+  editCartItemsMutation,
+  removeFromCartMutation,
+  updateBuyerIdentityMutation,
+  updateDiscountCodesMutation
+} from '../mutations/cart';
+import { getCartQuery } from '../queries/cart';
+import {
+  getCollectionProductsQuery,
+  getCollectionQuery,
+  getCollectionsQuery
+} from '../queries/collection';
+import { getMenuQuery } from '../queries/menu';
+import { getPageQuery, getPagesQuery } from '../queries/page';
+import {
+  getProductQuery,
+  getProductRecommendationsQuery,
+  getProductsQuery
+} from '../queries/product';
+import { getSearchSuggestionsQuery, getSpellingSuggestionQuery } from '../queries/search';
+import { sortProducts } from '../sort';
+import {
+  Cart,
+  CartBuyerIdentity,
+  CartDiscountAllocation,
+  CartItem,
+  Collection,
+  CommerceProvider,
+  Connection,
+  Facet,
+  Image,
+  Menu,
+  Order,
+  Page,
+  PageInfo,
+  PaginationOptions,
+  Product,
+  ProductFilter,
+  ProductPage,
+  ProductRating,
+  SearchSuggestions,
+  ShopifyAddToCartOperation,
+  ShopifyCart,
+  ShopifyCartOperation,
+  ShopifyCollection,
+  ShopifyCollectionOperation,
+  ShopifyCollectionProductsOperation,
+  ShopifyCollectionsOperation,
+  ShopifyCreateCartOperation,
+  ShopifyDiscountAllocation,
+  ShopifyFilter,
+  ShopifyMenuOperation,
+  ShopifyMetafield,
+  ShopifyPageOperation,
+  ShopifyPagesOperation,
+  ShopifyProduct,
+  ShopifyProductOperation,
+  ShopifyProductRecommendationsOperation,
+  ShopifyProductsOperation,
+  ShopifyRemoveFromCartOperation,
+  ShopifySearchSuggestionsOperation,
+  ShopifySpellingSuggestionOperation,
+  ShopifyUpdateBuyerIdentityOperation,
+  ShopifyUpdateCartOperation,
+  ShopifyUpdateDiscountCodesOperation
+} from '../types';
+import { paginate } from './local/pagination';
+
+const storeDomain = process.env.SHOPIFY_STORE_DOMAIN;
+// An explicit `http://` domain is allowed so the local Storefront API stand-in can be used.
+const domain = storeDomain
+  ? storeDomain.startsWith('http://')
+    ? storeDomain
+    : ensureStartsWith(storeDomain, 'https://')
+  : '';
+const endpoint = `${domain}${SHOPIFY_GRAPHQL_API_ENDPOINT}`;
+const key = process.env.SHOPIFY_STOREFRONT_ACCESS_TOKEN!;
+
+type ExtractVariables<T> = T extends { variables: object } ? T['variables'] : never;
+
+// Parses `Retry-After` (seconds or an HTTP date) into milliseconds.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+type ShopifyFetchOptions<T> = {
+  cache?: RequestCache;
+  headers?: HeadersInit;
+  query: string;
+  tags?: string[];
+  variables?: ExtractVariables<T>;
+  // Milliseconds before a single attempt is aborted.
+  timeout?: number;
+  // How many times a failed attempt may be repeated.
+  retries?: number;
+  // The market to price the operation in. Defaults to the one for the shopper's currency.
+  country?: string;
+  // The language to translate the operation's content into. Defaults to the page's locale.
+  language?: Locale;
+};
+
+// A whole number of at least `min` from the environment, else `fallback`, so a typo can't turn
+// into a NaN that retries forever or a timeout that aborts every request.
+const parseSetting = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+const defaultTimeout = parseSetting(process.env.SHOPIFY_FETCH_TIMEOUT_MS, 10000, 1);
+const defaultRetries = parseSetting(process.env.SHOPIFY_FETCH_RETRIES, 3, 0);
+const BASE_BACKOFF = 250;
+const MAX_BACKOFF = 5000;
+// Waiting longer than this for a `Retry-After` would stall the render; fail instead.
+const MAX_RETRY_AFTER = 10000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter, unless Shopify told us how long to wait.
+const getBackoff = (attempt: number, error: unknown) => {
+  if (error instanceof CommerceThrottledError && error.retryAfter !== undefined) {
+    return error.retryAfter;
+  }
+
+  return Math.random() * Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** attempt);
+};
+
+// Throttled requests were never executed, so they are always safe to repeat. Network failures
+// and timeouts may have reached Shopify, so only queries (never mutations) are retried for those.
+const isRetryable = (error: unknown, isMutation: boolean) =>
+  error instanceof CommerceThrottledError ||
+  (!isMutation && error instanceof CommerceNetworkError && error.status >= 500);
+
+const inFlight = new Map<string, Promise<{ status: number; body: unknown }>>();
+
+// The `@inContext` arguments, with the variable and type each is passed as.
+const contextArguments = {
+  country: { variable: 'contextCountry', type: 'CountryCode' },
+  language: { variable: 'contextLanguage', type: 'LanguageCode' }
+};
+
+// Shopify prices an operation in the currency of the market it runs in and translates it into
+// its language, both set with the `@inContext` directive on the operation itself.
+async function withContext<T>(options: ShopifyFetchOptions<T>): Promise<ShopifyFetchOptions<T>> {
+  const values: Record<keyof typeof contextArguments, string | undefined> = {
+    country: options.country ?? (await getSelectedCurrency())?.country,
+    // `LanguageCode` is an enum like `FR` or `PT_BR`.
+    language: (options.language ?? getLocale()).toUpperCase().replace('-', '_')
+  };
+  const context = Object.entries(contextArguments).flatMap(([name, argument]) => {
+    const value = values[name as keyof typeof contextArguments];
+    return value ? [{ name, value, ...argument }] : [];
+  });
+  const definitions = context.map((argument) => `$${argument.variable}: ${argument.type}`);
+  const directiveArguments = context.map((argument) => `${argument.name}: $${argument.variable}`);
+
+  return {
+    ...options,
+    query: options.query.replace(
+      /\b(query|mutation)\s+(\w+)\s*(?:\(([^)]*)\))?/,
+      (_, operation: string, name: string, args?: string) =>
+        `${operation} ${name}(${[args, ...definitions].filter(Boolean).join(', ')}) ` +
+        `@inContext(${directiveArguments.join(', ')})`
+    ),
+    variables: {
+      ...options.variables,
+      ...Object.fromEntries(context.map(({ variable, value }) => [variable, value]))
+    } as ExtractVariables<T>
+  };
+}
+
+export async function shopifyFetch<T>(
+  input: ShopifyFetchOptions<T>
+): Promise<{ status: number; body: T } | never> {
+  const options = await withContext(input);
+  const { query, retries = defaultRetries } = options;
+  const isMutation = /^\s*mutation\b/.test(query);
+
+  const run = async () => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await shopifyFetchOnce<T>(options);
+      } catch (e) {
+        const backoff = getBackoff(attempt, e);
+
+        if (attempt >= retries || !isRetryable(e, isMutation) || backoff > MAX_RETRY_AFTER) {
+          throw e;
+        }
+
+        await sleep(backoff);
+      }
+    }
+  };
+
+  if (isMutation) {
+    return run();
+  }
+
+  // Identical queries that are already on their way share a single request.
+  const { cache, headers, tags, variables } = options;
+  const key = JSON.stringify([query, variables, cache, tags, headers]);
+  const pending = inFlight.get(key);
+
+  // The key includes the query, which decides the shape of the body.
+  if (pending) {
+    return pending as Promise<{ status: number; body: T }>;
+  }
+
+  const request = run().finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+
+  return request;
+}
+
+async function shopifyFetchOnce<T>({
+  cache = 'force-cache',
+  headers,
+  query,
+  tags,
+  variables,
+  timeout = defaultTimeout
+}: ShopifyFetchOptions<T>): Promise<{ status: number; body: T }> {
+  const operation = getOperationName(query);
+  let result: Response;
+
+  try {
+    result = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopify-Storefront-Access-Token': key,
+        ...headers
+      },
+      body: JSON.stringify({
+        ...(query && { query }),
+        ...(variables && { variables })
+      }),
+      cache,
+      signal: AbortSignal.timeout(timeout),
+      ...(tags && { next: { tags } })
+    });
+  } catch (e) {
+    const timedOut = e instanceof Error && e.name === 'TimeoutError';
+
+    throw new CommerceNetworkError(
+      timedOut
+        ? `The Storefront API did not respond within ${timeout}ms.`
+        : 'Could not reach the Storefront API.',
+      { status: timedOut ? 504 : 503, operation, meta: { endpoint, timeout }, cause: e }
+    );
+  }
+
+  const retryAfter = parseRetryAfter(result.headers.get('Retry-After'));
+  let body: unknown;
+
+  try {
+    body = await result.json();
+  } catch (e) {
+    body = undefined;
+  }
+
+  const errors =
+    isObject(body) && Array.isArray(body.errors)
+      ? (body.errors as GraphQLErrorDetail[])
+      : undefined;
+  const codes = errors?.map((error) => error.extensions?.code) || [];
+  const meta = { endpoint, responseStatus: result.status, errors };
+
+  if (result.status === 429 || codes.includes('THROTTLED')) {
+    throw new CommerceThrottledError('The Storefront API throttled the request.', {
+      operation,
+      retryAfter,
+      meta
+    });
+  }
+
+  if (codes.includes('NOT_FOUND')) {
+    throw new CommerceNotFoundError(errors?.[0]?.message || 'Resource not found.', {
+      operation,
+      meta
+    });
+  }
+
+  if (errors?.length) {
+    throw new CommerceUserError(errors[0]?.message || 'The Storefront API rejected the request.', {
+      status: result.ok ? 400 : result.status,
+      operation,
+      errors,
+      meta
+    });
+  }
+
+  if (!result.ok || !isObject(body)) {
+    throw new CommerceNetworkError(`The Storefront API responded with status ${result.status}.`, {
+      status: result.ok ? 502 : result.status,
+      operation,
+      meta
+    });
+  }
+
+  // What the Storefront API returned for the query the caller typed the result of.
+  return {
+    status: result.status,
+    body: body as T
+  };
+}
+
+const removeEdgesAndNodes = <T>(array: Connection<T>): T[] => {
+  return array.edges.map((edge) => edge?.node);
+};
+
+const reshapeDiscountAllocation = ({
+  code,
+  title,
+  discountedAmount
+}: ShopifyDiscountAllocation): CartDiscountAllocation => ({
+  title: title || code || '',
+  ...(code && { code }),
+  discountedAmount
+});
+
+const reshapeCart = (cart: ShopifyCart): Cart => {
+  if (!cart.cost?.totalTaxAmount) {
+    cart.cost.totalTaxAmount = {
+      amount: '0.0',
+      currencyCode: cart.cost.totalAmount.currencyCode
+    };
+  }
+
+  const { buyerIdentity, deliveryGroups, discountAllocations, ...rest } = cart;
+  const [address] = buyerIdentity.deliveryAddressPreferences;
+  const lines = removeEdgesAndNodes(cart.lines).map(
+    ({ cost, discountAllocations, ...line }): CartItem => ({
+      ...line,
+      cost: { totalAmount: cost.subtotalAmount },
+      discountAllocations: discountAllocations.map(reshapeDiscountAllocation)
+    })
+  );
+
+  return {
+    ...rest,
+    lines,
+    discountAllocations: sumDiscountAllocations([
+      ...lines.flatMap((line) => line.discountAllocations),
+      ...discountAllocations.map(reshapeDiscountAllocation)
+    ]),
+    buyerIdentity: {
+      email: buyerIdentity.email || undefined,
+      countryCode: buyerIdentity.countryCode || undefined,
+      provinceCode: address?.provinceCode || undefined,
+      postalCode: address?.zip || undefined
+    },
+    // A cart only splits into several delivery groups when its lines ship from different
+    // locations; the first group's options stand for the cart's.
+    deliveryOptions: [...(removeEdgesAndNodes(deliveryGroups)[0]?.deliveryOptions || [])].sort(
+      (a, b) => Number(a.estimatedCost.amount) - Number(b.estimatedCost.amount)
+    )
+  };
+};
+
+const reshapeCollection = (collection: ShopifyCollection): Collection | undefined => {
+  if (!collection) {
+    return undefined;
+  }
+
+  return {
+    ...collection,
+    path: `/search/${collection.handle}`
+  };
+};
+
+const reshapeCollections = (collections: ShopifyCollection[]) => {
+  const reshapedCollections = [];
+
+  for (const collection of collections) {
+    if (collection) {
+      const reshapedCollection = reshapeCollection(collection);
+
+      if (reshapedCollection) {
+        reshapedCollections.push(reshapedCollection);
+      }
+    }
+  }
+
+  return reshapedCollections;
+};
+
+const reshapeImages = (images: Connection<Image>, productTitle: string) => {
+  const flattened = removeEdgesAndNodes(images);
+
+  return flattened.map((image) => {
+    const filename = image.url.match(/.*\/(.*)\..*/)?.[1];
+    return {
+      ...image,
+      altText: image.altText || `${productTitle} - ${filename}`
+    };
+  });
+};
+
+// Review apps store the average as a JSON rating metafield; a malformed one is ignored.
+const reshapeRating = (
+  rating: ShopifyMetafield | null,
+  ratingCount: ShopifyMetafield | null
+): { rating?: ProductRating } => {
+  if (!rating) {
+    return {};
+  }
+
+  try {
+    const value = Number(JSON.parse(rating.value).value);
+
+    return Number.isNaN(value) ? {} : { rating: { value, count: Number(ratingCount?.value) || 0 } };
+  } catch (e) {
+    return {};
+  }
+};
+
+const reshapeProduct = (product: ShopifyProduct, filterHiddenProducts: boolean = true) => {
+  if (!product || (filterHiddenProducts && product.tags.includes(HIDDEN_PRODUCT_TAG))) {
+    return undefined;
+  }
+
+  const { images, variants, rating, ratingCount, ...rest } = product;
+
+  return {
+    ...rest,
+    images: reshapeImages(images, product.title),
+    variants: removeEdgesAndNodes(variants),
+    ...reshapeRating(rating, ratingCount)
+  };
+};
+
+const reshapeProducts = (products: ShopifyProduct[]) => {
+  const reshapedProducts = [];
+
+  for (const product of products) {
+    if (product) {
+      const reshapedProduct = reshapeProduct(product);
+
+      if (reshapedProduct) {
+        reshapedProducts.push(reshapedProduct);
+      }
+    }
+  }
+
+  return reshapedProducts;
+};
+
+const emptyPageInfo: PageInfo = {
+  hasNextPage: false,
+  hasPreviousPage: false,
+  startCursor: null,
+  endCursor: null
+};
+
+const reshapeFacets = (filters: ShopifyFilter[]): Facet[] =>
+  filters.map((filter) => ({
+    ...filter,
+    values: filter.values.map((value) => ({ ...value, input: JSON.parse(value.input) }))
+  }));
+
+// Hidden products are filtered out after the fact, so a page can hold fewer than `first` items.
+const reshapeProductPage = (
+  products: Connection<ShopifyProduct>,
+  filters: ShopifyFilter[] = []
+): ProductPage => ({
+  products: reshapeProducts(removeEdgesAndNodes(products)),
+  pageInfo: products.pageInfo || emptyPageInfo,
+  facets: reshapeFacets(filters)
+});
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// `products` takes no `filters` input, so filters are written in Shopify's search syntax
+// instead: any filter of the same kind, and every kind. Variant options can't be searched for.
+const toSearchSyntax = (filters: ProductFilter[]) => {
+  const clauses = new Map<string, string[]>();
+  const add = (kind: string, clause: string) =>
+    clauses.set(kind, [...(clauses.get(kind) || []), clause]);
+
+  for (const { available, price, productVendor, tag } of filters) {
+    if (available !== undefined) add('available', `available_for_sale:${available}`);
+    if (price) {
+      add(
+        'price',
+        [
+          price.min !== undefined && `variants.price:>=${price.min}`,
+          price.max !== undefined && `variants.price:<=${price.max}`
+        ]
+          .filter(Boolean)
+          .join(' AND ')
+      );
+    }
+    if (productVendor !== undefined) add('vendor', `vendor:${quote(productVendor)}`);
+    if (tag !== undefined) add('tag', `tag:${quote(tag)}`);
+  }
+
+  return [...clauses.values()]
+    .map((group) => `(${group.filter(Boolean).join(' OR ')})`)
+    .filter((group) => group !== '()')
+    .join(' AND ');
+};
+
+// The Storefront API has no sort key for ratings, so those listings are fetched in full (as many
+// products per request as Shopify allows), then sorted and paginated here with our own cursors.
+const isUnsupportedSortKey = (sortKey?: string) => sortKey === 'RATING';
+
+async function getSortedListing(
+  fetchPage: (variables: {
+    first: number;
+    after?: string;
+  }) => Promise<(Connection<ShopifyProduct> & { filters?: ShopifyFilter[] }) | undefined>,
+  { sortKey, reverse, ...pagination }: { sortKey?: string; reverse?: boolean } & PaginationOptions
+): Promise<ProductPage> {
+  const products: Product[] = [];
+  let filters: ShopifyFilter[] = [];
+  let after: string | undefined;
+
+  do {
+    const connection = await fetchPage({ first: 250, after });
+
+    if (!connection) {
+      break;
+    }
+
+    products.push(...reshapeProducts(removeEdgesAndNodes(connection)));
+    filters = connection.filters || filters;
+    after = (connection.pageInfo?.hasNextPage && connection.pageInfo.endCursor) || undefined;
+  } while (after);
+
+  return {
+    ...paginate(sortProducts(products, { sortKey, reverse }), pagination),
+    facets: reshapeFacets(filters)
+  };
+}
+
+// The Storefront API requires `first` or `last`; paging backwards from a cursor uses `last`.
+const toPaginationVariables = ({ first = 100, after, before }: PaginationOptions) =>
+  before ? { last: first, before } : { first, after };
+
+async function createCart(): Promise<Cart> {
+  const res = await shopifyFetch<ShopifyCreateCartOperation>({
+    query: createCartMutation,
+    cache: 'no-store'
+  });
+
+  return reshapeCart(res.body.data.cartCreate.cart);
+}
+
+async function addToCart(
+  cartId: string,
+  lines: { merchandiseId: string; quantity: number }[]
+): Promise<Cart> {
+  const res = await shopifyFetch<ShopifyAddToCartOperation>({
+    query: addToCartMutation,
+    variables: {
+      cartId,
+      lines
+    },
+    cache: 'no-store'
+  });
+
+  return reshapeCart(res.body.data.cartLinesAdd.cart);
+}
+
+async function removeFromCart(cartId: string, lineIds: string[]): Promise<Cart> {
+  const res = await shopifyFetch<ShopifyRemoveFromCartOperation>({
+    query: removeFromCartMutation,
+    variables: {
+      cartId,
+      lineIds
+    },
+    cache: 'no-store'
+  });
+
+  return reshapeCart(res.body.data.cartLinesRemove.cart);
+}
+
+async function updateCart(
+  cartId: string,
+  lines: { id: string; merchandiseId: string; quantity: number }[]
+): Promise<Cart> {
+  const res = await shopifyFetch<ShopifyUpdateCartOperation>({
+    query: editCartItemsMutation,
+    variables: {
+      cartId,
+      lines
+    },
+    cache: 'no-store'
+  });
+
+  return reshapeCart(res.body.data.cartLinesUpdate.cart);
+}
+
+async function updateBuyerIdentity(
+  cartId: string,
+  { email, countryCode, provinceCode, postalCode }: CartBuyerIdentity
+): Promise<Cart> {
+  // Shopify needs a country with every address, so a postal code on its own is taken to be in
+  // the market the shopper is browsing.
+  const country = countryCode ?? (await getSelectedCurrency())?.country;
+  const res = await shopifyFetch<ShopifyUpdateBuyerIdentityOperation>({
+    query: updateBuyerIdentityMutation,
+    variables: {
+      cartId,
+      buyerIdentity: {
+        email,
+        countryCode,
+        ...(postalCode && {
+          deliveryAddressPreferences: [
+            { deliveryAddress: { zip: postalCode, province: provinceCode, country } }
+          ]
+        })
+      }
+    },
+    cache: 'no-store'
+  });
+
+  return reshapeCart(res.body.data.cartBuyerIdentityUpdate.cart);
+}
+
+async function updateDiscountCodes(cartId: string, discountCodes: string[]): Promise<Cart> {
+  const res = await shopifyFetch<ShopifyUpdateDiscountCodesOperation>({
+    query: updateDiscountCodesMutation,
+    variables: {
+      cartId,
+      discountCodes
+    },
+    cache: 'no-store'
+  });
+
+  return reshapeCart(res.body.data.cartDiscountCodesUpdate.cart);
+}
+
+// Shopify carts check out on Shopify, at their `checkoutUrl`.
+async function updateCheckout(cartId: string): Promise<Cart> {
+  throw new CommerceUserError('Shopify carts check out at their checkout URL.', {
+    operation: 'updateCheckout',
+    meta: { cartId }
+  });
+}
+
+// Shopify holds inventory during its own checkout.
+async function reserveInventory(): Promise<void> {}
+
+async function setInventoryLevel(merchandiseId: string): Promise<void> {
+  throw new CommerceUserError('Shopify inventory is managed in the Shopify admin.', {
+    operation: 'setInventoryLevel',
+    meta: { merchandiseId }
+  });
+}
+
+async function completeCheckout(cartId: string): Promise<Order> {
+  throw new CommerceUserError('Shopify carts check out at their checkout URL.', {
+    operation: 'completeCheckout',
+    meta: { cartId }
+  });
+}
+
+async function addPaymentTransaction(orderId: string): Promise<Order> {
+  throw new CommerceUserError('Shopify records payments on its own orders.', {
+    operation: 'addPaymentTransaction',
+    meta: { orderId }
+  });
+}
+
+// Shopify orders are shown on Shopify's order status pages.
+async function getOrder(): Promise<Order | undefined> {
+  return undefined;
+}
+
+async function getCart(cartId: string | undefined): Promise<Cart | undefined> {
+  if (!cartId) {
+    return undefined;
+  }
+
+  const res = await shopifyFetch<ShopifyCartOperation>({
+    query: getCartQuery,
+    variables: { cartId },
+    tags: [TAGS.cart]
+  });
+
+  // Old carts becomes `null` when you checkout.
+  if (!res.body.data.cart) {
+    return undefined;
+  }
+
+  return reshapeCart(res.body.data.cart);
+}
+
+async function getCollection(handle: string): Promise<Collection | undefined> {
+  const res = await shopifyFetch<ShopifyCollectionOperation>({
+    query: getCollectionQuery,
+    tags: [TAGS.collections],
+    variables: {
+      handle
+    }
+  });
+
+  return reshapeCollection(res.body.data.collection);
+}
+
+// Collections have their own sort keys. Relevance only means something for a search query, so
+// a collection listing falls back to the order chosen for the collection in the Shopify admin.
+const toCollectionSortKey = (sortKey?: string) =>
+  sortKey === 'CREATED_AT' ? 'CREATED' : sortKey === 'RELEVANCE' ? 'COLLECTION_DEFAULT' : sortKey;
+
+async function getCollectionProducts({
+  collection,
+  reverse,
+  sortKey,
+  filters,
+  ...pagination
+}: {
+  collection: string;
+  reverse?: boolean;
+  sortKey?: string;
+  filters?: ProductFilter[];
+} & PaginationOptions): Promise<ProductPage> {
+  const fetchPage = async (variables: Partial<ShopifyCollectionProductsOperation['variables']>) => {
+    const res = await shopifyFetch<ShopifyCollectionProductsOperation>({
+      query: getCollectionProductsQuery,
+      tags: [TAGS.collections, TAGS.products],
+      variables: {
+        handle: collection,
+        filters,
+        ...variables
+      }
+    });
+
+    return res.body.data.collection?.products;
+  };
+
+  if (isUnsupportedSortKey(sortKey)) {
+    return getSortedListing(fetchPage, { sortKey, reverse, ...pagination });
+  }
+
+  const products = await fetchPage({
+    reverse,
+    sortKey: toCollectionSortKey(sortKey),
+    ...toPaginationVariables(pagination)
+  });
+
+  if (!products) {
+    return { products: [], pageInfo: emptyPageInfo, facets: [] };
+  }
+
+  return reshapeProductPage(products, products.filters);
+}
+
+async function getCollections(): Promise<Collection[]> {
+  const res = await shopifyFetch<ShopifyCollectionsOperation>({
+    query: getCollectionsQuery,
+    tags: [TAGS.collections]
+  });
+  const shopifyCollections = removeEdgesAndNodes(res.body?.data?.collections);
+  const collections = [
+    {
+      handle: '',
+      title: 'All',
+      description: 'All products',
+      seo: {
+        title: 'All',
+        description: 'All products'
+      },
+      path: '/search',
+      updatedAt: new Date().toISOString()
+    },
+    // Filter out the `hidden` collections.
+    // Collections that start with `hidden-*` need to be hidden on the search page.
+    ...reshapeCollections(shopifyCollections).filter(
+      (collection) => !collection.handle.startsWith('hidden')
+    )
+  ];
+
+  return collections;
+}
+
+async function getMenu(handle: string): Promise<Menu[]> {
+  const res = await shopifyFetch<ShopifyMenuOperation>({
+    query: getMenuQuery,
+    tags: [TAGS.collections],
+    variables: {
+      handle
+    }
+  });
+
+  return (
+    res.body?.data?.menu?.items.map((item: { title: string; url: string }) => ({
+      title: item.title,
+      path: item.url.replace(domain, '').replace('/collections', '/search').replace('/pages', '')
+    })) || []
+  );
+}
+
+async function getPage(handle: string): Promise<Page | undefined> {
+  const res = await shopifyFetch<ShopifyPageOperation>({
+    query: getPageQuery,
+    cache: 'no-store',
+    variables: { handle }
+  });
+
+  return res.body.data.pageByHandle || undefined;
+}
+
+async function getPages(): Promise<Page[]> {
+  const res = await shopifyFetch<ShopifyPagesOperation>({
+    query: getPagesQuery,
+    cache: 'no-store'
+  });
+
+  return removeEdgesAndNodes(res.body.data.pages);
+}
+
+async function getProduct(handle: string): Promise<Product | undefined> {
+  const res = await shopifyFetch<ShopifyProductOperation>({
+    query: getProductQuery,
+    tags: [TAGS.products],
+    variables: {
+      handle
+    }
+  });
+
+  return reshapeProduct(res.body.data.product, false);
+}
+
+async function getProductRecommendations(productId: string): Promise<Product[]> {
+  const res = await shopifyFetch<ShopifyProductRecommendationsOperation>({
+    query: getProductRecommendationsQuery,
+    tags: [TAGS.products],
+    variables: {
+      productId
+    }
+  });
+
+  return reshapeProducts(res.body.data.productRecommendations);
+}
+
+async function getProducts({
+  query,
+  reverse,
+  sortKey,
+  filters = [],
+  ...pagination
+}: {
+  query?: string;
+  reverse?: boolean;
+  sortKey?: string;
+  filters?: ProductFilter[];
+} & PaginationOptions): Promise<ProductPage> {
+  const filterQuery = toSearchSyntax(filters);
+  const fetchPage = async (variables: Partial<ShopifyProductsOperation['variables']>) => {
+    const res = await shopifyFetch<ShopifyProductsOperation>({
+      query: getProductsQuery,
+      tags: [TAGS.products],
+      variables: {
+        query: [query, filterQuery].filter(Boolean).join(' AND ') || undefined,
+        ...variables
+      }
+    });
+
+    return res.body.data.products;
+  };
+
+  if (isUnsupportedSortKey(sortKey)) {
+    return getSortedListing(fetchPage, { sortKey, reverse, ...pagination });
+  }
+
+  // Product search returns no facets, so only collection listings can offer them.
+  return reshapeProductPage(
+    await fetchPage({ reverse, sortKey, ...toPaginationVariables(pagination) })
+  );
+}
+
+async function getSpellingSuggestion(query: string): Promise<string | undefined> {
+  // A missing suggestion must never break the search page it decorates.
+  try {
+    const res = await shopifyFetch<ShopifySpellingSuggestionOperation>({
+      query: getSpellingSuggestionQuery,
+      tags: [TAGS.products],
+      variables: {
+        query
+      }
+    });
+    const suggestion = res.body.data.predictiveSearch?.queries[0]?.text;
+
+    return suggestion && suggestion.toLowerCase() !== query.toLowerCase() ? suggestion : undefined;
+  } catch (e) {
+    console.error(e);
+    return undefined;
+  }
+}
+
+async function getSearchSuggestions(query: string): Promise<SearchSuggestions> {
+  const res = await shopifyFetch<ShopifySearchSuggestionsOperation>({
+    query: getSearchSuggestionsQuery,
+    tags: [TAGS.collections, TAGS.products],
+    variables: {
+      query,
+      limit: SEARCH_SUGGESTIONS_LIMIT
+    }
+  });
+  const {
+    queries = [],
+    products = [],
+    collections = [],
+    pages = []
+  } = res.body.data.predictiveSearch || {};
+
+  return {
+    queries: queries
+      .map(({ text }) => text)
+      .filter((text) => text.toLowerCase() !== query.toLowerCase()),
+    products: products
+      .filter((product) => !product.tags.includes(HIDDEN_PRODUCT_TAG))
+      .map(({ tags, ...product }) => product),
+    collections: collections.map((collection) => ({
+      ...collection,
+      path: `/search/${collection.handle}`
+    })),
+    pages
+  };
+}
+
+// This is called from `app/api/revalidate.ts` so providers can control revalidation logic.
+async function revalidate(req: NextRequest): Promise<NextResponse> {
+  // We always need to respond with a 200 status code to Shopify,
+  // otherwise it will continue to retry the request.
+  const collectionWebhooks = ['collections/create', 'collections/delete', 'collections/update'];
+  const productWebhooks = ['products/create', 'products/delete', 'products/update'];
+  const topic = headers().get('x-shopify-topic') || 'unknown';
+  const secret = req.nextUrl.searchParams.get('secret');
+  const isCollectionUpdate = collectionWebhooks.includes(topic);
+  const isProductUpdate = productWebhooks.includes(topic);
+
+  if (!secret || secret !== process.env.SHOPIFY_REVALIDATION_SECRET) {
+    console.error('Invalid revalidation secret.');
+    return NextResponse.json({ status: 200 });
+  }
+
+  if (!isCollectionUpdate && !isProductUpdate) {
+    // We don't need to revalidate anything for any other topics.
+    return NextResponse.json({ status: 200 });
+  }
+
+  if (isCollectionUpdate) {
+    revalidateTag(TAGS.collections);
+  }
+
+  if (isProductUpdate) {
+    revalidateTag(TAGS.products);
+  }
+
+  return NextResponse.json({ status: 200, revalidated: true, now: Date.now() });
+}
+
+export const shopifyProvider: CommerceProvider = {
+  createCart,
+  addToCart,
+  removeFromCart,
+  updateCart,
+  getCart,
+  updateBuyerIdentity,
+  updateDiscountCodes,
+  updateCheckout,
+  reserveInventory,
+  setInventoryLevel,
+  completeCheckout,
+  addPaymentTransaction,
+  getOrder,
+  getCollection,
+  getCollectionProducts,
+  getCollections,
+  getMenu,
+  getPage,
+  getPages,
+  getProduct,
+  getProductRecommendations,
+  getProducts,
+  getSearchSuggestions,
+  getSpellingSuggestion,
+  revalidate
+};
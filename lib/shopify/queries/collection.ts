@@ -1,3 +1,4 @@
+import pageInfoFragment from '../fragments/page-info';
 import productFragment from '../fragments/product';
 import seoFragment from '../fragments/seo';
 
@@ -41,16 +42,45 @@ export const getCollectionProductsQuery = /* GraphQL */ `
     $handle: String!
     $sortKey: ProductCollectionSortKeys
     $reverse: Boolean
+    $filters: [ProductFilter!]
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
   ) {
     collection(handle: $handle) {
-      products(sortKey: $sortKey, reverse: $reverse, first: 100) {
+      products(
+        sortKey: $sortKey
+        reverse: $reverse
+        filters: $filters
+        first: $first
+        last: $last
+        after: $after
+        before: $before
+      ) {
         edges {
+          cursor
           node {
             ...product
           }
         }
+        pageInfo {
+          ...pageInfo
+        }
+        filters {
+          id
+          label
+          type
+          values {
+            id
+            label
+            count
+            input
+          }
+        }
       }
     }
   }
   ${productFragment}
+  ${pageInfoFragment}
 `;
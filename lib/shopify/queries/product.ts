@@ -1,3 +1,4 @@
+import pageInfoFragment from '../fragments/page-info';
 import productFragment from '../fragments/product';
 
 export const getProductQuery = /* GraphQL */ `
@@ -10,16 +11,37 @@ export const getProductQuery = /* GraphQL */ `
 `;
 
 export const getProductsQuery = /* GraphQL */ `
-  query getProducts($sortKey: ProductSortKeys, $reverse: Boolean, $query: String) {
-    products(sortKey: $sortKey, reverse: $reverse, query: $query, first: 100) {
+  query getProducts(
+    $sortKey: ProductSortKeys
+    $reverse: Boolean
+    $query: String
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+  ) {
+    products(
+      sortKey: $sortKey
+      reverse: $reverse
+      query: $query
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+    ) {
       edges {
+        cursor
         node {
           ...product
         }
       }
+      pageInfo {
+        ...pageInfo
+      }
     }
   }
   ${productFragment}
+  ${pageInfoFragment}
 `;
 
 export const getProductRecommendationsQuery = /* GraphQL */ `
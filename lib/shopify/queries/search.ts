@@ -0,0 +1,48 @@
+export const getSearchSuggestionsQuery = /* GraphQL */ `
+  query getSearchSuggestions($query: String!, $limit: Int!) {
+    predictiveSearch(query: $query, types: [QUERY, PRODUCT, COLLECTION, PAGE], limit: $limit) {
+      queries {
+        text
+      }
+      products {
+        handle
+        title
+        tags
+        featuredImage {
+          url
+          altText
+          width
+          height
+        }
+        priceRange {
+          maxVariantPrice {
+            amount
+            currencyCode
+          }
+          minVariantPrice {
+            amount
+            currencyCode
+          }
+        }
+      }
+      collections {
+        handle
+        title
+      }
+      pages {
+        handle
+        title
+      }
+    }
+  }
+`;
+
+export const getSpellingSuggestionQuery = /* GraphQL */ `
+  query getSpellingSuggestion($query: String!) {
+    predictiveSearch(query: $query, types: [QUERY], limit: 1) {
+      queries {
+        text
+      }
+    }
+  }
+`;
@@ -0,0 +1,49 @@
+import { Product } from './types';
+
+// Everything a sort key can need beyond the product itself.
+export type SortContext = {
+  // Units sold per product id.
+  sales?: Map<string, number>;
+};
+
+type Comparator = (a: Product, b: Product, context: SortContext) => number;
+
+const getPrice = (product: Product) => Number(product.priceRange.minVariantPrice.amount);
+
+// Shopify's sort keys, each in its natural order; `reverse` flips it. Best sellers come first
+// without `reverse`, as they do on Shopify.
+const comparators: Record<string, Comparator> = {
+  BEST_SELLING: (a, b, { sales }) => (sales?.get(b.id) || 0) - (sales?.get(a.id) || 0),
+  CREATED: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  CREATED_AT: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  ID: (a, b) => a.id.localeCompare(b.id),
+  PRICE: (a, b) => getPrice(a) - getPrice(b),
+  // Unrated products rank below the lowest rating, and more reviews break a tie.
+  RATING: (a, b) =>
+    (a.rating?.value ?? -1) - (b.rating?.value ?? -1) ||
+    (a.rating?.count || 0) - (b.rating?.count || 0),
+  TITLE: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }),
+  UPDATED_AT: (a, b) => a.updatedAt.localeCompare(b.updatedAt),
+  VENDOR: (a, b) => a.vendor.localeCompare(b.vendor, undefined, { sensitivity: 'base' })
+};
+
+export const isSortKey = (sortKey?: string): boolean => !!sortKey && sortKey in comparators;
+
+// Sorts a listing that is already in its default order: best match first for a search, the
+// collection's own order for a collection. `RELEVANCE`, `COLLECTION_DEFAULT`, `MANUAL` and no sort
+// key at all keep that order, and so do ties under every other key.
+export function sortProducts(
+  products: Product[],
+  { sortKey, reverse }: { sortKey?: string; reverse?: boolean },
+  context: SortContext = {}
+): Product[] {
+  const comparator = sortKey ? comparators[sortKey] : undefined;
+
+  if (!comparator) {
+    return reverse ? [...products].reverse() : products;
+  }
+
+  const direction = reverse ? -1 : 1;
+
+  return [...products].sort((a, b) => direction * comparator(a, b, context));
+}
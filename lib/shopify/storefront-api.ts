@@ -0,0 +1,891 @@
+import { buildSchema, DocumentNode, graphql, Kind, OperationDefinitionNode, parse } from 'graphql';
+import { getCurrencies, withCurrency } from 'lib/currency';
+import { isLocale } from 'lib/i18n';
+import { withLocale } from 'lib/i18n/server';
+import { fromCents, toCents } from 'lib/utils';
+import { localProvider } from './providers/local';
+import { getCursor } from './providers/local/pagination';
+import {
+  Cart,
+  CartDiscountAllocation,
+  Collection,
+  Image,
+  Page,
+  Product,
+  ProductFilter,
+  ProductPage,
+  ProductVariant
+} from './types';
+
+// A local stand-in for the subset of the Shopify Storefront GraphQL API used by the queries and
+// mutations in `lib/shopify`, served from the local provider. Point `SHOPIFY_STORE_DOMAIN` at
+// this app (e.g. `http://localhost:3000`) to exercise the Shopify provider without a store.
+const schema = buildSchema(/* GraphQL */ `
+  # Enums of every ISO 3166 country and ISO 639 language on Shopify; any code is accepted here.
+  scalar CountryCode
+  scalar LanguageCode
+
+  directive @inContext(country: CountryCode, language: LanguageCode) on QUERY | MUTATION
+
+  type Query {
+    cart(id: ID!): Cart
+    collection(handle: String!): Collection
+    collections(first: Int, sortKey: CollectionSortKeys, reverse: Boolean): CollectionConnection!
+    menu(handle: String!): Menu
+    pageByHandle(handle: String!): Page
+    pages(first: Int): PageConnection!
+    product(handle: String!): Product
+    productRecommendations(productId: ID!): [Product!]
+    predictiveSearch(
+      query: String!
+      types: [PredictiveSearchType!]
+      limit: Int
+    ): PredictiveSearchResult
+    products(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      sortKey: ProductSortKeys
+      reverse: Boolean
+      query: String
+    ): ProductConnection!
+  }
+
+  type Mutation {
+    cartCreate(input: CartInput): CartCreatePayload
+    cartLinesAdd(cartId: ID!, lines: [CartLineInput!]!): CartLinesAddPayload
+    cartLinesRemove(cartId: ID!, lineIds: [ID!]!): CartLinesRemovePayload
+    cartLinesUpdate(cartId: ID!, lines: [CartLineUpdateInput!]!): CartLinesUpdatePayload
+    cartBuyerIdentityUpdate(
+      cartId: ID!
+      buyerIdentity: CartBuyerIdentityInput!
+    ): CartBuyerIdentityUpdatePayload
+    cartDiscountCodesUpdate(cartId: ID!, discountCodes: [String!]!): CartDiscountCodesUpdatePayload
+  }
+
+  enum CollectionSortKeys {
+    ID
+    RELEVANCE
+    TITLE
+    UPDATED_AT
+  }
+
+  enum ProductSortKeys {
+    BEST_SELLING
+    CREATED_AT
+    ID
+    PRICE
+    RELEVANCE
+    TITLE
+    UPDATED_AT
+  }
+
+  enum ProductCollectionSortKeys {
+    BEST_SELLING
+    COLLECTION_DEFAULT
+    CREATED
+    ID
+    MANUAL
+    PRICE
+    RELEVANCE
+    TITLE
+  }
+
+  type SEO {
+    title: String
+    description: String
+  }
+
+  type MoneyV2 {
+    amount: String!
+    currencyCode: String!
+  }
+
+  type Image {
+    url: String!
+    altText: String
+    width: Int
+    height: Int
+  }
+
+  type ImageEdge {
+    node: Image!
+  }
+
+  type ImageConnection {
+    edges: [ImageEdge!]!
+  }
+
+  type ProductOption {
+    id: ID!
+    name: String!
+    values: [String!]!
+  }
+
+  type ProductPriceRange {
+    maxVariantPrice: MoneyV2!
+    minVariantPrice: MoneyV2!
+  }
+
+  type SelectedOption {
+    name: String!
+    value: String!
+  }
+
+  type ProductVariant {
+    id: ID!
+    title: String!
+    availableForSale: Boolean!
+    quantityAvailable: Int
+    selectedOptions: [SelectedOption!]!
+    price: MoneyV2!
+    product: Product!
+  }
+
+  type ProductVariantEdge {
+    node: ProductVariant!
+  }
+
+  type ProductVariantConnection {
+    edges: [ProductVariantEdge!]!
+  }
+
+  type Product {
+    id: ID!
+    handle: String!
+    availableForSale: Boolean!
+    title: String!
+    description: String!
+    descriptionHtml: String!
+    vendor: String!
+    options: [ProductOption!]!
+    priceRange: ProductPriceRange!
+    variants(first: Int): ProductVariantConnection!
+    featuredImage: Image
+    images(first: Int): ImageConnection!
+    seo: SEO!
+    tags: [String!]!
+    createdAt: String!
+    updatedAt: String!
+    metafield(namespace: String!, key: String!): Metafield
+  }
+
+  type Metafield {
+    value: String!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type ProductEdge {
+    cursor: String!
+    node: Product!
+  }
+
+  input PriceRangeFilter {
+    min: Float
+    max: Float
+  }
+
+  input VariantOptionFilter {
+    name: String!
+    value: String!
+  }
+
+  input ProductFilter {
+    available: Boolean
+    price: PriceRangeFilter
+    productVendor: String
+    tag: String
+    variantOption: VariantOptionFilter
+  }
+
+  enum FilterType {
+    BOOLEAN
+    LIST
+    PRICE_RANGE
+  }
+
+  type FilterValue {
+    id: String!
+    label: String!
+    count: Int!
+    input: String!
+  }
+
+  type Filter {
+    id: String!
+    label: String!
+    type: FilterType!
+    values: [FilterValue!]!
+  }
+
+  type ProductConnection {
+    edges: [ProductEdge!]!
+    pageInfo: PageInfo!
+    filters: [Filter!]!
+  }
+
+  type Collection {
+    handle: String!
+    title: String!
+    description: String!
+    seo: SEO!
+    updatedAt: String!
+    products(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      sortKey: ProductCollectionSortKeys
+      reverse: Boolean
+      filters: [ProductFilter!]
+    ): ProductConnection!
+  }
+
+  type CollectionEdge {
+    node: Collection!
+  }
+
+  type CollectionConnection {
+    edges: [CollectionEdge!]!
+  }
+
+  type MenuItem {
+    title: String!
+    url: String!
+  }
+
+  type Menu {
+    handle: String!
+    items: [MenuItem!]!
+  }
+
+  type Page {
+    id: ID!
+    title: String!
+    handle: String!
+    body: String!
+    bodySummary: String!
+    seo: SEO
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type PageEdge {
+    node: Page!
+  }
+
+  type PageConnection {
+    edges: [PageEdge!]!
+  }
+
+  enum PredictiveSearchType {
+    ARTICLE
+    COLLECTION
+    PAGE
+    PRODUCT
+    QUERY
+  }
+
+  type SearchQuerySuggestion {
+    text: String!
+  }
+
+  type PredictiveSearchResult {
+    queries: [SearchQuerySuggestion!]!
+    products: [Product!]!
+    collections: [Collection!]!
+    pages: [Page!]!
+  }
+
+  union Merchandise = ProductVariant
+
+  type CartLineCost {
+    subtotalAmount: MoneyV2!
+    totalAmount: MoneyV2!
+  }
+
+  interface CartDiscountAllocation {
+    discountedAmount: MoneyV2!
+  }
+
+  type CartCodeDiscountAllocation implements CartDiscountAllocation {
+    code: String!
+    discountedAmount: MoneyV2!
+  }
+
+  type CartAutomaticDiscountAllocation implements CartDiscountAllocation {
+    title: String!
+    discountedAmount: MoneyV2!
+  }
+
+  type CartCustomDiscountAllocation implements CartDiscountAllocation {
+    title: String!
+    discountedAmount: MoneyV2!
+  }
+
+  type CartDiscountCode {
+    code: String!
+    applicable: Boolean!
+  }
+
+  type CartLine {
+    id: ID!
+    quantity: Int!
+    cost: CartLineCost!
+    discountAllocations: [CartDiscountAllocation!]!
+    merchandise: Merchandise!
+  }
+
+  type CartLineEdge {
+    node: CartLine!
+  }
+
+  type CartLineConnection {
+    edges: [CartLineEdge!]!
+  }
+
+  type CartCost {
+    subtotalAmount: MoneyV2!
+    totalAmount: MoneyV2!
+    totalTaxAmount: MoneyV2
+  }
+
+  type MailingAddress {
+    zip: String
+    provinceCode: String
+  }
+
+  union DeliveryAddress = MailingAddress
+
+  type CartBuyerIdentity {
+    email: String
+    countryCode: CountryCode
+    deliveryAddressPreferences: [DeliveryAddress!]!
+  }
+
+  enum DeliveryMethodType {
+    SHIPPING
+    LOCAL
+    PICK_UP
+    PICKUP_POINT
+  }
+
+  type CartDeliveryOption {
+    handle: String!
+    title: String
+    description: String
+    deliveryMethodType: DeliveryMethodType!
+    estimatedCost: MoneyV2!
+  }
+
+  type CartDeliveryGroup {
+    deliveryOptions: [CartDeliveryOption!]!
+  }
+
+  type CartDeliveryGroupEdge {
+    node: CartDeliveryGroup!
+  }
+
+  type CartDeliveryGroupConnection {
+    edges: [CartDeliveryGroupEdge!]!
+  }
+
+  type Cart {
+    id: ID!
+    checkoutUrl: String!
+    cost: CartCost!
+    lines(first: Int): CartLineConnection!
+    totalQuantity: Int!
+    discountCodes: [CartDiscountCode!]!
+    discountAllocations: [CartDiscountAllocation!]!
+    buyerIdentity: CartBuyerIdentity!
+    deliveryGroups(first: Int): CartDeliveryGroupConnection!
+  }
+
+  input CartLineInput {
+    merchandiseId: ID!
+    quantity: Int
+  }
+
+  input CartLineUpdateInput {
+    id: ID!
+    merchandiseId: ID
+    quantity: Int
+  }
+
+  input CartInput {
+    lines: [CartLineInput!]
+  }
+
+  input MailingAddressInput {
+    zip: String
+    province: String
+    country: String
+  }
+
+  input DeliveryAddressInput {
+    deliveryAddress: MailingAddressInput
+  }
+
+  input CartBuyerIdentityInput {
+    email: String
+    countryCode: CountryCode
+    deliveryAddressPreferences: [DeliveryAddressInput!]
+  }
+
+  type CartCreatePayload {
+    cart: Cart
+  }
+
+  type CartLinesAddPayload {
+    cart: Cart
+  }
+
+  type CartLinesRemovePayload {
+    cart: Cart
+  }
+
+  type CartLinesUpdatePayload {
+    cart: Cart
+  }
+
+  type CartBuyerIdentityUpdatePayload {
+    cart: Cart
+  }
+
+  type CartDiscountCodesUpdatePayload {
+    cart: Cart
+  }
+`);
+
+const toConnection = <T>(nodes: T[], first?: number) => ({
+  edges: (first === undefined ? nodes : nodes.slice(0, first)).map((node) => ({ node }))
+});
+
+// Splits the field clauses the Shopify provider writes filters as (`tag:"cotton"`,
+// `variants.price:>=10`, ...) out of a search query. Grouping is implied: filters of the same
+// kind match any of them and different kinds all have to match, as they do locally.
+const parseSearchSyntax = (query?: string): { query?: string; filters: ProductFilter[] } => {
+  const filters: ProductFilter[] = [];
+  const clause = /([\w.]+):(>=|<=)?("(?:[^"\\]|\\.)*"|[^\s()]+)/g;
+  const text = (query || '')
+    .replace(clause, (_, field: string, operator: string | undefined, raw: string) => {
+      const value = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+
+      if (field === 'available_for_sale') {
+        filters.push({ available: value === 'true' });
+      } else if (field === 'variants.price') {
+        filters.push({
+          price: operator === '<=' ? { max: Number(value) } : { min: Number(value) }
+        });
+      } else if (field === 'vendor') {
+        filters.push({ productVendor: value });
+      } else if (field === 'tag') {
+        filters.push({ tag: value });
+      }
+
+      return ' ';
+    })
+    .replace(/\bAND\b|[()]/g, ' ')
+    // `OR` is kept between words, so synonym alternatives reach the local search intact.
+    .split(/\bOR\b/)
+    .map((alternative) => alternative.trim())
+    .filter(Boolean)
+    .join(' OR ');
+
+  // A price range arrives as two clauses but is a single filter.
+  const prices = filters.filter((filter) => filter.price);
+  const price = prices.length
+    ? [{ price: Object.assign({}, ...prices.map((filter) => filter.price)) }]
+    : [];
+
+  return {
+    query: text || undefined,
+    filters: [...filters.filter((filter) => !filter.price), ...price]
+  };
+};
+
+type ConnectionArgs = { first?: number; last?: number; after?: string; before?: string };
+
+// The providers only take a page size, which counts back from `before` when it is set.
+const toPaginationOptions = ({ first, last, after, before }: ConnectionArgs) => ({
+  first: last ?? first,
+  after,
+  before
+});
+
+const toProductConnection = ({ products, pageInfo, facets }: ProductPage) => ({
+  edges: products.map((product) => ({
+    cursor: getCursor(product),
+    node: toShopifyProduct(product)
+  })),
+  pageInfo,
+  filters: facets.map((facet) => ({
+    ...facet,
+    values: facet.values.map((value) => ({ ...value, input: JSON.stringify(value.input) }))
+  }))
+});
+
+// Maps the flattened storefront types back into the nested shapes the Storefront API returns.
+// Fields that take arguments are functions, which graphql-js calls with those arguments.
+const toShopifyProduct = (product: Product) => ({
+  ...product,
+  variants: ({ first }: { first?: number }) =>
+    toConnection(
+      product.variants.map((variant) => toShopifyVariant(variant, product)),
+      first
+    ),
+  images: ({ first }: { first?: number }) => toConnection<Image>(product.images, first),
+  // Ratings are served the way review apps store them on Shopify.
+  metafield: ({ namespace, key }: { namespace: string; key: string }) => {
+    if (namespace !== 'reviews' || !product.rating) {
+      return null;
+    }
+
+    if (key === 'rating') {
+      return {
+        value: JSON.stringify({
+          value: String(product.rating.value),
+          scale_min: '1.0',
+          scale_max: '5.0'
+        })
+      };
+    }
+
+    return key === 'rating_count' ? { value: String(product.rating.count) } : null;
+  }
+});
+
+const toShopifyVariant = (variant: ProductVariant, product: Product) => ({
+  ...variant,
+  __typename: 'ProductVariant',
+  product: () => toShopifyProduct(product)
+});
+
+const toShopifyCollection = (collection: Collection) => ({
+  ...collection,
+  products: ({
+    reverse,
+    sortKey,
+    filters,
+    ...connectionArgs
+  }: { reverse?: boolean; sortKey?: string; filters?: ProductFilter[] } & ConnectionArgs) =>
+    localProvider
+      .getCollectionProducts({
+        collection: collection.handle,
+        reverse,
+        sortKey: sortKey === 'CREATED' ? 'CREATED_AT' : sortKey,
+        filters,
+        ...toPaginationOptions(connectionArgs)
+      })
+      .then(toProductConnection)
+});
+
+const toShopifyDiscountAllocation = ({ code, title, discountedAmount }: CartDiscountAllocation) =>
+  code
+    ? { __typename: 'CartCodeDiscountAllocation', code, discountedAmount }
+    : { __typename: 'CartAutomaticDiscountAllocation', title, discountedAmount };
+
+const toShopifyCart = async (cart: Cart) => {
+  const lines = await Promise.all(
+    cart.lines.map(async (line) => {
+      const product = await localProvider.getProduct(line.merchandise.product.handle);
+      const variant = product?.variants.find((variant) => variant.id === line.merchandise.id);
+
+      const discounted = line.discountAllocations.reduce(
+        (cents, allocation) => cents - toCents(allocation.discountedAmount.amount),
+        toCents(line.cost.totalAmount.amount)
+      );
+
+      return {
+        ...line,
+        cost: {
+          subtotalAmount: line.cost.totalAmount,
+          totalAmount: { ...line.cost.totalAmount, amount: fromCents(discounted) }
+        },
+        discountAllocations: line.discountAllocations.map(toShopifyDiscountAllocation),
+        // The cart counts what its own checkout holds as available; the catalog doesn't.
+        merchandise:
+          product && variant
+            ? toShopifyVariant(
+                { ...variant, quantityAvailable: line.merchandise.quantityAvailable },
+                product
+              )
+            : null
+      };
+    })
+  );
+
+  const { email, countryCode, provinceCode, postalCode } = cart.buyerIdentity;
+
+  return {
+    ...cart,
+    lines: ({ first }: { first?: number }) => toConnection(lines, first),
+    // Every local discount is allocated to lines, so none are left for the cart as a whole.
+    discountAllocations: [],
+    buyerIdentity: {
+      email,
+      countryCode,
+      deliveryAddressPreferences:
+        postalCode || provinceCode
+          ? [{ __typename: 'MailingAddress', zip: postalCode, provinceCode }]
+          : []
+    },
+    // Local carts always ship in one go.
+    deliveryGroups: () =>
+      toConnection(cart.deliveryOptions.length ? [{ deliveryOptions: cart.deliveryOptions }] : [])
+  };
+};
+
+const cartPayload = async (cart: Promise<Cart>) => ({ cart: await toShopifyCart(await cart) });
+
+const rootValue = {
+  cart: async ({ id }: { id: string }) => {
+    const cart = await localProvider.getCart(id);
+    return cart ? toShopifyCart(cart) : null;
+  },
+  collection: async ({ handle }: { handle: string }) => {
+    const collection = await localProvider.getCollection(handle);
+    return collection ? toShopifyCollection(collection) : null;
+  },
+  collections: async ({ first }: { first?: number }) => {
+    // The storefront prepends its own "All" entry, so only real collections are returned here.
+    const collections = (await localProvider.getCollections()).filter(
+      (collection) => collection.handle
+    );
+    return toConnection(collections.map(toShopifyCollection), first);
+  },
+  menu: async ({ handle }: { handle: string }) => {
+    const items = await localProvider.getMenu(handle);
+    return items.length
+      ? { handle, items: items.map((item) => ({ title: item.title, url: item.path })) }
+      : null;
+  },
+  pageByHandle: async ({ handle }: { handle: string }) => {
+    const pages = await localProvider.getPages();
+    return pages.find((page) => page.handle === handle) || null;
+  },
+  pages: async ({ first }: { first?: number }) =>
+    toConnection<Page>(await localProvider.getPages(), first),
+  product: async ({ handle }: { handle: string }) => {
+    const product = await localProvider.getProduct(handle);
+    return product ? toShopifyProduct(product) : null;
+  },
+  productRecommendations: async ({ productId }: { productId: string }) =>
+    (await localProvider.getProductRecommendations(productId)).map(toShopifyProduct),
+  // Suggestions are slim, so each one is looked up again to resolve whatever the query selects.
+  predictiveSearch: async ({
+    query,
+    types = ['QUERY', 'PRODUCT', 'COLLECTION', 'PAGE'],
+    limit = 10
+  }: {
+    query: string;
+    types?: string[];
+    limit?: number;
+  }) => {
+    const suggestions = await localProvider.getSearchSuggestions(query);
+    const lookUp = async <T, R>(
+      type: string,
+      items: { handle: string }[],
+      find: (handle: string) => Promise<T | undefined>,
+      reshape: (item: T) => R
+    ) => {
+      if (!types.includes(type)) {
+        return [];
+      }
+
+      const found = await Promise.all(items.slice(0, limit).map(({ handle }) => find(handle)));
+      return found.flatMap((item) => (item ? [reshape(item)] : []));
+    };
+
+    return {
+      queries: types.includes('QUERY')
+        ? suggestions.queries.slice(0, limit).map((text) => ({ text }))
+        : [],
+      products: await lookUp(
+        'PRODUCT',
+        suggestions.products,
+        localProvider.getProduct,
+        toShopifyProduct
+      ),
+      collections: await lookUp(
+        'COLLECTION',
+        suggestions.collections,
+        localProvider.getCollection,
+        toShopifyCollection
+      ),
+      pages: await lookUp('PAGE', suggestions.pages, localProvider.getPage, (page: Page) => page)
+    };
+  },
+  products: async ({
+    query,
+    reverse,
+    sortKey,
+    ...connectionArgs
+  }: {
+    query?: string;
+    reverse?: boolean;
+    sortKey?: string;
+  } & ConnectionArgs) =>
+    toProductConnection(
+      await localProvider.getProducts({
+        ...parseSearchSyntax(query),
+        reverse,
+        sortKey,
+        ...toPaginationOptions(connectionArgs)
+      })
+    ),
+  cartCreate: async ({ input }: { input?: { lines?: { merchandiseId: string }[] } }) => {
+    const cart = await localProvider.createCart();
+    const lines = (input?.lines || []).map((line) => ({ quantity: 1, ...line }));
+
+    return cartPayload(
+      lines.length ? localProvider.addToCart(cart.id!, lines) : Promise.resolve(cart)
+    );
+  },
+  cartLinesAdd: ({
+    cartId,
+    lines
+  }: {
+    cartId: string;
+    lines: { merchandiseId: string; quantity?: number }[];
+  }) =>
+    cartPayload(
+      localProvider.addToCart(
+        cartId,
+        lines.map((line) => ({ quantity: 1, ...line }))
+      )
+    ),
+  cartLinesRemove: ({ cartId, lineIds }: { cartId: string; lineIds: string[] }) =>
+    cartPayload(localProvider.removeFromCart(cartId, lineIds)),
+  cartLinesUpdate: async ({
+    cartId,
+    lines
+  }: {
+    cartId: string;
+    lines: { id: string; merchandiseId?: string; quantity?: number }[];
+  }) => {
+    const cart = await localProvider.getCart(cartId);
+
+    // Omitted fields keep their current value, as they do on Shopify.
+    return cartPayload(
+      localProvider.updateCart(
+        cartId,
+        lines.map((line) => {
+          const current = cart?.lines.find((cartLine) => cartLine.id === line.id);
+
+          return {
+            id: line.id,
+            merchandiseId: line.merchandiseId || current?.merchandise.id || '',
+            quantity: line.quantity ?? current?.quantity ?? 0
+          };
+        })
+      )
+    );
+  },
+  cartBuyerIdentityUpdate: ({
+    cartId,
+    buyerIdentity: { email, countryCode, deliveryAddressPreferences }
+  }: {
+    cartId: string;
+    buyerIdentity: {
+      email?: string;
+      countryCode?: string;
+      deliveryAddressPreferences?: {
+        deliveryAddress?: { zip?: string; province?: string; country?: string };
+      }[];
+    };
+  }) => {
+    const address = deliveryAddressPreferences?.[0]?.deliveryAddress;
+
+    return cartPayload(
+      localProvider.updateBuyerIdentity(cartId, {
+        email,
+        countryCode: countryCode || address?.country,
+        provinceCode: address?.province,
+        postalCode: address?.zip
+      })
+    );
+  },
+  cartDiscountCodesUpdate: ({
+    cartId,
+    discountCodes
+  }: {
+    cartId: string;
+    discountCodes: string[];
+  }) => cartPayload(localProvider.updateDiscountCodes(cartId, discountCodes))
+};
+
+// The arguments of the operation's `@inContext` directive, if it has one. Invalid documents are
+// left for `graphql` to report.
+function getContext(
+  query: string,
+  variables: Record<string, unknown> = {},
+  operationName?: string
+): { country?: string; language?: string } {
+  let document: DocumentNode;
+
+  try {
+    document = parse(query);
+  } catch (e) {
+    return {};
+  }
+
+  const operation = document.definitions.find(
+    (definition): definition is OperationDefinitionNode =>
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      (!operationName || definition.name?.value === operationName)
+  );
+  const directive = operation?.directives?.find(
+    (directive) => directive.name.value === 'inContext'
+  );
+  const getArgument = (name: string) => {
+    const value = directive?.arguments?.find((argument) => argument.name.value === name)?.value;
+
+    if (value?.kind === Kind.VARIABLE) {
+      const variable = variables[value.name.value];
+      return typeof variable === 'string' ? variable : undefined;
+    }
+
+    return value?.kind === Kind.ENUM || value?.kind === Kind.STRING ? value.value : undefined;
+  };
+
+  return { country: getArgument('country'), language: getArgument('language') };
+}
+
+export async function executeStorefrontOperation({
+  query,
+  variables,
+  operationName
+}: {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}) {
+  const run = () =>
+    graphql({
+      schema,
+      source: query,
+      rootValue,
+      variableValues: variables,
+      operationName
+    });
+  const { country, language } = getContext(query, variables, operationName);
+  const currency = country
+    ? (await getCurrencies()).find((currency) => currency.country === country)
+    : undefined;
+  const locale = language?.toLowerCase().replace('_', '-');
+  const inCurrency = () => (currency ? withCurrency(currency.code, run) : run());
+
+  // Prices are converted to the currency of the market in `@inContext` and content is served in
+  // its language, as Shopify does. Languages the catalog has no translations for fall back to
+  // the default one.
+  return isLocale(locale) ? withLocale(locale, inCurrency) : inCurrency();
+}
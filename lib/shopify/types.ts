@@ -1,15 +1,222 @@
+import type { NextRequest, NextResponse } from 'next/server';
+
 export type Maybe<T> = T | null;
 
 export type Connection<T> = {
   edges: Array<Edge<T>>;
+  pageInfo?: PageInfo;
 };
 
 export type Edge<T> = {
+  cursor?: string;
   node: T;
 };
 
-export type Cart = Omit<ShopifyCart, 'lines'> & {
+export type PageInfo = {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+};
+
+// `first` is the page size. With `before` it counts back from that cursor, so the previous page
+// has the same size as the current one.
+export type PaginationOptions = {
+  first?: number;
+  after?: string;
+  before?: string;
+};
+
+export type ProductPage = {
+  products: Product[];
+  pageInfo: PageInfo;
+  // How many products there are over every page, when the provider counts them. Shopify's
+  // `products` connection doesn't.
+  totalCount?: number;
+  // Counted over the whole result set, not just this page.
+  facets: Facet[];
+};
+
+// Mirrors Shopify's `ProductFilter` input. Values of the same kind (two sizes, say) match
+// products with either of them; different kinds all have to match.
+export type ProductFilter = {
+  available?: boolean;
+  price?: { min?: number; max?: number };
+  productVendor?: string;
+  tag?: string;
+  variantOption?: { name: string; value: string };
+};
+
+// Mirrors Shopify's `Filter`: a group of values shoppers can narrow a listing down with.
+export type Facet = {
+  id: string;
+  label: string;
+  type: 'BOOLEAN' | 'LIST' | 'PRICE_RANGE';
+  values: FacetValue[];
+};
+
+export type FacetValue = {
+  id: string;
+  label: string;
+  count: number;
+  // The filter to pass back to narrow the listing down to this value.
+  input: ProductFilter;
+};
+
+export type Cart = Omit<
+  ShopifyCart,
+  'lines' | 'buyerIdentity' | 'deliveryGroups' | 'discountAllocations'
+> & {
   lines: CartItem[];
+  // Every discount on the cart with how much it takes off in total, whether it applies to
+  // lines or to the whole order.
+  discountAllocations: CartDiscountAllocation[];
+  // Whether line prices already include `totalTaxAmount`, or it is added on top. Unknown for
+  // Shopify carts.
+  taxesIncluded?: boolean;
+  buyerIdentity: CartBuyerIdentity;
+  // The ways the cart can reach the buyer, cheapest first, with what each would cost.
+  deliveryOptions: CartDeliveryOption[];
+  // The subtotal from which shipping is free, if there is one. Shopify doesn't say.
+  freeShippingThreshold?: Money;
+  // How far the shopper has got through the storefront's own checkout. Shopify carts check out on
+  // Shopify, so they never have one.
+  checkout?: CartCheckout;
+};
+
+// Who the cart is for and where it goes. Every field is optional, as none of them are known
+// before checkout.
+export type CartBuyerIdentity = {
+  email?: string;
+  countryCode?: string;
+  provinceCode?: string;
+  postalCode?: string;
+};
+
+export type MailingAddress = {
+  firstName: string;
+  lastName: string;
+  address1: string;
+  address2?: string;
+  city: string;
+  provinceCode?: string;
+  countryCode: string;
+  zip: string;
+  phone?: string;
+};
+
+// What checkout collects beyond the buyer identity. The buyer's email, country, province and
+// postal code stay on `buyerIdentity`, which taxes and shipping go by.
+export type CartCheckout = {
+  shippingAddress?: MailingAddress;
+  // The shipping address is billed when this is unset.
+  billingAddress?: MailingAddress;
+  // One of the cart's `deliveryOptions`. It is dropped when a change to the cart removes it.
+  deliveryOptionHandle?: string;
+  paymentMethod?: PaymentMethod;
+};
+
+export type PaymentMethod = 'card' | 'bankTransfer';
+
+// `pending` orders are waiting for payment and `authorized` ones for it to be captured.
+export type OrderStatus =
+  | 'pending'
+  | 'authorized'
+  | 'paid'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'partiallyRefunded'
+  | 'refunded';
+
+export type OrderStatusChange = {
+  status: OrderStatus;
+  note?: string;
+  createdAt: string;
+};
+
+// A line as it was ordered. The product and variant are copies taken when the order was placed,
+// so later changes to the catalog don't rewrite the order.
+export type OrderLine = {
+  id: string;
+  productId: string;
+  merchandiseId: string;
+  quantity: number;
+  product: Pick<Product, 'id' | 'handle' | 'title' | 'vendor' | 'featuredImage'>;
+  variant: ProductVariant;
+  // The line's price before discounts, like a cart line's.
+  cost: { totalAmount: Money };
+  discountAllocations: CartDiscountAllocation[];
+  taxLines: TaxLine[];
+};
+
+// One call to the payment gateway about an order's payment, successful or not.
+export type PaymentTransaction = {
+  kind: 'authorization' | 'capture' | 'refund' | 'void';
+  status: 'success' | 'failure';
+  amount: Money;
+  // Why the gateway refused, e.g. `card_declined`.
+  errorCode?: string;
+  createdAt: string;
+};
+
+// A card payment on an order, as the gateway knows it.
+export type OrderPayment = {
+  gateway: string;
+  id: string;
+  amount: Money;
+  // Every transaction so far, oldest first.
+  transactions: PaymentTransaction[];
+};
+
+export type Order = {
+  id: string;
+  // What shoppers see, e.g. `#1001`.
+  name: string;
+  email: string;
+  shippingAddress: MailingAddress;
+  billingAddress: MailingAddress;
+  deliveryOption: CartDeliveryOption;
+  paymentMethod: PaymentMethod;
+  // Set for card payments.
+  payment?: OrderPayment;
+  lines: OrderLine[];
+  // The codes that took something off the order, which count towards their usage limits.
+  discountCodes: string[];
+  // Every discount on the order with how much it took off in total.
+  discountAllocations: CartDiscountAllocation[];
+  cost: {
+    subtotalAmount: Money;
+    shippingAmount: Money;
+    totalTaxAmount: Money;
+    totalAmount: Money;
+  };
+  taxesIncluded: boolean;
+  status: OrderStatus;
+  // Every status the order has had, oldest first. The last one is `status`.
+  statusHistory: OrderStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CartDiscountAllocation = {
+  title: string;
+  // Set when the discount came from a code.
+  code?: string;
+  discountedAmount: Money;
+};
+
+export type CartDiscountCode = {
+  code: string;
+  // Whether the code takes anything off the cart as it is now.
+  applicable: boolean;
+};
+
+export type CartDeliveryOption = {
+  handle: string;
+  title: string;
+  description?: string;
+  deliveryMethodType: 'SHIPPING' | 'LOCAL' | 'PICK_UP' | 'PICKUP_POINT';
+  estimatedCost: Money;
 };
 
 export type CartProduct = {
@@ -25,6 +232,10 @@ export type CartItem = {
   cost: {
     totalAmount: Money;
   };
+  // The taxes charged on this line. Only the local provider itemizes them.
+  taxLines?: TaxLine[];
+  // Discounts taken off `cost.totalAmount`, which is the line's price before them.
+  discountAllocations: CartDiscountAllocation[];
   merchandise: {
     id: string;
     title: string;
@@ -33,11 +244,46 @@ export type CartItem = {
       value: string;
     }[];
     product: CartProduct;
+    // How many more of the variant the cart could hold in all, counting what its checkout holds.
+    // Unset for variants whose stock isn't tracked.
+    quantityAvailable?: number;
   };
 };
 
 export type Collection = ShopifyCollection & {
   path: string;
+  // Set on smart collections, whose products are every product that matches the rules.
+  ruleSet?: CollectionRuleSet;
+};
+
+export type CollectionRuleColumn =
+  | 'TAG'
+  | 'TITLE'
+  | 'VARIANT_PRICE'
+  | 'VARIANT_TITLE'
+  | 'AVAILABLE_FOR_SALE';
+
+export type CollectionRuleRelation =
+  | 'EQUALS'
+  | 'NOT_EQUALS'
+  | 'CONTAINS'
+  | 'NOT_CONTAINS'
+  | 'STARTS_WITH'
+  | 'ENDS_WITH'
+  | 'GREATER_THAN'
+  | 'LESS_THAN';
+
+// Mirrors the rule sets of Shopify's smart collections, e.g. `VARIANT_PRICE LESS_THAN 20`.
+export type CollectionRule = {
+  column: CollectionRuleColumn;
+  relation: CollectionRuleRelation;
+  condition: string;
+};
+
+export type CollectionRuleSet = {
+  // When true a product needs to match any rule instead of all of them.
+  appliedDisjunctively: boolean;
+  rules: CollectionRule[];
 };
 
 export type Image = {
@@ -68,12 +314,20 @@ export type Page = {
   updatedAt: string;
 };
 
-export type Product = Omit<ShopifyProduct, 'variants' | 'images'> & {
+export type Product = Omit<ShopifyProduct, 'variants' | 'images' | 'rating' | 'ratingCount'> & {
   // Different items with different choices
   // Should be the variant item of the current choice
   variants: ProductVariant[];
   // The image for each variants
   images: Image[];
+  // Average review rating, for products that have reviews.
+  rating?: ProductRating;
+};
+
+export type ProductRating = {
+  value: number;
+  // How many reviews the average is taken over.
+  count: number;
 };
 
 export type ProductOption = {
@@ -91,6 +345,12 @@ export type ProductVariant = {
     value: string;
   }[];
   price: Money;
+  // Units that can still be bought, less what checkouts hold. Unset for variants whose stock isn't
+  // tracked, which are never sold out. Only local products have it.
+  quantityAvailable?: number;
+  // Shipping weight in grams and package size in centimeters. Only local products have them.
+  weight?: number;
+  dimensions?: { length: number; width: number; height: number };
 };
 
 // metadata html
@@ -99,6 +359,22 @@ export type SEO = {
   description: string;
 };
 
+// What the navbar offers while a query is still being typed. Only the fields the dropdown shows
+// are fetched, so these are slimmer than the types they are picked from.
+export type SearchSuggestions = {
+  // Completed or corrected queries, best first.
+  queries: string[];
+  products: Pick<Product, 'handle' | 'title' | 'featuredImage' | 'priceRange'>[];
+  collections: Pick<Collection, 'handle' | 'title' | 'path'>[];
+  pages: Pick<Page, 'handle' | 'title'>[];
+};
+
+export type TaxLine = {
+  title: string;
+  rate: number;
+  amount: Money;
+};
+
 export type ShopifyCart = {
   id: string | undefined;
   checkoutUrl: string;
@@ -107,8 +383,29 @@ export type ShopifyCart = {
     totalAmount: Money;
     totalTaxAmount: Money;
   };
-  lines: Connection<CartItem>;
+  lines: Connection<ShopifyCartLine>;
   totalQuantity: number;
+  discountCodes: CartDiscountCode[];
+  discountAllocations: ShopifyDiscountAllocation[];
+  buyerIdentity: {
+    email: string | null;
+    countryCode: string | null;
+    deliveryAddressPreferences: { zip?: string | null; provinceCode?: string | null }[];
+  };
+  deliveryGroups: Connection<{ deliveryOptions: CartDeliveryOption[] }>;
+};
+
+// Shopify's `totalAmount` is after the line's discounts and `subtotalAmount` before them.
+export type ShopifyCartLine = Omit<CartItem, 'cost' | 'discountAllocations'> & {
+  cost: { subtotalAmount: Money; totalAmount: Money };
+  discountAllocations: ShopifyDiscountAllocation[];
+};
+
+// Code discounts have a `code` and every other kind a `title`.
+export type ShopifyDiscountAllocation = {
+  code?: string;
+  title?: string;
+  discountedAmount: Money;
 };
 
 export type ShopifyCollection = {
@@ -127,6 +424,7 @@ export type ShopifyProduct = {
   title: string;
   // the plain text of description
   description: string;
+  vendor: string;
   // the html text of description, this includes html code formats
   descriptionHtml: string;
   // defines the attributes that an item can have
@@ -143,7 +441,16 @@ export type ShopifyProduct = {
   seo: SEO;
   // an array of characters used to catagorize the current product
   tags: string[];
+  createdAt: string;
   updatedAt: string;
+  // The standard `reviews.rating` and `reviews.rating_count` metafields, which review apps
+  // fill in. The rating is JSON: `{ "value": "4.5", "scale_min": "1.0", "scale_max": "5.0" }`.
+  rating: ShopifyMetafield | null;
+  ratingCount: ShopifyMetafield | null;
+};
+
+export type ShopifyMetafield = {
+  value: string;
 };
 
 export type ShopifyCartOperation = {
@@ -202,6 +509,36 @@ export type ShopifyUpdateCartOperation = {
   };
 };
 
+export type ShopifyUpdateBuyerIdentityOperation = {
+  data: {
+    cartBuyerIdentityUpdate: {
+      cart: ShopifyCart;
+    };
+  };
+  variables: {
+    cartId: string;
+    buyerIdentity: {
+      email?: string;
+      countryCode?: string;
+      deliveryAddressPreferences?: {
+        deliveryAddress: { zip?: string; province?: string; country?: string };
+      }[];
+    };
+  };
+};
+
+export type ShopifyUpdateDiscountCodesOperation = {
+  data: {
+    cartDiscountCodesUpdate: {
+      cart: ShopifyCart;
+    };
+  };
+  variables: {
+    cartId: string;
+    discountCodes: string[];
+  };
+};
+
 export type ShopifyCollectionOperation = {
   data: {
     collection: ShopifyCollection;
@@ -211,16 +548,26 @@ export type ShopifyCollectionOperation = {
   };
 };
 
+// Shopify serializes each value's `input` as a JSON string.
+export type ShopifyFilter = Omit<Facet, 'values'> & {
+  values: (Omit<FacetValue, 'input'> & { input: string })[];
+};
+
 export type ShopifyCollectionProductsOperation = {
   data: {
     collection: {
-      products: Connection<ShopifyProduct>;
+      products: Connection<ShopifyProduct> & { filters: ShopifyFilter[] };
     };
   };
   variables: {
     handle: string;
     reverse?: boolean;
     sortKey?: string;
+    filters?: ProductFilter[];
+    first?: number;
+    last?: number;
+    after?: string;
+    before?: string;
   };
 };
 
@@ -245,7 +592,7 @@ export type ShopifyMenuOperation = {
 };
 
 export type ShopifyPageOperation = {
-  data: { pageByHandle: Page };
+  data: { pageByHandle: Page | null };
   variables: { handle: string };
 };
 
@@ -271,6 +618,35 @@ export type ShopifyProductRecommendationsOperation = {
   };
 };
 
+export type ShopifySearchSuggestionsOperation = {
+  data: {
+    predictiveSearch: {
+      queries: { text: string }[];
+      products: Pick<
+        ShopifyProduct,
+        'handle' | 'title' | 'featuredImage' | 'priceRange' | 'tags'
+      >[];
+      collections: Pick<ShopifyCollection, 'handle' | 'title'>[];
+      pages: Pick<Page, 'handle' | 'title'>[];
+    } | null;
+  };
+  variables: {
+    query: string;
+    limit: number;
+  };
+};
+
+export type ShopifySpellingSuggestionOperation = {
+  data: {
+    predictiveSearch: {
+      queries: { text: string }[];
+    } | null;
+  };
+  variables: {
+    query: string;
+  };
+};
+
 export type ShopifyProductsOperation = {
   data: {
     products: Connection<ShopifyProduct>;
@@ -279,5 +655,69 @@ export type ShopifyProductsOperation = {
     query?: string;
     reverse?: boolean;
     sortKey?: string;
+    first?: number;
+    last?: number;
+    after?: string;
+    before?: string;
   };
 };
+
+export type CommerceProvider = {
+  createCart(): Promise<Cart>;
+  addToCart(cartId: string, lines: { merchandiseId: string; quantity: number }[]): Promise<Cart>;
+  removeFromCart(cartId: string, lineIds: string[]): Promise<Cart>;
+  updateCart(
+    cartId: string,
+    lines: { id: string; merchandiseId: string; quantity: number }[]
+  ): Promise<Cart>;
+  getCart(cartId: string | undefined): Promise<Cart | undefined>;
+  // Merges `buyerIdentity` into the cart's, which re-estimates its taxes and delivery options.
+  updateBuyerIdentity(cartId: string, buyerIdentity: CartBuyerIdentity): Promise<Cart>;
+  // Replaces the cart's discount codes. Codes that don't apply are kept, marked as such.
+  updateDiscountCodes(cartId: string, discountCodes: string[]): Promise<Cart>;
+  // Replaces the fields given in the cart's checkout. Only carts whose `checkoutUrl` is the
+  // storefront's own `/checkout` support this and `completeCheckout`.
+  updateCheckout(cartId: string, checkout: CartCheckout): Promise<Cart>;
+  // Holds the cart's items for its checkout for a while, so they can't sell out before the order
+  // is placed. Throws when there aren't enough of them left.
+  reserveInventory(cartId: string): Promise<void>;
+  // Sets how many of a variant are on hand at a location, e.g. after a delivery.
+  setInventoryLevel(merchandiseId: string, location: string, quantity: number): Promise<void>;
+  // Places an order for the cart once every checkout step is done, then deletes the cart. A card
+  // `payment` must already be authorized for the checkout's total. The order takes the cart's id,
+  // so a payment made for the cart can be traced to its order.
+  completeCheckout(cartId: string, payment?: OrderPayment): Promise<Order>;
+  // Records a transaction on the order's payment and moves the order to the status it leads to.
+  addPaymentTransaction(orderId: string, transaction: PaymentTransaction): Promise<Order>;
+  // Orders placed through `completeCheckout`. Shopify shows its own order status pages.
+  getOrder(id: string): Promise<Order | undefined>;
+  getCollection(handle: string): Promise<Collection | undefined>;
+  getCollectionProducts(
+    options: {
+      collection: string;
+      reverse?: boolean;
+      sortKey?: string;
+      filters?: ProductFilter[];
+    } & PaginationOptions
+  ): Promise<ProductPage>;
+  getCollections(): Promise<Collection[]>;
+  getMenu(handle: string): Promise<Menu[]>;
+  getPage(handle: string): Promise<Page | undefined>;
+  getPages(): Promise<Page[]>;
+  getProduct(handle: string): Promise<Product | undefined>;
+  getProductRecommendations(productId: string): Promise<Product[]>;
+  // A corrected query for "did you mean", if there is one worth showing.
+  getSpellingSuggestion(query: string): Promise<string | undefined>;
+  // Suggestions for a partly typed query, for the navbar's search-as-you-type dropdown.
+  getSearchSuggestions(query: string): Promise<SearchSuggestions>;
+  getProducts(
+    options: {
+      query?: string;
+      reverse?: boolean;
+      sortKey?: string;
+      filters?: ProductFilter[];
+    } & PaginationOptions
+  ): Promise<ProductPage>;
+  // Called from `app/api/revalidate` so each provider controls its own revalidation logic.
+  revalidate(req: NextRequest): Promise<NextResponse>;
+};
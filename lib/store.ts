@@ -0,0 +1,114 @@
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+
+// A tiny JSON document store for server-side state (carts, orders, ...). Every record is one
+// file at `<COMMERCE_STORE_DIR>/<collection>/<id>.json`, written atomically so a crash never
+// leaves a half-written record behind.
+const storeDir = path.resolve(process.cwd(), process.env.COMMERCE_STORE_DIR || '.commerce');
+
+const isValidId = (id: string) => /^[\w-]+$/.test(id);
+
+const recordPath = (collection: string, id: string) =>
+  path.join(storeDir, collection, `${id}.json`);
+
+export async function readRecord<T>(collection: string, id: string): Promise<T | undefined> {
+  // Ids usually come from cookies or URLs, so never let them escape the store directory.
+  if (!isValidId(id)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await readFile(recordPath(collection, id), 'utf8')) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+
+    throw e;
+  }
+}
+
+export async function writeRecord<T>(collection: string, id: string, record: T): Promise<T> {
+  if (!isValidId(id)) {
+    throw new Error(`Invalid record id '${id}'.`);
+  }
+
+  const target = recordPath(collection, id);
+  const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(temporary, JSON.stringify(record, null, 2));
+  await rename(temporary, target);
+
+  return record;
+}
+
+export async function deleteRecord(collection: string, id: string): Promise<void> {
+  if (isValidId(id)) {
+    await rm(recordPath(collection, id), { force: true });
+  }
+}
+
+// When a record of the collection was last written or deleted, or 0 before the first one, so
+// what is read from it can be cached until it changes.
+export async function getCollectionMtime(collection: string): Promise<number> {
+  try {
+    return (await stat(path.join(storeDir, collection))).mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+
+    throw e;
+  }
+}
+
+// The ids of a collection's records, without reading them.
+export async function listRecordIds(collection: string): Promise<string[]> {
+  let files: string[];
+
+  try {
+    files = await readdir(path.join(storeDir, collection));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+
+    throw e;
+  }
+
+  return files
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length));
+}
+
+export async function listRecords<T>(collection: string): Promise<T[]> {
+  const records: (T | undefined)[] = await Promise.all(
+    (await listRecordIds(collection)).map((id) => readRecord<T>(collection, id))
+  );
+
+  return records.filter((record): record is T => record !== undefined);
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+// Serializes read-modify-write cycles on the same record within this server process.
+export async function withRecordLock<T>(
+  collection: string,
+  id: string,
+  callback: () => Promise<T>
+): Promise<T> {
+  const key = `${collection}/${id}`;
+  const previous = locks.get(key) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(callback);
+
+  locks.set(key, current);
+
+  try {
+    return await current;
+  } finally {
+    if (locks.get(key) === current) {
+      locks.delete(key);
+    }
+  }
+}
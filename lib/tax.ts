@@ -0,0 +1,166 @@
+import { readFile, stat } from 'fs/promises';
+import { getSelectedCurrency } from 'lib/currency';
+import { Money, TaxLine } from 'lib/shopify/types';
+import { fromCents, toCents } from 'lib/utils';
+import path from 'path';
+
+// One tax charged in a region, e.g. a state sales tax or VAT. `categories` overrides `rate` for
+// products in a tax category, so clothing can be exempt or food taxed at a reduced rate.
+export type Tax = {
+  title: string;
+  rate: number;
+  categories?: Record<string, number>;
+};
+
+// The taxes charged on orders shipped to a country, or to one of its provinces or states. A region
+// with a `province` takes precedence over the country's.
+export type TaxRegion = {
+  country: string;
+  province?: string;
+  // Whether catalog prices already include these taxes (as with VAT), rather than having them
+  // added on top (as with US sales tax). Defaults to the file's `pricesIncludeTax`.
+  pricesIncludeTax?: boolean;
+  taxes: Tax[];
+};
+
+export type TaxSettings = {
+  // Where orders are taxed until the shopper says otherwise: the market of their currency when
+  // one is selected, else this country.
+  country?: string;
+  pricesIncludeTax: boolean;
+  // Emails of customers who are never charged tax, e.g. resellers and charities.
+  exemptCustomers: string[];
+  regions: TaxRegion[];
+};
+
+// Who a cart is taxed for. Every field is optional, as none of them are known before checkout.
+export type TaxCustomer = {
+  email?: string;
+  countryCode?: string;
+  provinceCode?: string;
+};
+
+export type TaxableLine = {
+  amount: Money;
+  category?: string;
+};
+
+export type TaxResult = {
+  // The taxes on each line, in the order the lines were given.
+  lines: TaxLine[][];
+  totalTaxAmount: Money;
+  taxesIncluded: boolean;
+  // How much the lines' amounts come to once tax is settled: their sum plus tax added on top, or
+  // minus the tax included in them when the customer is exempt.
+  totalAmount: Money;
+};
+
+const settingsPath = path.resolve(process.cwd(), process.env.COMMERCE_TAXES_FILE || 'taxes.json');
+
+const emptySettings: TaxSettings = { pricesIncludeTax: false, exemptCustomers: [], regions: [] };
+
+let cached: { mtime: number; settings: TaxSettings } | undefined;
+
+// Re-read whenever the file changes, so new rates apply without a restart. Without a file nothing
+// is taxed.
+export async function getTaxSettings(): Promise<TaxSettings> {
+  let mtime: number;
+
+  try {
+    mtime = (await stat(settingsPath)).mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptySettings;
+    }
+
+    throw e;
+  }
+
+  if (cached?.mtime !== mtime) {
+    const file = JSON.parse(await readFile(settingsPath, 'utf8')) as Partial<TaxSettings>;
+    cached = {
+      mtime,
+      settings: {
+        ...emptySettings,
+        ...file,
+        exemptCustomers: (file.exemptCustomers || []).map((email) => email.toLowerCase())
+      }
+    };
+  }
+
+  return cached.settings;
+}
+
+function findTaxRegion(
+  settings: TaxSettings,
+  countryCode: string | undefined,
+  provinceCode?: string
+): TaxRegion | undefined {
+  const regions = settings.regions.filter((region) => region.country === countryCode);
+
+  return (
+    (provinceCode && regions.find((region) => region.province === provinceCode)) ||
+    regions.find((region) => !region.province)
+  );
+}
+
+const getTaxRate = (tax: Tax, category?: string): number =>
+  (category ? tax.categories?.[category] : undefined) ?? tax.rate;
+
+// Taxes each line on its own and rounds every tax to the cent, the way an invoice lists them, so
+// the lines always add up to the total.
+export async function calculateTaxes(
+  lines: TaxableLine[],
+  currencyCode: string,
+  customer: TaxCustomer = {}
+): Promise<TaxResult> {
+  const [settings, currency] = await Promise.all([getTaxSettings(), getSelectedCurrency()]);
+  const region = findTaxRegion(
+    settings,
+    customer.countryCode || currency?.country || settings.country,
+    customer.provinceCode
+  );
+  const taxesIncluded = region?.pricesIncludeTax ?? settings.pricesIncludeTax;
+  const exempt =
+    !!customer.email && settings.exemptCustomers.includes(customer.email.toLowerCase());
+  const toMoney = (cents: number): Money => ({ amount: fromCents(cents), currencyCode });
+  let subtotal = 0;
+  let totalTax = 0;
+
+  const taxLines = lines.map(({ amount, category }) => {
+    const cents = toCents(amount.amount);
+    const taxes = (region?.taxes || [])
+      .map((tax) => ({ tax, rate: getTaxRate(tax, category) }))
+      .filter(({ rate }) => rate > 0);
+    const combinedRate = taxes.reduce((sum, { rate }) => sum + rate, 0);
+
+    subtotal += cents;
+
+    return taxes.map(({ tax, rate }) => {
+      // An included tax is the share of the price it makes up, not the rate applied to the price.
+      const taxCents = Math.round(
+        taxesIncluded ? (cents * rate) / (1 + combinedRate) : cents * rate
+      );
+
+      totalTax += taxCents;
+
+      return { title: tax.title, rate, amount: toMoney(taxCents) };
+    });
+  });
+
+  if (exempt) {
+    return {
+      lines: lines.map(() => []),
+      totalTaxAmount: toMoney(0),
+      taxesIncluded,
+      totalAmount: toMoney(taxesIncluded ? subtotal - totalTax : subtotal)
+    };
+  }
+
+  return {
+    lines: taxLines,
+    totalTaxAmount: toMoney(totalTax),
+    taxesIncluded,
+    totalAmount: toMoney(taxesIncluded ? subtotal : subtotal + totalTax)
+  };
+}
@@ -11,6 +11,11 @@ export const ensureStartsWith = (stringToCheck: string, startsWith: string) =>
   stringToCheck.startsWith(startsWith) ? stringToCheck : `${startsWith}${stringToCheck}`;
 
 export const validateEnvironmentVariables = () => {
+  // The local provider serves everything from disk and needs no Shopify credentials.
+  if (process.env.COMMERCE_PROVIDER !== 'shopify') {
+    return;
+  }
+
   const requiredEnvironmentVariables = ['SHOPIFY_STORE_DOMAIN', 'SHOPIFY_STOREFRONT_ACCESS_TOKEN'];
   const missingEnvironmentVariables = [] as string[];
 
@@ -37,3 +42,19 @@ export const validateEnvironmentVariables = () => {
     );
   }
 };
+
+// The storefront's own origin, for links that have to be absolute, such as where a payment gateway
+// sends shoppers back to or links in emails. It is configured rather than taken from the request's
+// `Host` headers, which whoever sends the request controls.
+export const getSiteUrl = () =>
+  (
+    process.env.COMMERCE_SITE_URL ||
+    (process.env.NEXT_PUBLIC_VERCEL_URL
+      ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
+      : 'http://localhost:3000')
+  ).replace(/\/+$/, '');
+
+// Money amounts travel as decimal strings; do arithmetic in integer cents to avoid float drift.
+export const toCents = (amount: string | number) => Math.round(Number(amount) * 100);
+
+export const fromCents = (cents: number) => (cents / 100).toFixed(2);
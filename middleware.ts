@@ -0,0 +1,34 @@
+import { DEFAULT_LOCALE } from 'lib/constants';
+import { LOCALE_HEADER, parseLocalePath } from 'lib/i18n';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Every route serves every locale: the prefix of `/fr/product/...` is rewritten away and handed to
+// the app in a request header instead. The header is always set, so a client can't send its own.
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const { locale, path } = parseLocalePath(pathname);
+  const headers = new Headers(request.headers);
+
+  headers.set(LOCALE_HEADER, locale);
+
+  // The default locale has no prefix, so `/en/...` would only duplicate the unprefixed page.
+  if (pathname === `/${DEFAULT_LOCALE}` || pathname.startsWith(`/${DEFAULT_LOCALE}/`)) {
+    const url = request.nextUrl.clone();
+    url.pathname = pathname.slice(DEFAULT_LOCALE.length + 1) || '/';
+    return NextResponse.redirect(url);
+  }
+
+  if (path !== pathname) {
+    const url = request.nextUrl.clone();
+    url.pathname = path;
+    return NextResponse.rewrite(url, { request: { headers } });
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  // Static files and Next's own assets have no locale. API routes only do when they are
+  // requested under a prefix, like `/fr/api/search/suggest`.
+  matcher: ['/((?!api/|_next/static|_next/image|.*\\.\\w+$).*)']
+};